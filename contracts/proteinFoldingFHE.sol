@@ -1,6 +1,6 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, externalEuint32, ebool, eaddress } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract ProteinFoldingFHE is SepoliaConfig {
@@ -11,35 +11,102 @@ contract ProteinFoldingFHE is SepoliaConfig {
     mapping(address => bool) public isProvider;
     bool public paused;
     uint256 public cooldownSeconds;
+    // Closing a batch reveals its best score, so the total minus that score is the sum of the other submissions.
+    // The total is only decrypted or shared when that sum covers at least two of them.
+    uint256 public constant MIN_SUBMISSIONS_FOR_TOTAL = 3;
     mapping(address => uint256) public lastSubmissionTime;
     mapping(address => uint256) public lastDecryptionRequestTime;
 
+    // A research campaign with its own manager and batch sequence
+    struct Project {
+        uint256 id;
+        string name;
+        address manager;
+        uint256 currentBatchId;
+    }
+    uint256 public projectCount;
+    mapping(uint256 => Project) public projects;
+
     struct Batch {
         uint256 id;
         bool active;
-        uint256 totalScore;
+        euint32 totalScore;
         uint256 submissionCount;
     }
-    uint256 public currentBatchId;
-    mapping(uint256 => Batch) public batches;
+    // projectId => batchId => batch
+    mapping(uint256 => mapping(uint256 => Batch)) public batches;
+
+    // One submitted score. Its provider can decrypt it and share it with collaborators.
+    struct Submission {
+        uint256 id;
+        uint256 projectId;
+        uint256 batchId;
+        address provider;
+        euint32 score;
+    }
+    uint256 public totalSubmissions;
+    mapping(uint256 => Submission) public submissions;
 
     struct DecryptionContext {
+        uint256 projectId;
         uint256 batchId;
         bytes32 stateHash;
         bool processed;
     }
     mapping(uint256 => DecryptionContext) public decryptionContexts;
+    // Batches with a decryption request that has not been answered yet
+    mapping(uint256 => mapping(uint256 => bool)) public decryptionPending;
+    // Request ids cancelled by a project manager; the oracle's late answer to them is ignored
+    mapping(uint256 => bool) public decryptionCancelled;
+
+    // Highest score of a batch and the provider who submitted it. Scores are HP contact counts (the negated
+    // fold energy) scaled by 100, so the highest score is the best fold. Both stay encrypted while the batch
+    // is open; closing the batch decrypts only these two values, never the individual submissions.
+    struct BatchWinner {
+        euint32 bestScore;
+        eaddress bestProvider;
+        bool revealed;
+        uint256 decryptedBestScore;
+        address winner;
+    }
+    // projectId => batchId => winner
+    mapping(uint256 => mapping(uint256 => BatchWinner)) public batchWinners;
+    mapping(uint256 => DecryptionContext) public winnerDecryptionContexts;
 
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
     event ProviderAdded(address indexed provider);
     event ProviderRemoved(address indexed provider);
     event PauseToggled(bool paused);
     event CooldownSet(uint256 oldCooldownSeconds, uint256 newCooldownSeconds);
-    event BatchOpened(uint256 indexed batchId);
-    event BatchClosed(uint256 indexed batchId, uint256 totalScore, uint256 submissionCount);
-    event FoldingDataSubmitted(address indexed provider, uint256 indexed batchId, euint32 encryptedScore);
-    event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId);
-    event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 decryptedScore);
+    event ProjectCreated(uint256 indexed projectId, address indexed manager, string name);
+    event ProjectManagerChanged(uint256 indexed projectId, address indexed previousManager, address indexed newManager);
+    event BatchOpened(uint256 indexed projectId, uint256 indexed batchId);
+    event BatchClosed(uint256 indexed projectId, uint256 indexed batchId, euint32 totalScore, uint256 submissionCount);
+    event FoldingDataSubmitted(
+        address indexed provider,
+        uint256 indexed projectId,
+        uint256 indexed batchId,
+        euint32 encryptedScore,
+        uint256 submissionId
+    );
+    event DecryptionRequested(uint256 indexed requestId, uint256 indexed projectId, uint256 indexed batchId);
+    event DecryptionCancelled(uint256 indexed requestId, uint256 indexed projectId, uint256 indexed batchId);
+    event DecryptionCompleted(
+        uint256 indexed requestId,
+        uint256 indexed projectId,
+        uint256 indexed batchId,
+        uint256 decryptedScore
+    );
+    event SubmissionAccessGranted(uint256 indexed submissionId, address indexed provider, address indexed grantee);
+    event BatchTotalAccessGranted(uint256 indexed projectId, uint256 indexed batchId, address indexed grantee);
+    event TaskEnergyStored(string taskId, address indexed taskOwner, address indexed sender, euint32 energy);
+    event BatchWinnerRevealed(
+        uint256 indexed requestId,
+        uint256 indexed projectId,
+        uint256 indexed batchId,
+        address winner,
+        uint256 bestScore
+    );
 
     error NotOwner();
     error NotProvider();
@@ -51,6 +118,17 @@ contract ProteinFoldingFHE is SepoliaConfig {
     error ReplayAttempt();
     error StateMismatch();
     error NotInitialized();
+    error DecryptionPending();
+    error UnknownProject();
+    error NotProjectManager();
+    error UnknownSubmission();
+    error NotSubmitter();
+    error NoSubmissions();
+    error DecryptionNotPending();
+    error InvalidManager();
+    error TooFewSubmissions();
+    error BatchStillActive();
+    error InvalidTaskOwner();
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
@@ -62,6 +140,12 @@ contract ProteinFoldingFHE is SepoliaConfig {
         _;
     }
 
+    // The contract owner can step in for any project manager
+    modifier onlyProjectManager(uint256 projectId) {
+        _checkProjectManager(projectId);
+        _;
+    }
+
     modifier whenNotPaused() {
         if (paused) revert Paused();
         _;
@@ -85,7 +169,6 @@ contract ProteinFoldingFHE is SepoliaConfig {
         owner = msg.sender;
         isProvider[owner] = true;
         cooldownSeconds = 60; // Default 1 minute cooldown
-        currentBatchId = 1; // Start with batch ID 1
     }
 
     function transferOwnership(address newOwner) external onlyOwner {
@@ -119,65 +202,230 @@ contract ProteinFoldingFHE is SepoliaConfig {
         emit CooldownSet(oldCooldown, _cooldownSeconds);
     }
 
-    function openBatch() external onlyOwner whenNotPaused {
-        if (batches[currentBatchId].active) revert BatchAlreadyActive();
-        batches[currentBatchId] = Batch({ id: currentBatchId, active: true, totalScore: 0, submissionCount: 0 });
-        emit BatchOpened(currentBatchId);
+    function createProject(string calldata name, address manager) external onlyOwner returns (uint256 projectId) {
+        if (manager == address(0)) revert InvalidManager();
+        projectId = ++projectCount;
+        // Every project starts with batch ID 1
+        projects[projectId] = Project({ id: projectId, name: name, manager: manager, currentBatchId: 1 });
+        emit ProjectCreated(projectId, manager, name);
     }
 
-    function closeBatch(uint256 batchId) external onlyOwner whenNotPaused {
-        if (batchId != currentBatchId) revert InvalidBatchId();
-        Batch storage batch = batches[batchId];
+    function setProjectManager(uint256 projectId, address newManager) external onlyProjectManager(projectId) {
+        if (newManager == address(0)) revert InvalidManager();
+        address previousManager = projects[projectId].manager;
+        projects[projectId].manager = newManager;
+        emit ProjectManagerChanged(projectId, previousManager, newManager);
+    }
+
+    function openBatch(uint256 projectId) external onlyProjectManager(projectId) whenNotPaused {
+        uint256 batchId = projects[projectId].currentBatchId;
+        if (batches[projectId][batchId].active) revert BatchAlreadyActive();
+        batches[projectId][batchId] = Batch({
+            id: batchId,
+            active: true,
+            totalScore: FHE.asEuint32(0),
+            submissionCount: 0
+        });
+        FHE.allowThis(batches[projectId][batchId].totalScore);
+        emit BatchOpened(projectId, batchId);
+    }
+
+    function closeBatch(uint256 projectId, uint256 batchId) external onlyProjectManager(projectId) whenNotPaused {
+        Project storage project = projects[projectId];
+        if (batchId != project.currentBatchId) revert InvalidBatchId();
+        Batch storage batch = batches[projectId][batchId];
         if (!batch.active) revert BatchNotActive();
 
         batch.active = false;
-        emit BatchClosed(batchId, batch.totalScore, batch.submissionCount);
-        currentBatchId++;
+        emit BatchClosed(projectId, batchId, batch.totalScore, batch.submissionCount);
+        project.currentBatchId++;
+
+        if (batch.submissionCount > 0) _requestWinnerDecryption(projectId, batchId);
     }
 
-    function submitFoldingData(euint32 encryptedScore) external onlyProvider whenNotPaused checkSubmissionCooldown {
+    // The batch is named explicitly so a score never lands in a batch opened after the provider looked.
+    // The score is the fold's negated energy scaled by 100, so a better fold submits a higher score.
+    function submitFoldingData(
+        uint256 projectId,
+        uint256 batchId,
+        externalEuint32 encryptedScoreInput,
+        bytes calldata inputProof
+    ) external onlyProvider whenNotPaused checkSubmissionCooldown {
+        if (projects[projectId].id == 0) revert UnknownProject();
+        if (batchId != projects[projectId].currentBatchId) revert InvalidBatchId();
+        euint32 encryptedScore = FHE.fromExternal(encryptedScoreInput, inputProof);
         if (!FHE.isInitialized(encryptedScore)) revert NotInitialized();
-        Batch storage batch = batches[currentBatchId];
+        Batch storage batch = batches[projectId][batchId];
         if (!batch.active) revert BatchNotActive();
 
         // Add encrypted score to batch's total score
-        batch.totalScore = FHE.toBytes32(FHE.add(FHE.asEuint32(batch.totalScore), encryptedScore));
+        batch.totalScore = FHE.add(batch.totalScore, encryptedScore);
+        // Keep the running total usable by the contract in later transactions
+        FHE.allowThis(batch.totalScore);
+
+        // The first submission takes the lead whatever its score. Later ones take it only with a strictly
+        // higher score, so ties go to the earlier submission.
+        BatchWinner storage best = batchWinners[projectId][batchId];
+        if (batch.submissionCount == 0) {
+            best.bestScore = encryptedScore;
+            best.bestProvider = FHE.asEaddress(msg.sender);
+        } else {
+            ebool isBetter = FHE.gt(encryptedScore, best.bestScore);
+            best.bestScore = FHE.select(isBetter, encryptedScore, best.bestScore);
+            best.bestProvider = FHE.select(isBetter, FHE.asEaddress(msg.sender), best.bestProvider);
+        }
+        FHE.allowThis(best.bestScore);
+        FHE.allowThis(best.bestProvider);
+
         batch.submissionCount++;
         lastSubmissionTime[msg.sender] = block.timestamp;
 
-        emit FoldingDataSubmitted(msg.sender, currentBatchId, encryptedScore);
+        // The contract keeps the score so it can share it later; the provider may decrypt their own submission
+        FHE.allowThis(encryptedScore);
+        FHE.allow(encryptedScore, msg.sender);
+        uint256 submissionId = ++totalSubmissions;
+        submissions[submissionId] = Submission({
+            id: submissionId,
+            projectId: projectId,
+            batchId: batchId,
+            provider: msg.sender,
+            score: encryptedScore
+        });
+
+        emit FoldingDataSubmitted(msg.sender, projectId, batchId, encryptedScore, submissionId);
     }
 
-    function requestBatchScoreDecryption() external onlyOwner whenNotPaused checkDecryptionCooldown {
-        Batch storage batch = batches[currentBatchId];
-        if (batch.active) revert BatchNotActive(); // Can only decrypt closed batches
-        if (batch.submissionCount == 0) revert(); // Nothing to decrypt
+    // ACL grants cannot be revoked, so a grantee keeps access to this ciphertext for good
+    function grantSubmissionAccess(uint256 submissionId, address grantee) external {
+        Submission storage submission = submissions[submissionId];
+        if (submission.id == 0) revert UnknownSubmission();
+        if (msg.sender != submission.provider) revert NotSubmitter();
+        if (FHE.isAllowed(submission.score, grantee)) return;
+
+        FHE.allow(submission.score, grantee);
+        emit SubmissionAccessGranted(submissionId, msg.sender, grantee);
+    }
+
+    // Task records live in the UniversalAdapter registry, which cannot grant FHE access. Their energies are imported
+    // here instead, so the task owner and whoever folded the task can decrypt them; the record keeps the returned handle.
+    function storeTaskEnergy(
+        string calldata taskId,
+        address taskOwner,
+        externalEuint32 encryptedEnergyInput,
+        bytes calldata inputProof
+    ) external returns (euint32 energy) {
+        if (taskOwner == address(0)) revert InvalidTaskOwner();
+        energy = FHE.fromExternal(encryptedEnergyInput, inputProof);
+        if (!FHE.isInitialized(energy)) revert NotInitialized();
+
+        FHE.allowThis(energy);
+        FHE.allow(energy, msg.sender);
+        if (taskOwner != msg.sender) FHE.allow(energy, taskOwner);
+        emit TaskEnergyStored(taskId, taskOwner, msg.sender, energy);
+    }
+
+    // The total of an open batch changes with every submission, so only closed totals can be shared
+    function grantBatchTotalAccess(
+        uint256 projectId,
+        uint256 batchId,
+        address grantee
+    ) external onlyProjectManager(projectId) {
+        Batch storage batch = batches[projectId][batchId];
+        if (batch.id == 0) revert InvalidBatchId();
+        if (batch.active) revert BatchStillActive();
+        if (batch.submissionCount < MIN_SUBMISSIONS_FOR_TOTAL) revert TooFewSubmissions();
+        if (FHE.isAllowed(batch.totalScore, grantee)) return;
+
+        FHE.allow(batch.totalScore, grantee);
+        emit BatchTotalAccessGranted(projectId, batchId, grantee);
+    }
+
+    function canDecryptSubmission(uint256 submissionId, address account) external view returns (bool) {
+        return FHE.isAllowed(submissions[submissionId].score, account);
+    }
+
+    // Task records from before storeTaskEnergy hold handles nobody was ever granted
+    function canDecryptTaskEnergy(euint32 energy, address account) external view returns (bool) {
+        return FHE.isAllowed(energy, account);
+    }
+
+    function canDecryptBatchTotal(uint256 projectId, uint256 batchId, address account) external view returns (bool) {
+        return FHE.isAllowed(batches[projectId][batchId].totalScore, account);
+    }
+
+    function requestBatchScoreDecryption(
+        uint256 projectId,
+        uint256 batchId
+    ) external onlyProjectManager(projectId) whenNotPaused checkDecryptionCooldown {
+        _requestBatchScoreDecryption(projectId, batchId);
+        lastDecryptionRequestTime[msg.sender] = block.timestamp;
+    }
+
+    // Requests several closed batches, possibly of different projects, under a single cooldown window.
+    // Batch i is batchIds[i] of project projectIds[i].
+    function requestBatchScoreDecryptions(
+        uint256[] calldata projectIds,
+        uint256[] calldata batchIds
+    ) external whenNotPaused checkDecryptionCooldown {
+        if (projectIds.length != batchIds.length) revert InvalidBatchId();
+        for (uint256 i = 0; i < batchIds.length; i++) {
+            _checkProjectManager(projectIds[i]);
+            _requestBatchScoreDecryption(projectIds[i], batchIds[i]);
+        }
+        lastDecryptionRequestTime[msg.sender] = block.timestamp;
+    }
+
+    // Frees a batch whose decryption request the oracle never answered, so it can be requested again.
+    function cancelBatchDecryption(uint256 requestId) external {
+        DecryptionContext storage context = decryptionContexts[requestId];
+        if (context.batchId == 0 || context.processed) revert DecryptionNotPending();
+        _checkProjectManager(context.projectId);
+
+        context.processed = true;
+        decryptionCancelled[requestId] = true;
+        decryptionPending[context.projectId][context.batchId] = false;
+        emit DecryptionCancelled(requestId, context.projectId, context.batchId);
+    }
+
+    function _requestBatchScoreDecryption(uint256 projectId, uint256 batchId) internal {
+        Batch storage batch = batches[projectId][batchId];
+        if (batch.id == 0) revert InvalidBatchId(); // Never opened
+        if (batch.active) revert BatchStillActive(); // Can only decrypt closed batches
+        if (batch.submissionCount == 0) revert NoSubmissions(); // Nothing to decrypt
+        if (batch.submissionCount < MIN_SUBMISSIONS_FOR_TOTAL) revert TooFewSubmissions();
+        if (decryptionPending[projectId][batchId]) revert DecryptionPending();
 
-        euint32 encryptedTotalScore = FHE.asEuint32(batch.totalScore);
         bytes32[] memory cts = new bytes32[](1);
-        cts[0] = FHE.toBytes32(encryptedTotalScore);
+        cts[0] = FHE.toBytes32(batch.totalScore);
 
         bytes32 stateHash = _hashCiphertexts(cts);
         uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
 
-        decryptionContexts[requestId] = DecryptionContext({ batchId: batch.id, stateHash: stateHash, processed: false });
-        lastDecryptionRequestTime[msg.sender] = block.timestamp;
+        decryptionContexts[requestId] = DecryptionContext({
+            projectId: projectId,
+            batchId: batchId,
+            stateHash: stateHash,
+            processed: false
+        });
+        decryptionPending[projectId][batchId] = true;
 
-        emit DecryptionRequested(requestId, batch.id);
+        emit DecryptionRequested(requestId, projectId, batchId);
     }
 
     function myCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
-        if (decryptionContexts[requestId].processed) revert ReplayAttempt();
+        // The batch may have been requested again since, and that request carries the answer
+        if (decryptionCancelled[requestId]) return;
+        DecryptionContext storage context = decryptionContexts[requestId];
+        if (context.processed) revert ReplayAttempt();
 
         // Rebuild cts array in the exact same order as during requestDecryption
-        Batch storage batch = batches[decryptionContexts[requestId].batchId];
-        euint32 encryptedTotalScore = FHE.asEuint32(batch.totalScore);
+        Batch storage batch = batches[context.projectId][context.batchId];
         bytes32[] memory cts = new bytes32[](1);
-        cts[0] = FHE.toBytes32(encryptedTotalScore);
+        cts[0] = FHE.toBytes32(batch.totalScore);
 
         // State verification: ensure contract state hasn't changed since decryption request
         bytes32 currentHash = _hashCiphertexts(cts);
-        if (currentHash != decryptionContexts[requestId].stateHash) {
+        if (currentHash != context.stateHash) {
             revert StateMismatch();
         }
 
@@ -186,24 +434,54 @@ contract ProteinFoldingFHE is SepoliaConfig {
 
         // Decode cleartexts in the same order
         uint256 decryptedScore = abi.decode(cleartexts, (uint256));
-        decryptionContexts[requestId].processed = true;
+        context.processed = true;
+        decryptionPending[context.projectId][context.batchId] = false;
 
-        emit DecryptionCompleted(requestId, decryptionContexts[requestId].batchId, decryptedScore);
+        emit DecryptionCompleted(requestId, context.projectId, context.batchId, decryptedScore);
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
-        return keccak256(abi.encode(cts, address(this)));
+    function _requestWinnerDecryption(uint256 projectId, uint256 batchId) internal {
+        BatchWinner storage best = batchWinners[projectId][batchId];
+        bytes32[] memory cts = new bytes32[](2);
+        cts[0] = FHE.toBytes32(best.bestScore);
+        cts[1] = FHE.toBytes32(best.bestProvider);
+
+        uint256 requestId = FHE.requestDecryption(cts, this.winnerCallback.selector);
+        winnerDecryptionContexts[requestId] = DecryptionContext({
+            projectId: projectId,
+            batchId: batchId,
+            stateHash: _hashCiphertexts(cts),
+            processed: false
+        });
     }
 
-    function _initIfNeeded(euint32 _value) internal {
-        if (!FHE.isInitialized(_value)) {
-            FHE.init(_value);
-        }
+    function winnerCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        DecryptionContext storage context = winnerDecryptionContexts[requestId];
+        if (context.processed) revert ReplayAttempt();
+
+        BatchWinner storage best = batchWinners[context.projectId][context.batchId];
+        bytes32[] memory cts = new bytes32[](2);
+        cts[0] = FHE.toBytes32(best.bestScore);
+        cts[1] = FHE.toBytes32(best.bestProvider);
+        if (_hashCiphertexts(cts) != context.stateHash) revert StateMismatch();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        (uint256 bestScore, address winner) = abi.decode(cleartexts, (uint256, address));
+        context.processed = true;
+        best.revealed = true;
+        best.decryptedBestScore = bestScore;
+        best.winner = winner;
+
+        emit BatchWinnerRevealed(requestId, context.projectId, context.batchId, winner, bestScore);
     }
 
-    function _requireInitialized(euint32 _value) internal view {
-        if (!FHE.isInitialized(_value)) {
-            revert NotInitialized();
-        }
+    function _checkProjectManager(uint256 projectId) internal view {
+        if (projects[projectId].id == 0) revert UnknownProject();
+        if (msg.sender != projects[projectId].manager && msg.sender != owner) revert NotProjectManager();
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
+        return keccak256(abi.encode(cts, address(this)));
     }
 }
\ No newline at end of file
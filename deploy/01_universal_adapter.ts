@@ -0,0 +1,20 @@
+import type { DeployFunction } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// UniversalAdapter ships as a compiled artifact without its Solidity source
+import adapterArtifact from "../frontend/web/src/abi/UniversalAdapter.json";
+import { skipInProcessNetwork } from "../tasks/deployment";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  await hre.deployments.deploy("UniversalAdapter", {
+    from: deployer,
+    contract: { abi: adapterArtifact.abi, bytecode: adapterArtifact.bytecode },
+    log: true,
+  });
+};
+
+func.tags = ["UniversalAdapter"];
+func.skip = skipInProcessNetwork;
+
+export default func;
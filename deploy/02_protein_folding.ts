@@ -0,0 +1,19 @@
+import type { DeployFunction } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { ProteinFoldingClient } from "../frontend/web/src/proteinFolding/client";
+import { applyDeploymentPlan, deploymentPlan, skipInProcessNetwork } from "../tasks/deployment";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const plan = deploymentPlan(hre);
+  const deployment = await hre.deployments.deploy("ProteinFoldingFHE", { from: deployer, log: true });
+
+  const client = new ProteinFoldingClient(deployment.address, await hre.ethers.getSigner(deployer));
+  await applyDeploymentPlan(client, deployer, plan);
+};
+
+func.tags = ["ProteinFoldingFHE"];
+func.skip = skipInProcessNetwork;
+
+export default func;
@@ -0,0 +1,14 @@
+import type { DeployFunction } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { deploymentPlan, exportToFrontend, skipInProcessNetwork } from "../tasks/deployment";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  await exportToFrontend(hre, deploymentPlan(hre));
+};
+
+func.tags = ["frontend"];
+func.dependencies = ["UniversalAdapter", "ProteinFoldingFHE"];
+func.skip = skipInProcessNetwork;
+
+export default func;
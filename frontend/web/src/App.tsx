@@ -1,83 +1,113 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { getBrowserSigner, getContractWithSigner, getFoldingClient, getFoldingEvents, getTaskRegistry } from "./contract";
+import { TaskLease, TaskStatus, effectiveStatus, holdsLease, isClaimable } from "./registry/lease";
+import { QuarantinedTask, TaskRegistry, newTaskId } from "./registry/taskRegistry";
+import { TaskRecordInput } from "./registry/taskSchema";
+import { UserDecryptionError } from "./fhe/userDecryption";
+import { EncryptedInput, clearDecryptionPermits, decodeLegacyCiphertext, decryptEnergy, encryptEnergy, isLegacyCiphertext } from "./fhe/encryption";
+import { normalizeSequence, toHpSequence } from "./folding/hpModel";
+import { PIPELINE_PRESETS, PipelineDefinition, StageProgress, emptyStages, pipelineSteps, stageLabel } from "./folding/pipeline";
+import { FHEProteinFoldingCompute, pipelineRecordFields, taskPipeline, taskStages } from "./folding/taskCompute";
+import { Backbone, backboneFromConformation, backboneFromStructure } from "./structure/backbone";
+import { parseStructure } from "./structure/import";
+import { StructureParseError, StructurePayload } from "./structure/types";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import { useAccount } from 'wagmi';
+import AclInspector from "./components/AclInspector";
+import AdminConsole from "./components/AdminConsole";
+import BackboneViewer, { BackboneColorMode } from "./components/BackboneViewer";
+import BatchDashboard from "./components/BatchDashboard";
+import NetworkSelector from "./components/NetworkSelector";
+import ScoreAccess from "./components/ScoreAccess";
+import type { FoldingEvent, FoldingEventIndex } from "./proteinFolding/eventIndex";
 
 interface ProteinFoldingTask {
   id: string;
   proteinName: string;
+  sequence?: string;
+  structure?: StructurePayload;
+  conformation?: string;
+  stepsCompleted?: number;
+  // 折叠流水线及各阶段进度
+  pipeline?: PipelineDefinition;
+  stages?: StageProgress[];
   encryptedStructure: string;
+  inputProof?: string;
   foldingProgress: number;
   timestamp: number;
   owner: string;
-  status: "pending" | "computing" | "completed" | "failed";
+  status: TaskStatus;
   computationTime?: number;
-  energyLevel?: number;
+  // 领取任务的计算节点地址
+  worker?: string;
+  claimedAt?: number;
+  // 租约: 持有者需在到期前发送心跳
+  lease?: TaskLease;
 }
 
-// FHE加密解密函数 - 模拟ZAMA FHE加密
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}-${Date.now()}`;
-};
+// 新建任务表单, initialEnergy 来自输入框
+interface NewTaskForm {
+  proteinName: string;
+  sequence: string;
+  initialEnergy: number | string;
+  structure?: StructurePayload;
+  chainId: string;
+  // PIPELINE_PRESETS 的键
+  pipeline: string;
+}
+
+const EMPTY_TASK_FORM: NewTaskForm = { proteinName: "", sequence: "", initialEnergy: 100, structure: undefined, chainId: "", pipeline: "standard" };
+
+// 最近 15 分钟内领取过任务的节点算作活跃
+const WORKER_ACTIVE_WINDOW = 15 * 60;
+
+const shortAddress = (addr: string) => `${addr.substring(0, 6)}...${addr.substring(addr.length - 4)}`;
+
+const formatLeaseExpiry = (lease: TaskLease) => new Date(lease.expiresAt * 1000).toLocaleTimeString();
 
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    const base64Data = encryptedData.split('-')[1];
-    return parseFloat(atob(base64Data));
-  }
-  return parseFloat(encryptedData);
+// 让状态弹窗先渲染, 再执行同步的折叠计算
+const nextFrame = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// 任务能量经 ProteinFoldingFHE 导入, 合约授权任务所有者和发送者解密; 记录保存合约返回的 handle
+const storeTaskEnergy = async (taskId: string, taskOwner: string, energy: number, sender: string): Promise<EncryptedInput> => {
+  const folding = getFoldingClient(await getBrowserSigner());
+  if (!folding) throw new Error("No ProteinFoldingFHE contract configured for this network");
+  const encrypted = await encryptEnergy(energy, folding.address, sender);
+  const { handle } = await folding.storeTaskEnergy(taskId, taskOwner, encrypted);
+  return { handle, inputProof: encrypted.inputProof };
 };
 
-// 模拟FHE同态计算 - 蛋白质折叠能量计算
-const FHEProteinFoldingCompute = (encryptedData: string, operation: string): string => {
-  const value = FHEDecryptNumber(encryptedData);
-  let result = value;
-  
-  switch(operation) {
-    case 'foldSimulation':
-      // 模拟折叠过程能量变化
-      result = value * (0.8 + Math.random() * 0.4);
-      break;
-    case 'energyMinimization':
-      result = value * 0.95;
-      break;
-    case 'structureOptimization':
-      result = value * 1.05;
-      break;
-    default:
-      result = value;
-  }
-  
-  return FHEEncryptNumber(result);
+const registeredTasks = (registry: TaskRegistry): ProteinFoldingTask[] =>
+  registry.listTasks()
+    .map(({ id, data }) => ({ ...data, id, status: effectiveStatus(data) }))
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+// 任务 Cα 骨架: 模拟构象或导入的 PDB/mmCIF 坐标
+type BackboneSource = "simulation" | "imported";
+
+const taskBackbone = (task: ProteinFoldingTask, source?: BackboneSource): Backbone | null => {
+  try {
+    if (source !== "imported" && task.sequence && task.conformation) {
+      return backboneFromConformation(task.sequence, task.conformation);
+    }
+    if (source !== "simulation" && task.structure) return backboneFromStructure(task.structure);
+  } catch (e) { console.error(`Invalid structure for task ${task.id}:`, e); }
+  return null;
 };
 
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+// 蛋白质结构可视化组件, 得分只在用户解密后显示
+const ProteinStructureVisualizer: React.FC<{ task?: ProteinFoldingTask; score?: number }> = ({ task, score }) => {
+  const backbone = useMemo(() => task ? taskBackbone(task) : null, [task]);
 
-// 蛋白质结构可视化组件
-const ProteinStructureVisualizer: React.FC<{ progress: number; energyLevel?: number }> = ({ progress, energyLevel = 0 }) => {
-  const segments = 20;
-  const segmentAngle = (2 * Math.PI) / segments;
-  
   return (
     <div className="protein-visualizer">
-      <div className="protein-backbone">
-        {Array.from({ length: segments }).map((_, i) => (
-          <div 
-            key={i}
-            className={`protein-segment ${i / segments <= progress ? 'active' : ''}`}
-            style={{
-              transform: `rotate(${i * segmentAngle}rad)`,
-              animationDelay: `${i * 0.1}s`
-            }}
-          />
-        ))}
-      </div>
+      <BackboneViewer backbone={backbone} size={160} interactive={false} />
       <div className="energy-level">
-        <div className="energy-bar" style={{ height: `${energyLevel * 10}%` }}></div>
-        <span>Energy: {energyLevel.toFixed(2)}</span>
+        <div className="energy-bar" style={{ height: `${Math.min(100, (score ?? 0) * 10)}%` }}></div>
+        <span>Score: {score !== undefined ? score.toFixed(2) : "Encrypted"}</span>
       </div>
     </div>
   );
@@ -99,7 +129,7 @@ const NetworkNodes: React.FC<{ activeNodes: number; totalNodes: number }> = ({ a
       </div>
       <div className="network-stats">
         <span>{activeNodes}/{totalNodes} Nodes Active</span>
-        <div className="network-health">Health: {Math.round((activeNodes / totalNodes) * 100)}%</div>
+        <div className="network-health">Health: {totalNodes > 0 ? `${Math.round((activeNodes / totalNodes) * 100)}%` : 'No workers yet'}</div>
       </div>
     </div>
   );
@@ -107,49 +137,85 @@ const NetworkNodes: React.FC<{ activeNodes: number; totalNodes: number }> = ({ a
 
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
   const [loading, setLoading] = useState(true);
   const [tasks, setTasks] = useState<ProteinFoldingTask[]>([]);
+  // 无法通过校验的任务记录, 连同原因一起展示
+  const [quarantined, setQuarantined] = useState<QuarantinedTask[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newTaskData, setNewTaskData] = useState({ proteinName: "", initialEnergy: 100 });
+  const [newTaskData, setNewTaskData] = useState<NewTaskForm>(EMPTY_TASK_FORM);
   const [showTutorial, setShowTutorial] = useState(false);
   const [selectedTask, setSelectedTask] = useState<ProteinFoldingTask | null>(null);
   const [decryptedValue, setDecryptedValue] = useState<number | null>(null);
+  // 本次会话已解密的能量, 按密文 handle 索引
+  const [decryptedScores, setDecryptedScores] = useState<Record<string, number>>({});
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
-  const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [activeNodes, setActiveNodes] = useState(8);
-  const [totalNodes, setTotalNodes] = useState(12);
   const [computationFlow, setComputationFlow] = useState<string[]>([]);
+  // ProteinFoldingFHE 事件索引, 供批次面板与管理面板使用
+  const [foldingIndex, setFoldingIndex] = useState<FoldingEventIndex | null>(null);
+  const [foldingEvents, setFoldingEvents] = useState<FoldingEvent[]>([]);
+  const [foldingOwner, setFoldingOwner] = useState<string | null>(null);
+  const isFoldingOwner = !!address && !!foldingOwner && foldingOwner.toLowerCase() === address.toLowerCase();
 
   // 任务统计
   const completedCount = tasks.filter(t => t.status === "completed").length;
-  const computingCount = tasks.filter(t => t.status === "computing").length;
-  const pendingCount = tasks.filter(t => t.status === "pending").length;
+  const computingCount = tasks.filter(t => t.status === "claimed" || t.status === "computing").length;
+  const pendingCount = tasks.filter(t => isClaimable(t)).length;
+  // 计算节点: 领取过任务的 worker 地址, 持有有效租约或最近领取任务的视为活跃
+  const workers = new Set(tasks.filter(t => t.worker).map(t => t.worker!.toLowerCase()));
+  const activeWorkers = new Set(tasks
+    .filter(t => t.worker && (t.status === "claimed" || t.status === "computing" || (t.claimedAt || 0) > Date.now() / 1000 - WORKER_ACTIVE_WINDOW))
+    .map(t => t.worker!.toLowerCase()));
+  const totalNodes = workers.size;
+  const activeNodes = activeWorkers.size;
+  // 仪表盘展示最近一个有构象的任务 (tasks 按时间倒序)
+  const activeTask = tasks.find(t => t.status === "computing" && t.conformation) ?? tasks.find(t => t.conformation || t.structure);
 
   useEffect(() => {
     loadTasks().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setPublicKey(generatePublicKey());
-    };
-    initSignatureParams();
+  }, []);
 
-    // 模拟网络节点变化
-    const nodeInterval = setInterval(() => {
-      setActiveNodes(Math.max(3, Math.min(totalNodes, activeNodes + Math.floor(Math.random() * 3) - 1)));
-    }, 5000);
+  // 解密许可与账户绑定, 切换账户后丢弃
+  useEffect(() => {
+    clearDecryptionPermits();
+  }, [address]);
+
+  // 订阅新区块, 索引变化时刷新任务列表
+  useEffect(() => {
+    let stop = () => {};
+    let cancelled = false;
+    getTaskRegistry().then(registry => {
+      if (!registry || cancelled) return;
+      const off = registry.indexer.on(event => {
+        if (event.type === "change") showTasks(registry);
+        if (event.type === "error") console.error("Task indexer error:", event.error);
+      });
+      const unsubscribe = registry.indexer.subscribe();
+      stop = () => { off(); unsubscribe(); };
+    });
+    return () => { cancelled = true; stop(); };
+  }, []);
 
-    return () => clearInterval(nodeInterval);
+  // 订阅 ProteinFoldingFHE 事件, 所有者可能随 OwnershipTransferred 变化
+  useEffect(() => {
+    let stop = () => {};
+    let cancelled = false;
+    getFoldingEvents().then(index => {
+      if (!index || cancelled) return;
+      setFoldingIndex(index);
+      const off = index.on(event => {
+        if (event.type === "change") {
+          setFoldingEvents(index.events());
+          getFoldingClient()?.owner().then(setFoldingOwner).catch(e => console.error("Failed to read contract owner:", e));
+        }
+        if (event.type === "error") console.error("Folding event index error:", event.error);
+      });
+      const unsubscribe = index.subscribe();
+      stop = () => { off(); unsubscribe(); };
+    });
+    return () => { cancelled = true; stop(); };
   }, []);
 
   // 模拟实时数据流
@@ -171,51 +237,19 @@ const App: React.FC = () => {
     return () => clearInterval(flowInterval);
   }, []);
 
+  const showTasks = (registry: TaskRegistry) => {
+    setTasks(registeredTasks(registry));
+    setQuarantined(registry.listQuarantined());
+  };
+
   const loadTasks = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // 检查合约可用性
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) return;
-      
-      // 获取任务键列表
-      const keysBytes = await contract.getData("task_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing task keys:", e); }
-      }
-      
-      const taskList: ProteinFoldingTask[] = [];
-      for (const key of keys) {
-        try {
-          const taskBytes = await contract.getData(`task_${key}`);
-          if (taskBytes.length > 0) {
-            try {
-              const taskData = JSON.parse(ethers.toUtf8String(taskBytes));
-              taskList.push({
-                id: key,
-                proteinName: taskData.proteinName,
-                encryptedStructure: taskData.encryptedStructure,
-                foldingProgress: taskData.foldingProgress || 0,
-                timestamp: taskData.timestamp,
-                owner: taskData.owner,
-                status: taskData.status || "pending",
-                computationTime: taskData.computationTime,
-                energyLevel: taskData.energyLevel
-              });
-            } catch (e) { console.error(`Error parsing task data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading task ${key}:`, e); }
-      }
-      
-      taskList.sort((a, b) => b.timestamp - a.timestamp);
-      setTasks(taskList);
+      // 从 DataStored 事件索引读取任务, 不再逐个调用 getData
+      const registry = await getTaskRegistry();
+      if (!registry) return;
+      await registry.indexer.sync();
+      showTasks(registry);
     } catch (e) { console.error("Error loading tasks:", e); } 
     finally { setIsRefreshing(false); setLoading(false); }
   };
@@ -226,35 +260,38 @@ const App: React.FC = () => {
     setTransactionStatus({ visible: true, status: "pending", message: "Encrypting protein structure with Zama FHE..." });
     
     try {
-      // 使用FHE加密初始能量值
-      const encryptedEnergy = FHEEncryptNumber(newTaskData.initialEnergy);
       const contract = await getContractWithSigner();
       if (!contract) throw new Error("Failed to get contract with signer");
       
-      const taskId = `protein-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
-      const taskData = {
+      // 使用FHE加密初始能量值, 经 ProteinFoldingFHE 导入并授权任务所有者解密
+      const taskId = newTaskId();
+      const encryptedEnergy = await storeTaskEnergy(taskId, address!, Number(newTaskData.initialEnergy), address!);
+      
+      // 导入的结构只保存所选链
+      const structure = newTaskData.structure && {
+        ...newTaskData.structure,
+        chains: newTaskData.structure.chains.filter(chain => chain.id === newTaskData.chainId)
+      };
+
+      const { pipeline } = PIPELINE_PRESETS[newTaskData.pipeline];
+      const taskData: TaskRecordInput = {
         proteinName: newTaskData.proteinName,
-        encryptedStructure: encryptedEnergy,
+        sequence: normalizeSequence(newTaskData.sequence),
+        structure,
+        encryptedStructure: encryptedEnergy.handle,
+        inputProof: encryptedEnergy.inputProof,
         foldingProgress: 0,
         timestamp: Math.floor(Date.now() / 1000),
-        owner: address,
+        owner: address!,
         status: "pending",
-        energyLevel: newTaskData.initialEnergy
+        pipeline,
+        stages: emptyStages(pipeline)
       };
       
-      // 存储任务数据
-      await contract.setData(`task_${taskId}`, ethers.toUtf8Bytes(JSON.stringify(taskData)));
-      
-      // 更新任务键列表
-      const keysBytes = await contract.getData("task_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { 
-          keys = JSON.parse(ethers.toUtf8String(keysBytes)); 
-        } catch (e) { console.error("Error parsing keys:", e); }
-      }
-      keys.push(taskId);
-      await contract.setData("task_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
+      // 存储任务数据 (单笔交易, 任务通过 DataStored 事件被发现)
+      const registry = await getTaskRegistry();
+      if (!registry) throw new Error("Task registry unavailable");
+      await registry.writeTask(contract, taskId, taskData);
       
       setTransactionStatus({ visible: true, status: "success", message: "Protein folding task submitted securely with FHE encryption!" });
       await loadTasks();
@@ -262,7 +299,7 @@ const App: React.FC = () => {
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewTaskData({ proteinName: "", initialEnergy: 100 });
+        setNewTaskData(EMPTY_TASK_FORM);
       }, 2000);
       
     } catch (e: any) {
@@ -278,31 +315,31 @@ const App: React.FC = () => {
 
   const startFoldingComputation = async (taskId: string) => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Starting FHE-based protein folding simulation..." });
+    setTransactionStatus({ visible: true, status: "pending", message: "Claiming task lease..." });
     
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) throw new Error("Failed to get contract");
-      
-      const taskBytes = await contract.getData(`task_${taskId}`);
-      if (taskBytes.length === 0) throw new Error("Task not found");
-      const taskData = JSON.parse(ethers.toUtf8String(taskBytes));
-      
-      // 模拟FHE计算过程
-      const computedStructure = FHEProteinFoldingCompute(taskData.encryptedStructure, 'foldSimulation');
-      
       const contractWithSigner = await getContractWithSigner();
       if (!contractWithSigner) throw new Error("Failed to get contract with signer");
+      const registry = await getTaskRegistry();
+      if (!registry) throw new Error("Task registry unavailable");
       
-      const updatedTask = { 
-        ...taskData, 
-        status: "computing",
-        encryptedStructure: computedStructure,
-        foldingProgress: 0.3,
-        energyLevel: taskData.energyLevel ? taskData.energyLevel * 0.85 : 85
-      };
+      // 领取任务租约, 其他节点在租约过期前不能领取
+      const taskData = await registry.claim(contractWithSigner, taskId, address!);
       
-      await contractWithSigner.setData(`task_${taskId}`, ethers.toUtf8Bytes(JSON.stringify(updatedTask)));
+      // 先完成流水线的前半段, 剩余步数在 completeFolding 中继续
+      setTransactionStatus({ visible: true, status: "pending", message: "Starting FHE-based protein folding simulation..." });
+      await nextFrame();
+      const run = FHEProteinFoldingCompute(taskData, Math.ceil(pipelineSteps(taskPipeline(taskData)) / 2));
+      // HP 能量 <= 0, 加密的是接触数 (-energy)
+      const computedStructure = await storeTaskEnergy(taskId, taskData.owner, -run.energy, address!);
+      
+      // 心跳: 续约并保存各阶段进度
+      await registry.heartbeat(contractWithSigner, taskId, address!, {
+        ...pipelineRecordFields(run),
+        encryptedStructure: computedStructure.handle,
+        inputProof: computedStructure.inputProof,
+        computationTime: (taskData.computationTime || 0) + Math.round(run.elapsedMs / 1000)
+      });
       
       setTransactionStatus({ visible: true, status: "success", message: "FHE protein folding simulation started!" });
       await loadTasks();
@@ -321,20 +358,25 @@ const App: React.FC = () => {
     try {
       const contract = await getContractWithSigner();
       if (!contract) throw new Error("Failed to get contract with signer");
+      const registry = await getTaskRegistry();
+      if (!registry) throw new Error("Task registry unavailable");
       
-      const taskBytes = await contract.getData(`task_${taskId}`);
-      if (taskBytes.length === 0) throw new Error("Task not found");
-      const taskData = JSON.parse(ethers.toUtf8String(taskBytes));
+      const taskData = await registry.readTask(contract, taskId);
+      if (!holdsLease(taskData, address!)) throw new Error("Your lease on this task has expired or was taken over");
       
-      const updatedTask = { 
-        ...taskData, 
-        status: "completed",
-        foldingProgress: 1.0,
-        computationTime: Math.floor(Math.random() * 3600) + 1800, // 30-90 minutes
-        energyLevel: taskData.energyLevel ? taskData.energyLevel * 0.7 : 70
-      };
+      // 从保存的阶段进度继续剩余的流水线
+      await nextFrame();
+      const run = FHEProteinFoldingCompute(taskData, Infinity);
+      const computedStructure = await storeTaskEnergy(taskId, taskData.owner, -run.energy, address!);
       
-      await contract.setData(`task_${taskId}`, ethers.toUtf8Bytes(JSON.stringify(updatedTask)));
+      // 写入结果并释放租约
+      await registry.release(contract, taskId, address!, {
+        ...pipelineRecordFields(run),
+        encryptedStructure: computedStructure.handle,
+        inputProof: computedStructure.inputProof,
+        foldingProgress: 1.0,
+        computationTime: (taskData.computationTime || 0) + Math.round(run.elapsedMs / 1000)
+      });
       setTransactionStatus({ visible: true, status: "success", message: "Protein folding completed successfully with FHE!" });
       await loadTasks();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
@@ -350,20 +392,29 @@ const App: React.FC = () => {
     setIsDecrypting(true);
     
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      return FHEDecryptNumber(encryptedData);
-    } catch (e) { 
+      if (isLegacyCiphertext(encryptedData)) return decodeLegacyCiphertext(encryptedData);
+      // EIP-712 签名的解密许可在本次会话内缓存, 只有首次解密会弹出钱包
+      // 能量由 ProteinFoldingFHE 授权, 解密许可针对该合约
+      const folding = getFoldingClient();
+      if (!folding) throw new Error("No ProteinFoldingFHE contract configured for this network");
+      // 先查 ACL, 没有授权时不必签名
+      const signer = await getBrowserSigner();
+      if (!(await folding.canDecryptTaskEnergy(encryptedData, await signer.getAddress()))) {
+        throw new UserDecryptionError("This wallet may not decrypt this energy: only the task owner and the node that folded it can");
+      }
+      const energy = await decryptEnergy(encryptedData, folding.address, signer);
+      setDecryptedScores(previous => ({ ...previous, [encryptedData]: energy }));
+      return energy;
+    } catch (e: any) { 
       console.error("Decryption failed:", e); 
+      setTransactionStatus({ visible: true, status: "error", message: "Decryption failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return null; 
     } finally { 
       setIsDecrypting(false); 
     }
   };
 
-  const isOwner = (taskAddress: string) => address?.toLowerCase() === taskAddress.toLowerCase();
-
   if (loading) return (
     <div className="loading-screen">
       <div className="dna-spinner"></div>
@@ -388,6 +439,7 @@ const App: React.FC = () => {
           <button className="bio-button" onClick={() => setShowTutorial(!showTutorial)}>
             {showTutorial ? "Hide Tutorial" : "Show Tutorial"}
           </button>
+          <NetworkSelector />
           <div className="wallet-connect-wrapper">
             <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/>
           </div>
@@ -473,7 +525,7 @@ const App: React.FC = () => {
 
           <div className="dashboard-card bio-card">
             <h3>Active Folding Simulation</h3>
-            <ProteinStructureVisualizer progress={0.6} energyLevel={7.2} />
+            <ProteinStructureVisualizer task={activeTask} />
           </div>
 
           <div className="dashboard-card bio-card">
@@ -520,8 +572,8 @@ const App: React.FC = () => {
                 <div className="task-item" key={task.id} onClick={() => setSelectedTask(task)}>
                   <div className="task-visualization">
                     <ProteinStructureVisualizer 
-                      progress={task.foldingProgress} 
-                      energyLevel={task.energyLevel || 0} 
+                      task={task} 
+                      score={decryptedScores[task.encryptedStructure]} 
                     />
                   </div>
                   <div className="task-info">
@@ -529,15 +581,18 @@ const App: React.FC = () => {
                     <div className="task-meta">
                       <span>Progress: {(task.foldingProgress * 100).toFixed(1)}%</span>
                       <span className={`status-badge ${task.status}`}>{task.status}</span>
+                      {task.lease && (task.status === "claimed" || task.status === "computing") && (
+                        <span className="lease-info">{shortAddress(task.lease.holder)} until {formatLeaseExpiry(task.lease)}</span>
+                      )}
                     </div>
                   </div>
                   <div className="task-actions">
-                    {isOwner(task.owner) && task.status === "pending" && (
+                    {isConnected && isClaimable(task) && (
                       <button className="bio-button success" onClick={(e) => { e.stopPropagation(); startFoldingComputation(task.id); }}>
                         Start Folding
                       </button>
                     )}
-                    {isOwner(task.owner) && task.status === "computing" && (
+                    {isConnected && holdsLease(task, address!) && (
                       <button className="bio-button primary" onClick={(e) => { e.stopPropagation(); completeFolding(task.id); }}>
                         Complete
                       </button>
@@ -546,8 +601,32 @@ const App: React.FC = () => {
                 </div>
               ))
             )}
+            {quarantined.map(entry => (
+              <div className="task-item quarantined" key={entry.id} title={entry.raw}>
+                <div className="task-info">
+                  <h4>{entry.id}</h4>
+                  <div className="task-meta">
+                    <span className="status-badge quarantined">quarantined</span>
+                    <span>Written by {shortAddress(entry.sender)} in block {entry.blockNumber}</span>
+                  </div>
+                  <div className="quarantine-reason">{entry.reason}</div>
+                </div>
+              </div>
+            ))}
           </div>
         </div>
+
+        {/* 评分批次 */}
+        {foldingIndex && <BatchDashboard index={foldingIndex} events={foldingEvents} account={address} owner={foldingOwner} />}
+
+        {/* 评分访问授权 */}
+        {foldingIndex && address && <ScoreAccess index={foldingIndex} events={foldingEvents} account={address} owner={foldingOwner} />}
+
+        {/* 密文访问检查 */}
+        <AclInspector tasks={tasks} events={foldingEvents} account={address} owner={foldingOwner} />
+
+        {/* 合约管理, 仅所有者可见 */}
+        {foldingIndex && isFoldingOwner && <AdminConsole index={foldingIndex} events={foldingEvents} owner={foldingOwner!} />}
       </div>
 
       {/* 创建任务模态框 */}
@@ -616,21 +695,63 @@ interface ModalCreateProps {
   onSubmit: () => void;
   onClose: () => void;
   creating: boolean;
-  taskData: any;
-  setTaskData: (data: any) => void;
+  taskData: NewTaskForm;
+  setTaskData: (data: NewTaskForm) => void;
 }
 
 const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating, taskData, setTaskData }) => {
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+  const [importIssues, setImportIssues] = useState<string[]>([]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
+    // 粘贴的 FASTA 文本按导入处理
+    if (name === "sequence" && value.trimStart().startsWith(">")) {
+      importStructure(value);
+      return;
+    }
+    if (name === "sequence") {
+      setTaskData({ ...taskData, sequence: value, structure: undefined, chainId: "" });
+      return;
+    }
     setTaskData({ ...taskData, [name]: value });
   };
 
+  const importStructure = (text: string, fileName?: string) => {
+    try {
+      const structure = parseStructure(text, fileName);
+      const chain = structure.chains[0];
+      setImportIssues([]);
+      setTaskData({ ...taskData, proteinName: structure.name, sequence: chain.sequence, structure, chainId: chain.id });
+    } catch (e: any) {
+      setImportIssues(e instanceof StructureParseError
+        ? e.issues.map(issue => `line ${issue.line}: ${issue.message}`)
+        : [e.message || "Could not read structure file"]);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    importStructure(await file.text(), file.name);
+    e.target.value = "";
+  };
+
+  const selectChain = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const chain = taskData.structure?.chains.find(c => c.id === e.target.value);
+    if (chain) setTaskData({ ...taskData, sequence: chain.sequence, chainId: chain.id });
+  };
+
   const handleSubmit = () => {
-    if (!taskData.proteinName || !taskData.initialEnergy) {
+    if (!taskData.proteinName || !taskData.sequence || !taskData.initialEnergy) {
       alert("Please fill all required fields");
       return;
     }
+    try {
+      toHpSequence(taskData.sequence);
+    } catch (e: any) {
+      alert(e.message);
+      return;
+    }
     onSubmit();
   };
 
@@ -663,31 +784,85 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
               />
             </div>
             <div className="form-group">
-              <label>Initial Energy Level *</label>
+              <label>Import Structure</label>
+              <input 
+                type="file" 
+                accept=".fasta,.fa,.faa,.fas,.pdb,.ent,.cif,.mmcif"
+                onChange={handleFile}
+                className="bio-input"
+              />
+              {taskData.structure && (
+                <div className="structure-summary">
+                  {taskData.structure.format.toUpperCase()} · {taskData.structure.chains.length} chain(s)
+                  {taskData.structure.chains.some((c: any) => c.residues) && " · Cα coordinates"}
+                </div>
+              )}
+              {importIssues.length > 0 && (
+                <ul className="import-issues">
+                  {importIssues.map((issue, i) => <li key={i}>{issue}</li>)}
+                </ul>
+              )}
+            </div>
+            {taskData.structure && taskData.structure.chains.length > 1 && (
+              <div className="form-group">
+                <label>Chain</label>
+                <select name="chainId" value={taskData.chainId} onChange={selectChain} className="bio-input">
+                  {taskData.structure.chains.map((chain: any) => (
+                    <option key={chain.id} value={chain.id}>{chain.id} ({chain.sequence.length} residues)</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className="form-group">
+              <label>Amino Acid Sequence *</label>
+              <textarea 
+                name="sequence" 
+                value={taskData.sequence} 
+                onChange={handleChange}
+                placeholder="One-letter codes or pasted FASTA, e.g. MKTAYIAKQRQISFVKSHFSRQ"
+                className="bio-input"
+                rows={3}
+              />
+            </div>
+            <div className="form-group">
+              <label>Initial Score *</label>
               <input 
                 type="number" 
                 name="initialEnergy" 
                 value={taskData.initialEnergy} 
                 onChange={handleChange}
-                placeholder="Initial energy value"
+                placeholder="Replaced by the H-H contact count once folded"
                 className="bio-input"
                 min="1"
                 max="1000"
               />
             </div>
+            <div className="form-group">
+              <label>Folding Pipeline</label>
+              <select name="pipeline" value={taskData.pipeline} onChange={handleChange} className="bio-input">
+                {Object.entries(PIPELINE_PRESETS).map(([key, preset]) => (
+                  <option key={key} value={key}>{preset.label}</option>
+                ))}
+              </select>
+              <ol className="pipeline-stages">
+                {PIPELINE_PRESETS[taskData.pipeline].pipeline.stages.map((stage, i) => (
+                  <li key={i}>{stageLabel(stage)} · {stage.steps.toLocaleString()} steps</li>
+                ))}
+              </ol>
+            </div>
           </div>
 
           <div className="encryption-preview">
             <h4>FHE Encryption Preview</h4>
             <div className="preview-container">
               <div className="plain-data">
-                <span>Plain Energy Value:</span>
+                <span>Plain Score:</span>
                 <div>{taskData.initialEnergy || 'Not set'}</div>
               </div>
               <div className="encryption-arrow">→</div>
               <div className="encrypted-data">
                 <span>FHE Encrypted:</span>
-                <div>{taskData.initialEnergy ? FHEEncryptNumber(taskData.initialEnergy).substring(0, 40) + '...' : 'Not set'}</div>
+                <div>{taskData.initialEnergy ? 'euint32 handle + input proof (generated on submit)' : 'Not set'}</div>
               </div>
             </div>
           </div>
@@ -715,6 +890,13 @@ interface TaskDetailModalProps {
 }
 
 const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, decryptedValue, setDecryptedValue, isDecrypting, decryptWithSignature }) => {
+  const [colorMode, setColorMode] = useState<BackboneColorMode>("hydrophobicity");
+  const [showContacts, setShowContacts] = useState(true);
+  const [source, setSource] = useState<BackboneSource>(task.conformation ? "simulation" : "imported");
+  const backbone = useMemo(() => taskBackbone(task, source), [task, source]);
+  const pipeline = taskPipeline(task);
+  const stages = taskStages(task);
+
   const handleDecrypt = async () => {
     if (decryptedValue !== null) {
       setDecryptedValue(null);
@@ -734,10 +916,24 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, decryp
         
         <div className="modal-body">
           <div className="task-visualization-large">
-            <ProteinStructureVisualizer 
-              progress={task.foldingProgress} 
-              energyLevel={task.energyLevel || 0} 
-            />
+            <BackboneViewer backbone={backbone} size={320} colorMode={colorMode} showContacts={showContacts} />
+            <div className="viewer-controls">
+              <select value={colorMode} onChange={e => setColorMode(e.target.value as BackboneColorMode)} className="bio-input">
+                <option value="hydrophobicity">Colour by hydrophobicity</option>
+                <option value="chain">Colour by chain</option>
+              </select>
+              {task.conformation && task.structure && (
+                <select value={source} onChange={e => setSource(e.target.value as BackboneSource)} className="bio-input">
+                  <option value="simulation">Lattice conformation</option>
+                  <option value="imported">Imported structure</option>
+                </select>
+              )}
+              <label>
+                <input type="checkbox" checked={showContacts} onChange={e => setShowContacts(e.target.checked)} />
+                H-H contacts{backbone ? ` (${backbone.contacts.length})` : ""}
+              </label>
+              <span className="viewer-hint">Drag to rotate, scroll to zoom</span>
+            </div>
           </div>
           
           <div className="task-details">
@@ -749,11 +945,34 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, decryp
               <span>Status:</span>
               <strong className={`status-badge ${task.status}`}>{task.status}</strong>
             </div>
+            {task.lease && (
+              <div className="detail-item">
+                <span>Lease Holder:</span>
+                <strong title={task.lease.holder}>{shortAddress(task.lease.holder)}</strong>
+              </div>
+            )}
+            {task.lease && (
+              <div className="detail-item">
+                <span>{task.status === "expired" ? "Lease Expired:" : "Lease Expires:"}</span>
+                <strong>{formatLeaseExpiry(task.lease)}</strong>
+              </div>
+            )}
+            {task.lease && (
+              <div className="detail-item lease-note">
+                <span>Leases are kept by the clients: the registry accepts writes to this task from any address, so a provider that ignores the lease can still overwrite it.</span>
+              </div>
+            )}
             <div className="detail-item">
               <span>Progress:</span>
               <strong>{(task.foldingProgress * 100).toFixed(1)}%</strong>
             </div>
-            {task.computationTime && (
+            {task.sequence && (
+              <div className="detail-item">
+                <span>Residues:</span>
+                <strong>{task.sequence.length}</strong>
+              </div>
+            )}
+            {task.computationTime !== undefined && (
               <div className="detail-item">
                 <span>Compute Time:</span>
                 <strong>{Math.floor(task.computationTime / 60)}m {task.computationTime % 60}s</strong>
@@ -761,6 +980,26 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, decryp
             )}
           </div>
 
+          <div className="pipeline-progress">
+            <h3>Folding Pipeline</h3>
+            {pipeline.stages.map((stage, i) => {
+              const progress = stages[i] ?? { stepsCompleted: 0 };
+              return (
+                <div key={i} className="stage-row">
+                  <div className="stage-header">
+                    <span>{i + 1}. {stageLabel(stage)}</span>
+                    <span>
+                      {progress.stepsCompleted.toLocaleString()} / {stage.steps.toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="stage-bar">
+                    <div className="stage-bar-fill" style={{ width: `${(progress.stepsCompleted / stage.steps) * 100}%` }} />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
           <div className="encrypted-data-section">
             <h3>FHE Encrypted Structure Data</h3>
             <div className="encrypted-data">
@@ -777,8 +1016,11 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, decryp
 
           {decryptedValue !== null && (
             <div className="decrypted-data-section">
-              <h3>Decrypted Energy Level</h3>
+              <h3>Decrypted Score</h3>
               <div className="decrypted-value">{decryptedValue}</div>
+              {task.status === "completed" && (
+                <div className="score-note">H-H contacts of the best fold; its HP energy is {-decryptedValue}</div>
+              )}
               <div className="decryption-notice">
                 <div className="warning-icon">⚠️</div>
                 <span>Decrypted data visible only after wallet signature verification</span>
@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from "react";
+import { ethers } from "ethers";
+import { getProviderPool } from "../contract";
+import { HandleAccessReport, aclAddressFor, connectAcl, inspectHandle, isHandle } from "../fhe/aclInspector";
+import { getActiveProfile } from "../network/profiles";
+import { accessKey, describeCiphertext, knownParties, listAccess } from "../proteinFolding/access";
+import type { FoldingEvent } from "../proteinFolding/eventIndex";
+
+interface InspectableTask {
+  id: string;
+  proteinName: string;
+  encryptedStructure: string;
+  owner: string;
+}
+
+interface AclInspectorProps {
+  tasks: InspectableTask[];
+  events: FoldingEvent[];
+  account?: string;
+  owner: string | null;
+}
+
+interface HandleSource {
+  key: string;
+  label: string;
+  handle: string;
+}
+
+const shortAddress = (addr: string) => `${addr.substring(0, 6)}...${addr.substring(addr.length - 4)}`;
+
+const AclInspector: React.FC<AclInspectorProps> = ({ tasks, events, account, owner }) => {
+  const { chainId, contracts } = getActiveProfile();
+  // Legacy tasks store a base64 blob rather than a handle and have nothing to inspect
+  const sources = useMemo<HandleSource[]>(() => [
+    ...listAccess(events).map(entry => ({ key: accessKey(entry), label: describeCiphertext(entry), handle: entry.handle })),
+    ...tasks.filter(task => isHandle(task.encryptedStructure))
+      .map(task => ({ key: `task:${task.id}`, label: `Task ${task.proteinName} (${task.id})`, handle: task.encryptedStructure }))
+  ], [events, tasks]);
+  const labels = useMemo(() => {
+    const parties = knownParties(events, owner);
+    tasks.forEach(task => { if (ethers.isAddress(task.owner) && !parties.has(ethers.getAddress(task.owner))) parties.set(ethers.getAddress(task.owner), "task owner"); });
+    parties.set(ethers.getAddress(contracts.adapter), "UniversalAdapter");
+    if (contracts.folding) parties.set(ethers.getAddress(contracts.folding), "ProteinFoldingFHE");
+    return parties;
+  }, [events, tasks, owner, contracts.adapter, contracts.folding]);
+  const [handle, setHandle] = useState("");
+  const [report, setReport] = useState<HandleAccessReport | null>(null);
+  const [inspecting, setInspecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const named = (address: string) => labels.has(address) ? `${shortAddress(address)} (${labels.get(address)})` : shortAddress(address);
+
+  const inspect = async () => {
+    const target = handle.trim();
+    if (!isHandle(target)) {
+      setError(`${target || "(empty)"} is not a ciphertext handle`);
+      return;
+    }
+    setInspecting(true);
+    setError(null);
+    setReport(null);
+    try {
+      const acl = connectAcl(aclAddressFor(chainId), getProviderPool());
+      const grantors = [contracts.adapter, ...(contracts.folding ? [contracts.folding] : [])];
+      setReport(await inspectHandle(acl, target, { grantors, candidates: [...labels.keys(), ...(account ? [account] : [])] }));
+    } catch (e: any) {
+      setError(e.message || "Unknown error");
+    } finally {
+      setInspecting(false);
+    }
+  };
+
+  return (
+    <div className="acl-section">
+      <div className="section-header">
+        <h2>Ciphertext Access Inspector</h2>
+      </div>
+      {error && <div className="batch-error">{error}</div>}
+
+      <div className="access-form bio-card">
+        {sources.length > 0 && (
+          <select className="bio-input" value={sources.find(source => source.handle === handle)?.key ?? ""} onChange={e => setHandle(sources.find(source => source.key === e.target.value)?.handle ?? "")}>
+            <option value="">Pick a known ciphertext...</option>
+            {sources.map(source => (
+              <option key={source.key} value={source.key}>{source.label}</option>
+            ))}
+          </select>
+        )}
+        <input className="bio-input acl-handle" value={handle} onChange={e => setHandle(e.target.value)} placeholder="Ciphertext handle (0x...)" />
+        <button className="bio-button primary" disabled={inspecting} onClick={inspect}>
+          {inspecting ? "Inspecting..." : "Inspect"}
+        </button>
+      </div>
+
+      {report && (
+        <div className="batch-list bio-card">
+          <div className="batch-item">
+            <div className="batch-info">
+              <h4 title={report.handle}>{shortAddress(report.handle)}</h4>
+              <div className="task-meta">
+                <span className={`status-badge ${report.publiclyDecryptable ? "public" : "private"}`}>
+                  {report.publiclyDecryptable ? "publicly decryptable" : "not publicly decryptable"}
+                </span>
+              </div>
+              <div className="acl-list">
+                Allowed: {report.allowed.length === 0 ? "nobody" : report.allowed.map(grant => (
+                  <span key={grant.account} title={grant.grantedBy ? `Granted by ${grant.grantedBy} in block ${grant.blockNumber}` : grant.account}>
+                    {named(grant.account)}
+                  </span>
+                ))}
+              </div>
+              {report.notAllowed.length > 0 && (
+                <div className="acl-list">
+                  Not allowed: {report.notAllowed.map(address => <span key={address} title={address}>{named(address)}</span>)}
+                </div>
+              )}
+              {report.delegations.map(delegation => (
+                <div className="batch-pending" key={`${delegation.delegator}:${delegation.delegatee}`}>
+                  {named(delegation.delegatee)} may decrypt for {named(delegation.delegator)} via {delegation.contracts.map(named).join(", ")}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AclInspector;
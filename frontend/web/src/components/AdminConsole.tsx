@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ethers } from "ethers";
+import { getBrowserSigner, getFoldingClient } from "../contract";
+import { adminHistory, checkOwnershipConfirmation, describeAdminChange, listProviders } from "../proteinFolding/admin";
+import { ProteinFoldingClient } from "../proteinFolding/client";
+import type { FoldingEvent, FoldingEventIndex } from "../proteinFolding/eventIndex";
+
+interface AdminConsoleProps {
+  index: FoldingEventIndex;
+  events: FoldingEvent[];
+  owner: string;
+}
+
+const AdminConsole: React.FC<AdminConsoleProps> = ({ index, events, owner }) => {
+  const providers = useMemo(() => listProviders(events, owner), [events, owner]);
+  const history = useMemo(() => adminHistory(events).reverse(), [events]);
+  const [settings, setSettings] = useState<{ paused: boolean; cooldownSeconds: bigint } | null>(null);
+  const [newProvider, setNewProvider] = useState("");
+  const [cooldown, setCooldown] = useState("");
+  const [newOwner, setNewOwner] = useState("");
+  const [confirmOwner, setConfirmOwner] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const client = getFoldingClient();
+    if (!client) return;
+    Promise.all([client.paused(), client.cooldownSeconds()])
+      .then(([paused, cooldownSeconds]) => setSettings({ paused, cooldownSeconds }))
+      .catch(e => console.error("Failed to read contract settings:", e));
+  }, [events]);
+
+  const run = async (label: string, action: (client: ProteinFoldingClient) => Promise<unknown>, done?: () => void) => {
+    setBusy(label);
+    setError(null);
+    try {
+      const client = getFoldingClient(await getBrowserSigner());
+      if (!client) throw new Error("No ProteinFoldingFHE contract in this network profile");
+      await action(client);
+      done?.();
+      await index.sync();
+    } catch (e: any) {
+      setError(e.message || "Unknown error");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const addProvider = () => {
+    if (!ethers.isAddress(newProvider)) {
+      setError(`${newProvider || "(empty)"} is not an address`);
+      return;
+    }
+    run("add", client => client.addProvider(newProvider), () => setNewProvider(""));
+  };
+
+  const saveCooldown = () => {
+    if (!/^\d+$/.test(cooldown.trim())) {
+      setError("Cooldown must be a whole number of seconds");
+      return;
+    }
+    run("cooldown", client => client.setCooldownSeconds(BigInt(cooldown.trim())), () => setCooldown(""));
+  };
+
+  const transferOwnership = () => {
+    let target: string;
+    try {
+      target = checkOwnershipConfirmation(newOwner, confirmOwner);
+    } catch (e: any) {
+      setError(e.message);
+      return;
+    }
+    run("transfer", client => client.transferOwnership(target), () => { setNewOwner(""); setConfirmOwner(""); });
+  };
+
+  return (
+    <div className="admin-section">
+      <div className="section-header">
+        <h2>Contract Administration</h2>
+      </div>
+      {error && <div className="batch-error">{error}</div>}
+
+      <div className="admin-grid">
+        <div className="admin-card bio-card">
+          <h3>Compute Providers</h3>
+          <ul className="admin-list">
+            {providers.map(provider => (
+              <li key={provider}>
+                <span title={provider}>{provider}</span>
+                <button className="bio-button" disabled={busy !== null} onClick={() => run(`remove-${provider}`, client => client.removeProvider(provider))}>
+                  {busy === `remove-${provider}` ? "Removing..." : "Remove"}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="admin-form">
+            <input className="bio-input" value={newProvider} onChange={e => setNewProvider(e.target.value)} placeholder="0x... provider address" />
+            <button className="bio-button primary" disabled={busy !== null} onClick={addProvider}>
+              {busy === "add" ? "Adding..." : "Add"}
+            </button>
+          </div>
+        </div>
+
+        <div className="admin-card bio-card">
+          <h3>Settings</h3>
+          <div className="network-status">
+            <div className="status-item">
+              <span>Submissions:</span>
+              <span className={settings?.paused ? "status-paused" : "status-secure"}>{settings ? (settings.paused ? "Paused" : "Accepted") : "…"}</span>
+            </div>
+            <div className="status-item">
+              <span>Cooldown:</span>
+              <span>{settings ? `${settings.cooldownSeconds}s` : "…"}</span>
+            </div>
+          </div>
+          <button className="bio-button" disabled={busy !== null || !settings} onClick={() => run("pause", client => client.setPaused(!settings!.paused))}>
+            {busy === "pause" ? "Sending..." : settings?.paused ? "Unpause" : "Pause"}
+          </button>
+          <div className="admin-form">
+            <input className="bio-input" type="number" min="0" value={cooldown} onChange={e => setCooldown(e.target.value)} placeholder="Cooldown in seconds" />
+            <button className="bio-button primary" disabled={busy !== null} onClick={saveCooldown}>
+              {busy === "cooldown" ? "Saving..." : "Set"}
+            </button>
+          </div>
+        </div>
+
+        <div className="admin-card bio-card">
+          <h3>Transfer Ownership</h3>
+          <p className="admin-warning">The new owner takes over every admin operation, including this one. Type the address twice to confirm.</p>
+          <input className="bio-input" value={newOwner} onChange={e => setNewOwner(e.target.value)} placeholder="New owner address" />
+          <input className="bio-input" value={confirmOwner} onChange={e => setConfirmOwner(e.target.value)} placeholder="Type the address again" />
+          <button className="bio-button danger" disabled={busy !== null || !newOwner || !confirmOwner} onClick={transferOwnership}>
+            {busy === "transfer" ? "Transferring..." : "Transfer Ownership"}
+          </button>
+        </div>
+      </div>
+
+      <div className="admin-card bio-card">
+        <h3>History</h3>
+        {history.length === 0 ? (
+          <p>No admin changes yet</p>
+        ) : (
+          <ul className="admin-history">
+            {history.map((change, i) => (
+              <li key={i}>
+                <span className="history-block">#{change.blockNumber}</span>
+                {describeAdminChange(change)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminConsole;
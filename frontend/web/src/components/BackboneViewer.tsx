@@ -0,0 +1,184 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type { Coordinate } from "../folding/hpModel";
+import { Backbone, HYDROPATHY } from "../structure/backbone";
+
+export type BackboneColorMode = "hydrophobicity" | "chain";
+
+interface BackboneViewerProps {
+  backbone: Backbone | null;
+  size?: number;
+  colorMode?: BackboneColorMode;
+  showContacts?: boolean;
+  // Thumbnails spin on their own and ignore pointer input
+  interactive?: boolean;
+  autoRotate?: boolean;
+}
+
+const CHAIN_COLORS = ["#6366f1", "#14b8a6", "#f59e0b", "#ec4899", "#06b6d4", "#84cc16", "#8b5cf6", "#f97316"];
+
+// Hydrophilic residues are drawn blue, hydrophobic ones orange
+const hydropathyColor = (residue: string) => {
+  const t = ((HYDROPATHY[residue] ?? 0) + 4.5) / 9;
+  const from = [59, 130, 246];
+  const to = [249, 115, 22];
+  const [r, g, b] = from.map((v, i) => Math.round(v + (to[i] - v) * t));
+  return `rgb(${r}, ${g}, ${b})`;
+};
+
+const rotate = (p: Coordinate, yaw: number, pitch: number): Coordinate => {
+  const x = p[0] * Math.cos(yaw) + p[2] * Math.sin(yaw);
+  const z = -p[0] * Math.sin(yaw) + p[2] * Math.cos(yaw);
+  const y = p[1] * Math.cos(pitch) - z * Math.sin(pitch);
+  return [x, y, p[1] * Math.sin(pitch) + z * Math.cos(pitch)];
+};
+
+const BackboneViewer: React.FC<BackboneViewerProps> = ({
+  backbone,
+  size = 200,
+  colorMode = "hydrophobicity",
+  showContacts = true,
+  interactive = true,
+  autoRotate = !interactive
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [view, setView] = useState({ yaw: 0.6, pitch: 0.4, zoom: 1 });
+  const drag = useRef<{ x: number; y: number } | null>(null);
+
+  // Centre the trace on its centroid and remember its radius for scaling
+  const model = useMemo(() => {
+    if (!backbone || backbone.points.length === 0) return null;
+    const n = backbone.points.length;
+    const centroid = [0, 1, 2].map(axis => backbone.points.reduce((sum, p) => sum + p[axis], 0) / n);
+    const points = backbone.points.map(p => p.map((v, axis) => v - centroid[axis]) as Coordinate);
+    const radius = Math.max(1, ...points.map(p => Math.hypot(p[0], p[1], p[2])));
+    const chainIds = [...new Set(backbone.chains)];
+    const colors = backbone.points.map((_, i) =>
+      colorMode === "chain"
+        ? CHAIN_COLORS[chainIds.indexOf(backbone.chains[i]) % CHAIN_COLORS.length]
+        : hydropathyColor(backbone.residues[i])
+    );
+    return { points, radius, colors };
+  }, [backbone, colorMode]);
+
+  useEffect(() => {
+    if (!autoRotate) return;
+    let frame = 0;
+    const tick = () => {
+      setView(v => ({ ...v, yaw: v.yaw + 0.01 }));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [autoRotate]);
+
+  // React registers wheel listeners as passive, so zoom needs a native listener to block page scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !interactive) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setView(v => ({ ...v, zoom: Math.min(8, Math.max(0.3, v.zoom * Math.exp(-e.deltaY * 0.001))) }));
+    };
+    canvas.addEventListener("wheel", onWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", onWheel);
+  }, [interactive]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = size * ratio;
+    canvas.height = size * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, size, size);
+    if (!model) return;
+
+    const scale = (view.zoom * (size / 2 - 12)) / model.radius;
+    const projected = model.points.map(p => {
+      const [x, y, z] = rotate(p, view.yaw, view.pitch);
+      const perspective = 4 / (4 - z / model.radius);
+      return { x: size / 2 + x * scale * perspective, y: size / 2 - y * scale * perspective, z, perspective };
+    });
+
+    if (showContacts && backbone) {
+      ctx.save();
+      ctx.setLineDash([3, 3]);
+      ctx.strokeStyle = "rgba(250, 204, 21, 0.7)";
+      ctx.lineWidth = 1;
+      for (const [i, j] of backbone.contacts) {
+        ctx.beginPath();
+        ctx.moveTo(projected[i].x, projected[i].y);
+        ctx.lineTo(projected[j].x, projected[j].y);
+        ctx.stroke();
+      }
+      ctx.restore();
+    }
+
+    // Painter's algorithm: bonds and residues from back to front
+    const items: { z: number; draw: () => void }[] = [];
+    const radius = Math.max(1.5, Math.min(6, (size / 40) * Math.sqrt(30 / model.points.length)) * view.zoom);
+    projected.forEach((p, i) => {
+      const q = projected[i + 1];
+      if (q && backbone!.chains[i] === backbone!.chains[i + 1]) {
+        items.push({
+          z: (p.z + q.z) / 2,
+          draw: () => {
+            ctx.strokeStyle = model.colors[i];
+            ctx.lineWidth = Math.max(1, radius * 0.8);
+            ctx.beginPath();
+            ctx.moveTo(p.x, p.y);
+            ctx.lineTo(q.x, q.y);
+            ctx.stroke();
+          }
+        });
+      }
+      items.push({
+        z: p.z,
+        draw: () => {
+          ctx.fillStyle = model.colors[i];
+          ctx.globalAlpha = 0.55 + 0.45 * Math.min(1, Math.max(0, (p.z / model.radius + 1) / 2));
+          ctx.beginPath();
+          ctx.arc(p.x, p.y, radius * p.perspective, 0, 2 * Math.PI);
+          ctx.fill();
+          ctx.globalAlpha = 1;
+        }
+      });
+    });
+    items.sort((a, b) => a.z - b.z).forEach(item => item.draw());
+  }, [model, view, size, showContacts, backbone]);
+
+  const onPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!interactive) return;
+    drag.current = { x: e.clientX, y: e.clientY };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drag.current) return;
+    const dx = e.clientX - drag.current.x;
+    const dy = e.clientY - drag.current.y;
+    drag.current = { x: e.clientX, y: e.clientY };
+    setView(v => ({ ...v, yaw: v.yaw + dx * 0.01, pitch: Math.max(-1.5, Math.min(1.5, v.pitch + dy * 0.01)) }));
+  };
+
+  const onPointerUp = () => {
+    drag.current = null;
+  };
+
+  return (
+    <div className="backbone-viewer" style={{ width: size, height: size }}>
+      <canvas
+        ref={canvasRef}
+        style={{ width: size, height: size, cursor: interactive ? "grab" : "inherit" }}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+      />
+      {!model && <div className="backbone-empty">No structure yet</div>}
+    </div>
+  );
+};
+
+export default BackboneViewer;
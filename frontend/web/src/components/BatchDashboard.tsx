@@ -0,0 +1,201 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ethers } from "ethers";
+import { getBrowserSigner, getFoldingClient } from "../contract";
+import { fromEncryptedUint32 } from "../fhe/encryption";
+import { canRequestDecryption, listBatches, pendingDecryptions, requestUndecryptedBatches } from "../proteinFolding/batches";
+import { Batch, ProteinFoldingClient } from "../proteinFolding/client";
+import type { FoldingEvent, FoldingEventIndex } from "../proteinFolding/eventIndex";
+import { canManageProject, listProjects } from "../proteinFolding/projects";
+
+interface BatchDashboardProps {
+  index: FoldingEventIndex;
+  events: FoldingEvent[];
+  account?: string;
+  owner: string | null;
+}
+
+const shortAddress = (addr: string) => `${addr.substring(0, 6)}...${addr.substring(addr.length - 4)}`;
+
+const BatchDashboard: React.FC<BatchDashboardProps> = ({ index, events, account, owner }) => {
+  const projects = useMemo(() => listProjects(events), [events]);
+  const [selectedId, setSelectedId] = useState<string>("");
+  const project = projects.find(p => p.id.toString() === selectedId) ?? projects[0];
+  const batches = useMemo(() => (project ? listBatches(events, project.id) : []), [events, project?.id]);
+  const undecrypted = batches.filter(canRequestDecryption).length;
+  const canManage = !!project && canManageProject(project, account, owner);
+  const isOwner = !!account && !!owner && ethers.getAddress(account) === ethers.getAddress(owner);
+  const [current, setCurrent] = useState<Batch | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newManager, setNewManager] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The current batch id comes from contract state; a batch that was never opened reads back with id 0
+  useEffect(() => {
+    setCurrent(null);
+    const client = getFoldingClient();
+    if (!client || !project) return;
+    client.currentBatchId(project.id)
+      .then(async id => setCurrent({ ...(await client.getBatch(project.id, id)), id }))
+      .catch(e => console.error("Failed to read the current batch:", e));
+  }, [events, project?.id]);
+
+  const run = async (label: string, action: (client: ProteinFoldingClient) => Promise<unknown>) => {
+    setBusy(label);
+    setError(null);
+    try {
+      const client = getFoldingClient(await getBrowserSigner());
+      if (!client) throw new Error("No ProteinFoldingFHE contract in this network profile");
+      await action(client);
+      await index.sync();
+    } catch (e: any) {
+      setError(e.message || "Unknown error");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const createProject = () => {
+    const manager = newManager.trim() || account || "";
+    if (!newName.trim()) {
+      setError("Project name is required");
+      return;
+    }
+    if (!ethers.isAddress(manager)) {
+      setError(`${manager || "(empty)"} is not an address`);
+      return;
+    }
+    run("create", async client => {
+      const { projectId } = await client.createProject(newName.trim(), manager);
+      setSelectedId(projectId.toString());
+      setCreating(false);
+      setNewName("");
+      setNewManager("");
+    });
+  };
+
+  return (
+    <div className="batches-section">
+      <div className="section-header">
+        <h2>Score Batches</h2>
+        <div className="header-actions">
+          {projects.length > 0 && (
+            <select className="bio-input project-select" value={project?.id.toString()} onChange={e => setSelectedId(e.target.value)} title="Project">
+              {projects.map(p => (
+                <option key={p.id.toString()} value={p.id.toString()}>#{p.id.toString()} {p.name}</option>
+              ))}
+            </select>
+          )}
+          {isOwner && (
+            <button className="bio-button" disabled={busy !== null} onClick={() => setCreating(!creating)}>
+              {creating ? "Cancel" : "New Project"}
+            </button>
+          )}
+          {canManage && undecrypted > 1 && (
+            <button className="bio-button success" disabled={busy !== null} onClick={() => run("decrypt-all", client => requestUndecryptedBatches(client, index.events(), project.id))}>
+              {busy === "decrypt-all" ? "Requesting..." : `Decrypt ${undecrypted} Batches`}
+            </button>
+          )}
+          {canManage && current && !current.active && (
+            <button className="bio-button primary" disabled={busy !== null} onClick={() => run("open", client => client.openBatch(project.id))}>
+              {busy === "open" ? "Opening..." : `Open Batch #${current.id}`}
+            </button>
+          )}
+        </div>
+      </div>
+      {error && <div className="batch-error">{error}</div>}
+
+      {creating && (
+        <div className="project-form bio-card">
+          <input className="bio-input" value={newName} onChange={e => setNewName(e.target.value)} placeholder="Project name" />
+          <input className="bio-input" value={newManager} onChange={e => setNewManager(e.target.value)} placeholder="Manager address (defaults to you)" />
+          <button className="bio-button primary" disabled={busy !== null} onClick={createProject}>
+            {busy === "create" ? "Creating..." : "Create"}
+          </button>
+        </div>
+      )}
+
+      {project && (
+        <div className="project-meta">
+          Managed by <span title={project.manager}>{shortAddress(project.manager)}</span>, created in block {project.createdBlock}
+        </div>
+      )}
+
+      <div className="batch-list bio-card">
+        {!project ? (
+          <div className="no-tasks"><p>No projects yet</p></div>
+        ) : batches.length === 0 ? (
+          <div className="no-tasks"><p>No batches opened yet</p></div>
+        ) : (
+          [...batches].reverse().map(batch => {
+            const pending = pendingDecryptions(batch);
+            const canDecrypt = canRequestDecryption(batch);
+            return (
+              <div className="batch-item" key={batch.id.toString()}>
+                <div className="batch-info">
+                  <h4>Batch #{batch.id.toString()}</h4>
+                  <div className="task-meta">
+                    <span className={`status-badge ${batch.state}`}>{batch.state}</span>
+                    <span>{batch.submissionCount} submission(s)</span>
+                    <span>Opened in block {batch.openedBlock}{batch.closedBlock !== undefined && `, closed in ${batch.closedBlock}`}</span>
+                  </div>
+                  {batch.providers.length > 0 && (
+                    <div className="batch-providers">
+                      Providers: {batch.providers.map(provider => (
+                        <span key={provider} title={provider}>{shortAddress(provider)}</span>
+                      ))}
+                    </div>
+                  )}
+                  {batch.winner !== undefined ? (
+                    <div className="batch-winner">
+                      Best score {batch.bestScore !== undefined && fromEncryptedUint32(batch.bestScore)} by <span title={batch.winner}>{shortAddress(batch.winner)}</span>
+                    </div>
+                  ) : batch.state === "closed" && batch.submissionCount > 0 && (
+                    <div className="batch-pending">Awaiting the winner decryption</div>
+                  )}
+                  {pending.length > 0 && (
+                    <div className="batch-pending">
+                      Awaiting decryption: {pending.map(request => `#${request.requestId}`).join(", ")}
+                    </div>
+                  )}
+                </div>
+                <div className="batch-score">
+                  {batch.decryptedScore !== undefined ? (
+                    <>
+                      <div className="stat-value">{fromEncryptedUint32(batch.decryptedScore)}</div>
+                      <div className="stat-label">Total Score</div>
+                    </>
+                  ) : (
+                    <div className="stat-label">{batch.totalScore ? "Encrypted total" : "Collecting"}</div>
+                  )}
+                </div>
+                {canManage && (
+                  <div className="task-actions">
+                    {batch.state === "open" && (
+                      <button className="bio-button" disabled={busy !== null} onClick={() => run(`close-${batch.id}`, client => client.closeBatch(project.id, batch.id))}>
+                        {busy === `close-${batch.id}` ? "Closing..." : "Close Batch"}
+                      </button>
+                    )}
+                    {pending.map(request => (
+                      <button key={request.requestId.toString()} className="bio-button" disabled={busy !== null} title="Frees the batch when the relayer never answered" onClick={() => run(`cancel-${request.requestId}`, client => client.cancelBatchDecryption(request.requestId))}>
+                        {busy === `cancel-${request.requestId}` ? "Cancelling..." : `Cancel Request #${request.requestId}`}
+                      </button>
+                    ))}
+                    {canDecrypt && (
+                      <button className="bio-button success" disabled={busy !== null} onClick={() => run(`decrypt-${batch.id}`, client => client.requestBatchScoreDecryption(project.id, batch.id))}>
+                        {busy === `decrypt-${batch.id}` ? "Requesting..." : "Request Decryption"}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchDashboard;
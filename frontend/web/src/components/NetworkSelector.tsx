@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from "react";
+import { useAccount, useSwitchChain } from "wagmi";
+import { getProviderPool } from "../contract";
+import type { EndpointHealth } from "../network/providerPool";
+import {
+  CustomProfileInput,
+  FheBackendKind,
+  ProfileName,
+  getActiveProfile,
+  getProfile,
+  listProfiles,
+  profileIssues,
+  saveCustomProfile,
+  selectProfile
+} from "../network/profiles";
+
+// Providers and the FHE backend are built once per page load
+const switchTo = (name: ProfileName) => {
+  selectProfile(name);
+  window.location.reload();
+};
+
+const NetworkSelector: React.FC = () => {
+  const { isConnected, chainId } = useAccount();
+  const { switchChain, isPending } = useSwitchChain();
+  const [editing, setEditing] = useState(false);
+  const active = getActiveProfile();
+  const wrongChain = isConnected && chainId !== undefined && chainId !== active.chainId;
+
+  const onSelect = (name: ProfileName) => {
+    if (name === active.name) return;
+    if (profileIssues(getProfile(name)).length > 0) {
+      setEditing(true);
+      return;
+    }
+    switchTo(name);
+  };
+
+  return (
+    <div className="network-selector">
+      <select value={active.name} onChange={e => onSelect(e.target.value as ProfileName)} title="Network profile">
+        {listProfiles().map(profile => (
+          <option key={profile.name} value={profile.name}>
+            {profile.label}{profileIssues(profile).length > 0 ? " (not configured)" : ""}
+          </option>
+        ))}
+      </select>
+      <button className="bio-button" onClick={() => setEditing(true)} title="Edit the custom profile">⚙</button>
+      <RpcHealth />
+      {wrongChain && (
+        <button className="bio-button network-mismatch" disabled={isPending} onClick={() => switchChain({ chainId: active.chainId })}>
+          {isPending ? "Switching..." : `Wrong network: switch to ${active.label}`}
+        </button>
+      )}
+      {editing && <CustomProfileModal onClose={() => setEditing(false)} />}
+    </div>
+  );
+};
+
+const formatLatency = (latency?: number) => (latency === undefined ? "–" : `${Math.round(latency)} ms`);
+
+const RpcHealth: React.FC = () => {
+  const [health, setHealth] = useState<EndpointHealth[]>(() => getProviderPool().health());
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => getProviderPool().onHealthChange(setHealth), []);
+
+  useEffect(() => {
+    if (open) getProviderPool().probe().then(setHealth);
+  }, [open]);
+
+  // The pool sends requests to the best endpoint, so its state is the one users feel
+  const best = health.find(endpoint => endpoint.state === "healthy") ?? health.find(endpoint => endpoint.state === "degraded");
+
+  return (
+    <div className="rpc-health">
+      <button className="bio-button" onClick={() => setOpen(!open)} title="RPC endpoint health">
+        <span className={`health-dot ${best?.state ?? "cooling-down"}`}></span>
+        {best ? formatLatency(best.latency) : "RPC down"}
+      </button>
+      {open && (
+        <div className="rpc-health-panel bio-card">
+          <table>
+            <thead>
+              <tr>
+                <th>Endpoint</th>
+                <th>Latency</th>
+                <th>Errors</th>
+                <th>Block</th>
+              </tr>
+            </thead>
+            <tbody>
+              {health.map(endpoint => (
+                <tr key={endpoint.url} title={endpoint.lastError}>
+                  <td>
+                    <span className={`health-dot ${endpoint.state}`}></span>
+                    {new URL(endpoint.url).host}
+                  </td>
+                  <td>{formatLatency(endpoint.latency)}</td>
+                  <td>{Math.round(endpoint.errorRate * 100)}% ({endpoint.failures}/{endpoint.requests})</td>
+                  <td>{endpoint.lastBlock ?? "–"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const CustomProfileModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const current = getProfile("custom");
+  const [form, setForm] = useState({
+    chainId: current.chainId ? String(current.chainId) : "",
+    rpcUrls: current.rpcUrls.join(", "),
+    adapter: current.contracts.adapter,
+    folding: current.contracts.folding ?? "",
+    relayerUrl: current.relayerUrl ?? "",
+    fheBackend: current.fheBackend
+  });
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const update = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => setForm({ ...form, [e.target.name]: e.target.value });
+
+  const save = () => {
+    const input = {
+      chainId: Number(form.chainId),
+      rpcUrls: form.rpcUrls.split(",").map(url => url.trim()).filter(Boolean),
+      contracts: { adapter: form.adapter.trim(), folding: form.folding.trim() || undefined },
+      relayerUrl: form.relayerUrl.trim() || undefined,
+      fheBackend: form.fheBackend
+    } satisfies CustomProfileInput;
+    const found = profileIssues({ ...current, ...input });
+    setIssues(found);
+    if (found.length > 0) return;
+    saveCustomProfile(input);
+    switchTo("custom");
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal bio-card">
+        <div className="modal-header">
+          <h2>Custom Network</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+        <div className="modal-body">
+          <div className="form-grid">
+            <div className="form-group">
+              <label>Chain ID *</label>
+              <input name="chainId" value={form.chainId} onChange={update} placeholder="e.g. 31337" />
+            </div>
+            <div className="form-group">
+              <label>RPC URLs * (comma separated)</label>
+              <input name="rpcUrls" value={form.rpcUrls} onChange={update} placeholder="https://..." />
+            </div>
+            <div className="form-group">
+              <label>UniversalAdapter Address *</label>
+              <input name="adapter" value={form.adapter} onChange={update} placeholder="0x..." />
+            </div>
+            <div className="form-group">
+              <label>ProteinFoldingFHE Address</label>
+              <input name="folding" value={form.folding} onChange={update} placeholder="0x..." />
+            </div>
+            <div className="form-group">
+              <label>FHE Backend</label>
+              <select name="fheBackend" value={form.fheBackend} onChange={update}>
+                <option value={"relayer" satisfies FheBackendKind}>Zama relayer</option>
+                <option value={"mock-relayer" satisfies FheBackendKind}>Mock relayer</option>
+                <option value={"local" satisfies FheBackendKind}>Local (in-browser)</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label>Relayer URL</label>
+              <input name="relayerUrl" value={form.relayerUrl} onChange={update} placeholder="http://127.0.0.1:8645" />
+            </div>
+          </div>
+          {issues.length > 0 && (
+            <ul className="import-issues">
+              {issues.map(issue => <li key={issue}>{issue}</li>)}
+            </ul>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn bio-button">Cancel</button>
+          <button onClick={save} className="submit-btn bio-button primary">Save & Switch</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NetworkSelector;
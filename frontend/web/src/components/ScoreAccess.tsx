@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from "react";
+import { ethers } from "ethers";
+import { getBrowserSigner, getFoldingClient } from "../contract";
+import { decryptHandles, fromEncryptedUint32 } from "../fhe/encryption";
+import { AccessEntry, accessKey, describeCiphertext, listAccess, readableBy, shareableBy } from "../proteinFolding/access";
+import type { FoldingEvent, FoldingEventIndex } from "../proteinFolding/eventIndex";
+import { listProjects } from "../proteinFolding/projects";
+
+interface ScoreAccessProps {
+  index: FoldingEventIndex;
+  events: FoldingEvent[];
+  account: string;
+  owner: string | null;
+}
+
+const shortAddress = (addr: string) => `${addr.substring(0, 6)}...${addr.substring(addr.length - 4)}`;
+
+const ScoreAccess: React.FC<ScoreAccessProps> = ({ index, events, account, owner }) => {
+  const entries = useMemo(() => listAccess(events), [events]);
+  const readable = useMemo(() => readableBy(entries, account), [entries, account]);
+  const shareable = useMemo(() => shareableBy(entries, account, listProjects(events), owner), [entries, account, events, owner]);
+  const [values, setValues] = useState<Record<string, bigint>>({});
+  const [shareKey, setShareKey] = useState("");
+  const [grantee, setGrantee] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const selected = shareable.find(entry => accessKey(entry) === shareKey) ?? shareable[0];
+
+  // One permit covers every handle, so the wallet is asked to sign once per session
+  const decrypt = async (targets: AccessEntry[]) => {
+    setBusy("decrypt");
+    setError(null);
+    try {
+      const client = getFoldingClient();
+      if (!client) throw new Error("No ProteinFoldingFHE contract in this network profile");
+      const results = await decryptHandles(targets.map(entry => entry.handle), client.address, await getBrowserSigner());
+      setValues(previous => ({ ...previous, ...results }));
+    } catch (e: any) {
+      setError(e.message || "Unknown error");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const grant = async () => {
+    if (!selected) return;
+    if (!ethers.isAddress(grantee.trim())) {
+      setError(`${grantee.trim() || "(empty)"} is not an address`);
+      return;
+    }
+    setBusy("grant");
+    setError(null);
+    try {
+      const client = getFoldingClient(await getBrowserSigner());
+      if (!client) throw new Error("No ProteinFoldingFHE contract in this network profile");
+      const target = ethers.getAddress(grantee.trim());
+      if (selected.kind === "submission") await client.grantSubmissionAccess(selected.submissionId!, target);
+      else await client.grantBatchTotalAccess(selected.projectId, selected.batchId, target);
+      setGrantee("");
+      await index.sync();
+    } catch (e: any) {
+      setError(e.message || "Unknown error");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const undecrypted = readable.filter(entry => values[entry.handle] === undefined);
+
+  return (
+    <div className="access-section">
+      <div className="section-header">
+        <h2>Score Access</h2>
+        <div className="header-actions">
+          {undecrypted.length > 0 && (
+            <button className="bio-button success" disabled={busy !== null} onClick={() => decrypt(undecrypted)}>
+              {busy === "decrypt" ? "Decrypting..." : `Decrypt ${undecrypted.length} Score(s)`}
+            </button>
+          )}
+        </div>
+      </div>
+      {error && <div className="batch-error">{error}</div>}
+
+      <div className="batch-list bio-card">
+        {readable.length === 0 ? (
+          <div className="no-tasks"><p>No scores submitted by or shared with this account</p></div>
+        ) : (
+          readable.map(entry => (
+            <div className="batch-item" key={accessKey(entry)}>
+              <div className="batch-info">
+                <h4>{describeCiphertext(entry)}</h4>
+                <div className="task-meta">
+                  {entry.provider && <span>{entry.provider === ethers.getAddress(account) ? "Your submission" : `By ${shortAddress(entry.provider)}`}</span>}
+                  {entry.grantees.length > 0 && (
+                    <span>Shared with {entry.grantees.map(address => shortAddress(address)).join(", ")}</span>
+                  )}
+                </div>
+              </div>
+              <div className="batch-score">
+                {values[entry.handle] !== undefined ? (
+                  <div className="stat-value">{fromEncryptedUint32(values[entry.handle])}</div>
+                ) : (
+                  <div className="stat-label">Encrypted</div>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {shareable.length > 0 && (
+        <div className="access-form bio-card">
+          <select className="bio-input" value={selected ? accessKey(selected) : ""} onChange={e => setShareKey(e.target.value)}>
+            {shareable.map(entry => (
+              <option key={accessKey(entry)} value={accessKey(entry)}>{describeCiphertext(entry)}</option>
+            ))}
+          </select>
+          <input className="bio-input" value={grantee} onChange={e => setGrantee(e.target.value)} placeholder="Collaborator address" />
+          <button className="bio-button primary" disabled={busy !== null} onClick={grant}>
+            {busy === "grant" ? "Granting..." : "Grant Access"}
+          </button>
+          <p className="admin-warning">Access cannot be revoked once granted.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScoreAccess;
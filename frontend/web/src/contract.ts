@@ -1,86 +1,144 @@
-// contract.ts
-import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
-
-export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
-
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
-  try {
-    return await fn();
-  } catch (e) {
-    if (retries > 0) {
-      await new Promise(res => setTimeout(res, delay));
-      return retry(fn, retries - 1, delay * 2);
-    }
-    throw e;
-  }
-};
-
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
-  }
-  
-  throw new Error("All RPC providers failed");
-};
-
-export async function getContractReadOnly() {
-  try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
-    const code = await retry(() => provider.getCode(config.contractAddress));
-    if (code === "0x") {
-      return null;
-    }
-    
-    return contract;
-  } catch (error) {
-    console.error("Failed to create read-only contract:", error);
-    return null;
-  }
-}
-
-export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
-    throw new Error("No injected wallet");
-  }
-  try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
-  } catch (error) {
-    console.error("Failed to create contract with signer:", error);
-    throw error;
-  }
-}
-
-export function normAddr(a: string) { 
-  return a ? a.toLowerCase() : a; 
+// contract.ts
+import { ethers } from "ethers";
+import abiJson from "./abi/UniversalAdapter.json";
+import { createBrowserCheckpointStore } from "./indexer/indexedDbCheckpointStore";
+import { TaskIndexer } from "./indexer/taskIndexer";
+import { getActiveProfile } from "./network/profiles";
+import { ProviderPool } from "./network/providerPool";
+import { ProteinFoldingClient } from "./proteinFolding/client";
+import { FoldingEventIndex } from "./proteinFolding/eventIndex";
+import { TaskRegistry } from "./registry/taskRegistry";
+
+export const ABI = (abiJson as any).abi || abiJson;
+
+export class NetworkMismatchError extends Error {
+  constructor(readonly walletChainId: number, readonly expectedChainId: number, profileLabel: string) {
+    super(`Wallet is on chain ${walletChainId}, but the ${profileLabel} profile uses chain ${expectedChainId}`);
+    this.name = "NetworkMismatchError";
+  }
+}
+
+const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
+  try {
+    return await fn();
+  } catch (e) {
+    if (retries > 0) {
+      await new Promise(res => setTimeout(res, delay));
+      return retry(fn, retries - 1, delay * 2);
+    }
+    throw e;
+  }
+};
+
+let providerPool: ProviderPool | null = null;
+
+// One pool per page; switching profiles reloads the page
+export function getProviderPool(): ProviderPool {
+  if (!providerPool) {
+    const { name, chainId, rpcUrls } = getActiveProfile();
+    providerPool = new ProviderPool(rpcUrls, { name, chainId });
+  }
+  return providerPool;
+}
+
+// Reads an adapter record from several endpoints, for data a transaction is about to be based on
+export async function readDataWithQuorum(key: string, quorum = 2): Promise<string> {
+  const { adapter } = getActiveProfile().contracts;
+  return getProviderPool().quorum(provider => new ethers.Contract(adapter, ABI, provider).getData(key) as Promise<string>, { quorum });
+}
+
+export async function getContractReadOnly() {
+  try {
+    const { adapter } = getActiveProfile().contracts;
+    const provider = getProviderPool();
+    const contract = new ethers.Contract(adapter, ABI, provider);
+    
+    const code = await retry(() => provider.getCode(adapter));
+    if (code === "0x") {
+      return null;
+    }
+    
+    return contract;
+  } catch (error) {
+    console.error("Failed to create read-only contract:", error);
+    return null;
+  }
+}
+
+let taskIndexer: Promise<TaskIndexer | null> | null = null;
+
+// Shared indexer over the adapter's DataStored events, checkpointed in IndexedDB
+export function getTaskIndexer(): Promise<TaskIndexer | null> {
+  if (!taskIndexer) {
+    taskIndexer = (async () => {
+      const { adapter } = getActiveProfile().contracts;
+      const provider = getProviderPool();
+      const code = await retry(() => provider.getCode(adapter));
+      if (code === "0x") return null;
+      return new TaskIndexer({ provider, address: adapter, store: createBrowserCheckpointStore() });
+    })().catch(error => {
+      console.error("Failed to create task indexer:", error);
+      taskIndexer = null;
+      return null;
+    });
+  }
+  return taskIndexer;
+}
+
+export async function getTaskRegistry(): Promise<TaskRegistry | null> {
+  const indexer = await getTaskIndexer();
+  return indexer && new TaskRegistry(indexer, readDataWithQuorum);
+}
+
+// ProteinFoldingFHE of the active profile, read through the provider pool unless a signer is given
+export function getFoldingClient(runner: ethers.ContractRunner = getProviderPool()): ProteinFoldingClient | null {
+  const { folding } = getActiveProfile().contracts;
+  return folding ? new ProteinFoldingClient(folding, runner) : null;
+}
+
+let foldingEvents: Promise<FoldingEventIndex | null> | null = null;
+
+// Shared in-memory index over the ProteinFoldingFHE events, for the batch dashboard and the admin console
+export function getFoldingEvents(): Promise<FoldingEventIndex | null> {
+  if (!foldingEvents) {
+    foldingEvents = (async () => {
+      const { folding } = getActiveProfile().contracts;
+      if (!folding) return null;
+      const provider = getProviderPool();
+      const code = await retry(() => provider.getCode(folding));
+      if (code === "0x") return null;
+      return new FoldingEventIndex({ provider, address: folding });
+    })().catch(error => {
+      console.error("Failed to create folding event index:", error);
+      foldingEvents = null;
+      return null;
+    });
+  }
+  return foldingEvents;
+}
+
+export async function getBrowserSigner() {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const profile = getActiveProfile();
+  const walletChainId = Number((await provider.getNetwork()).chainId);
+  if (walletChainId !== profile.chainId) throw new NetworkMismatchError(walletChainId, profile.chainId, profile.label);
+  return provider.getSigner();
+}
+
+export async function getContractWithSigner() {
+  try {
+    const signer = await getBrowserSigner();
+    const contract = new ethers.Contract(getActiveProfile().contracts.adapter, ABI, signer);
+    return contract;
+  } catch (error) {
+    console.error("Failed to create contract with signer:", error);
+    throw error;
+  }
+}
+
+export function normAddr(a: string) { 
+  return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
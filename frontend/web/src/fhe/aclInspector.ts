@@ -0,0 +1,143 @@
+// fhe/aclInspector.ts
+// Who may use a ciphertext handle according to the FHEVM ACL. The IACL interface only answers point queries
+// (isAllowed, isAllowedForDecryption), so the accounts to ask about come from the ACL's Allowed events emitted for
+// the contracts that could have granted access, plus any parties the caller already knows. Delegations are replayed
+// from NewDelegation/RevokedDelegation events. Used by the Ciphertext Access Inspector panel and task:inspect-acl.
+import { ethers } from "ethers";
+import type { IACL } from "../../../../types/@fhevm/solidity/lib/Impl.sol/IACL";
+import { IACL__factory } from "../../../../types/factories/@fhevm/solidity/lib/Impl.sol/IACL__factory";
+import { findDeploymentBlock, isRangeError } from "../indexer/taskIndexer";
+
+// ACL deployments by chain id; the hardhat fhevm mock deploys the precompiled core contracts on 31337
+const ACL_ADDRESSES: Record<number, string> = {
+  31337: "0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D",
+  11155111: "0x687820221192C5B662b25367F70076A37bc79b6c"
+};
+
+export function aclAddressFor(chainId: number | bigint): string {
+  const address = ACL_ADDRESSES[Number(chainId)];
+  if (!address) throw new Error(`No known ACL on chain ${chainId}; pass its address explicitly`);
+  return address;
+}
+
+// Declared by the ACL implementation (ACLEvents.sol) rather than by IACL
+const ACL_EVENTS = new ethers.Interface([
+  "event Allowed(address indexed caller, address indexed account, bytes32 handle)",
+  "event NewDelegation(address indexed caller, address indexed delegatee, address[] contractAddresses)",
+  "event RevokedDelegation(address indexed caller, address indexed delegatee, address[] contractAddresses)"
+]);
+
+export interface AclGrant {
+  account: string;
+  // Contract that called ACL.allow and the block it did so in; unset for known parties found without an event
+  grantedBy?: string;
+  blockNumber?: number;
+}
+
+export interface AclDelegation {
+  delegator: string;
+  delegatee: string;
+  // Contracts for which the delegatee may request user decryptions on behalf of the delegator
+  contracts: string[];
+}
+
+export interface HandleAccessReport {
+  handle: string;
+  publiclyDecryptable: boolean;
+  allowed: AclGrant[];
+  // Known parties the ACL does not allow
+  notAllowed: string[];
+  // Active delegations by allowed accounts, limited to contracts that are allowed on the handle
+  delegations: AclDelegation[];
+}
+
+export interface InspectHandleOptions {
+  // Contracts whose ACL.allow calls are scanned, e.g. ProteinFoldingFHE and the UniversalAdapter
+  grantors: string[];
+  // Checked even when no Allowed event names them, e.g. the connected account or the project managers
+  candidates?: string[];
+  // Defaults to the deployment block of the oldest grantor
+  fromBlock?: number;
+  chunkSize?: number;
+}
+
+export const isHandle = (value: string) => ethers.isHexString(value, 32);
+
+export function connectAcl(address: string, runner: ethers.ContractRunner): IACL {
+  return IACL__factory.connect(address, runner);
+}
+
+const addressTopic = (address: string) => ethers.zeroPadValue(ethers.getAddress(address), 32);
+
+async function fetchLogs(provider: ethers.Provider, filter: ethers.Filter, fromBlock: number, toBlock: number, chunkSize: number) {
+  const logs: ethers.Log[] = [];
+  while (fromBlock <= toBlock) {
+    const to = Math.min(toBlock, fromBlock + chunkSize - 1);
+    try {
+      logs.push(...(await provider.getLogs({ ...filter, fromBlock, toBlock: to })));
+      fromBlock = to + 1;
+    } catch (e) {
+      if (!isRangeError(e) || chunkSize <= 1) throw e;
+      chunkSize = Math.max(1, Math.floor(chunkSize / 2));
+    }
+  }
+  return logs;
+}
+
+export async function inspectHandle(acl: IACL, handle: string, options: InspectHandleOptions): Promise<HandleAccessReport> {
+  if (!isHandle(handle)) throw new Error(`${handle} is not a ciphertext handle`);
+  const provider = acl.runner?.provider;
+  if (!provider) throw new Error("The ACL contract needs a runner with a provider");
+  const address = await acl.getAddress();
+  const grantors = [...new Set(options.grantors.map(grantor => ethers.getAddress(grantor)))];
+  const chunkSize = options.chunkSize ?? 2000;
+  const head = await provider.getBlockNumber();
+  const deployed = await Promise.all(grantors.map(grantor => findDeploymentBlock(provider, grantor, head)));
+  const fromBlock = options.fromBlock ?? (deployed.length > 0 ? Math.min(...deployed) : 0);
+
+  // Allowed does not index the handle, so the scan is narrowed by the calling contract instead
+  const grants = new Map<string, AclGrant>();
+  if (grantors.length > 0) {
+    const topics = [ACL_EVENTS.getEvent("Allowed")!.topicHash, grantors.map(addressTopic)];
+    for (const log of await fetchLogs(provider, { address, topics }, fromBlock, head, chunkSize)) {
+      const { args } = ACL_EVENTS.parseLog(log)!;
+      const account = ethers.getAddress(args.account);
+      if (args.handle.toLowerCase() !== handle.toLowerCase() || grants.has(account)) continue;
+      grants.set(account, { account, grantedBy: ethers.getAddress(args.caller), blockNumber: log.blockNumber });
+    }
+  }
+
+  const candidates = [...new Set([...grants.keys(), ...grantors, ...(options.candidates ?? []).map(candidate => ethers.getAddress(candidate))])];
+  const checks = await Promise.all(candidates.map(candidate => acl.isAllowed(handle, candidate)));
+  const allowed = candidates.filter((_, i) => checks[i]).map(account => grants.get(account) ?? { account });
+  const notAllowed = candidates.filter((_, i) => !checks[i]);
+
+  return {
+    handle,
+    publiclyDecryptable: await acl.isAllowedForDecryption(handle),
+    allowed,
+    notAllowed,
+    delegations: allowed.length > 0 ? await activeDelegations(provider, address, allowed.map(grant => grant.account), fromBlock, head, chunkSize) : []
+  };
+}
+
+// A delegation only reaches the handle through a contract that is itself allowed on it
+async function activeDelegations(provider: ethers.Provider, acl: string, allowed: string[], fromBlock: number, toBlock: number, chunkSize: number): Promise<AclDelegation[]> {
+  const topics = [[ACL_EVENTS.getEvent("NewDelegation")!.topicHash, ACL_EVENTS.getEvent("RevokedDelegation")!.topicHash], allowed.map(addressTopic)];
+  const active = new Map<string, AclDelegation>();
+  for (const log of await fetchLogs(provider, { address: acl, topics }, fromBlock, toBlock, chunkSize)) {
+    const { name, args } = ACL_EVENTS.parseLog(log)!;
+    const delegator = ethers.getAddress(args.caller);
+    const delegatee = ethers.getAddress(args.delegatee);
+    const key = `${delegator}:${delegatee}`;
+    const delegation = active.get(key) ?? { delegator, delegatee, contracts: [] };
+    const contracts = (args.contractAddresses as string[]).map(contract => ethers.getAddress(contract));
+    delegation.contracts = name === "NewDelegation"
+      ? [...new Set([...delegation.contracts, ...contracts])]
+      : delegation.contracts.filter(contract => !contracts.includes(contract));
+    active.set(key, delegation);
+  }
+  return [...active.values()]
+    .map(delegation => ({ ...delegation, contracts: delegation.contracts.filter(contract => allowed.includes(contract)) }))
+    .filter(delegation => delegation.contracts.length > 0);
+}
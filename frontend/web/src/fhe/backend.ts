@@ -0,0 +1,65 @@
+// fhe/backend.ts
+// Backend-neutral types and value encoding, safe to import from Node tooling.
+
+// Energies are stored as euint32 fixed-point values with two decimals.
+export const ENERGY_SCALE = 100;
+
+export interface EncryptedInput {
+  handle: string;
+  inputProof: string;
+}
+
+export interface HandleContractPair {
+  handle: string;
+  contractAddress: string;
+}
+
+export interface DecryptionKeypair {
+  publicKey: string;
+  privateKey: string;
+}
+
+// EIP-712 payload of a user decryption request
+export interface UserDecryptTypedData {
+  domain: { name: string; version: string; chainId: number; verifyingContract: string };
+  types: Record<string, { name: string; type: string }[]>;
+  primaryType: string;
+  message: Record<string, any>;
+}
+
+// A signed user decryption request; `startTimestamp` is in unix seconds
+export interface UserDecryptPermit {
+  keypair: DecryptionKeypair;
+  signature: string;
+  userAddress: string;
+  contractAddresses: string[];
+  startTimestamp: number;
+  durationDays: number;
+}
+
+export interface FheBackend {
+  readonly name: string;
+  encryptUint32(value: number, contractAddress: string, userAddress: string): Promise<EncryptedInput>;
+  // User decryption, see userDecryption.ts. Backends used only for encryption (the worker's) leave these out.
+  generateKeypair?(): Promise<DecryptionKeypair>;
+  createUserDecryptRequest?(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: number,
+    durationDays: number
+  ): Promise<UserDecryptTypedData>;
+  userDecrypt?(handles: HandleContractPair[], permit: UserDecryptPermit): Promise<Record<string, bigint>>;
+}
+
+export function toEncryptedUint32(value: number): number {
+  const scaled = Math.round(value * ENERGY_SCALE);
+  if (!Number.isFinite(scaled) || scaled < 0 || scaled > 0xffffffff) {
+    throw new Error(`Value ${value} does not fit in euint32`);
+  }
+  return scaled;
+}
+
+// Inverse of toEncryptedUint32 for a decrypted euint32
+export function fromEncryptedUint32(value: bigint): number {
+  return Number(value) / ENERGY_SCALE;
+}
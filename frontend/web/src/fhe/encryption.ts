@@ -0,0 +1,166 @@
+// fhe/encryption.ts
+import { ethers } from "ethers";
+import type { FhevmInstance, FhevmInstanceConfig } from "@zama-fhe/relayer-sdk/bundle";
+import { ENERGY_SCALE, EncryptedInput, FheBackend, UserDecryptTypedData, fromEncryptedUint32, toEncryptedUint32 } from "./backend";
+import { getActiveProfile } from "../network/profiles";
+import { createMockRelayerBackend } from "./mockRelayerBackend";
+import { PermitCache, UserDecryptionError, userDecryptHandles, userDecryptTypedData, verifyUserDecryptRequest } from "./userDecryption";
+
+export { ENERGY_SCALE, fromEncryptedUint32, toEncryptedUint32 };
+export type { EncryptedInput, FheBackend };
+
+export function createRelayerBackend(config?: Partial<FhevmInstanceConfig>): FheBackend {
+  let instance: Promise<FhevmInstance> | null = null;
+
+  const getInstance = () => {
+    if (!instance) {
+      instance = (async () => {
+        const sdk = await import("@zama-fhe/relayer-sdk/bundle");
+        await sdk.initSDK();
+        return sdk.createInstance({
+          ...sdk.SepoliaConfig,
+          network: window.ethereum ?? sdk.SepoliaConfig.network,
+          ...config
+        });
+      })();
+      instance.catch(() => { instance = null; });
+    }
+    return instance;
+  };
+
+  return {
+    name: "relayer",
+    async encryptUint32(value, contractAddress, userAddress) {
+      const fhevm = await getInstance();
+      const input = fhevm.createEncryptedInput(contractAddress, userAddress);
+      input.add32(value);
+      const { handles, inputProof } = await input.encrypt();
+      return { handle: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
+    },
+    async generateKeypair() {
+      return (await getInstance()).generateKeypair();
+    },
+    async createUserDecryptRequest(publicKey, contractAddresses, startTimestamp, durationDays) {
+      return (await getInstance()).createEIP712(publicKey, contractAddresses, startTimestamp, durationDays) as UserDecryptTypedData;
+    },
+    async userDecrypt(handles, permit) {
+      const fhevm = await getInstance();
+      const results = await fhevm.userDecrypt(
+        handles,
+        permit.keypair.privateKey,
+        permit.keypair.publicKey,
+        permit.signature.replace(/^0x/, ""),
+        permit.contractAddresses,
+        permit.userAddress,
+        permit.startTimestamp,
+        permit.durationDays
+      );
+      // Key the results by the handles as passed in, whatever casing the relayer returns
+      const byHandle = new Map(Object.entries(results).map(([handle, value]) => [handle.toLowerCase(), value]));
+      return Object.fromEntries(handles.map(({ handle }) => {
+        const value = byHandle.get(handle.toLowerCase());
+        if (value === undefined) throw new UserDecryptionError(`The relayer returned no value for ${handle}`);
+        if (typeof value !== "bigint") throw new UserDecryptionError(`${handle} does not hold an integer`);
+        return [handle, value];
+      }));
+    }
+  };
+}
+
+// Deterministic stand-in for tests and offline runs: handles are derived from the inputs
+// and cleartexts never leave the process. User decryption checks the permit like the relayer
+// does but skips the re-encryption, since there is no KMS to re-encrypt from.
+export function createLocalBackend({ chainId = 31337, verifyingContract = ethers.ZeroAddress } = {}): FheBackend {
+  const cleartexts = new Map<string, number>();
+  let nonce = 0;
+
+  return {
+    name: "local",
+    async encryptUint32(value, contractAddress, userAddress) {
+      const handle = ethers.solidityPackedKeccak256(
+        ["address", "address", "uint32", "uint256"],
+        [contractAddress, userAddress, value, nonce++]
+      );
+      cleartexts.set(handle, value);
+      const inputProof = ethers.solidityPackedKeccak256(["bytes32", "string"], [handle, "local-input-proof"]);
+      return { handle, inputProof };
+    },
+    async generateKeypair() {
+      const wallet = ethers.Wallet.createRandom();
+      return { publicKey: wallet.signingKey.publicKey, privateKey: wallet.privateKey };
+    },
+    async createUserDecryptRequest(publicKey, contractAddresses, startTimestamp, durationDays) {
+      return userDecryptTypedData(verifyingContract, chainId, publicKey, contractAddresses, startTimestamp, durationDays);
+    },
+    async userDecrypt(handles, permit) {
+      const typedData = userDecryptTypedData(
+        verifyingContract,
+        chainId,
+        permit.keypair.publicKey,
+        permit.contractAddresses,
+        permit.startTimestamp,
+        permit.durationDays
+      );
+      verifyUserDecryptRequest(typedData, handles, permit);
+      return Object.fromEntries(handles.map(({ handle }) => {
+        const value = cleartexts.get(handle);
+        if (value === undefined) throw new UserDecryptionError(`Unknown ciphertext handle ${handle}`);
+        return [handle, BigInt(value)];
+      }));
+    }
+  };
+}
+
+function defaultBackend(): FheBackend {
+  const { fheBackend, chainId, relayerUrl } = getActiveProfile();
+  switch (fheBackend) {
+    case "local":
+      return createLocalBackend({ chainId });
+    case "mock-relayer":
+      return createMockRelayerBackend(relayerUrl!);
+    default:
+      return createRelayerBackend(relayerUrl ? { relayerUrl } : undefined);
+  }
+}
+
+let backend: FheBackend = defaultBackend();
+
+export function setFheBackend(next: FheBackend) {
+  backend = next;
+}
+
+export function getFheBackend(): FheBackend {
+  return backend;
+}
+
+export async function encryptEnergy(value: number, contractAddress: string, userAddress: string): Promise<EncryptedInput> {
+  return backend.encryptUint32(toEncryptedUint32(value), contractAddress, userAddress);
+}
+
+// Permits signed in this session, reused until they are about to expire
+const permits = new PermitCache();
+
+export function clearDecryptionPermits() {
+  permits.clear();
+}
+
+// Task energies are granted to their owner by ProteinFoldingFHE.storeTaskEnergy, so `contractAddress` is that contract
+export async function decryptEnergy(handle: string, contractAddress: string, signer: ethers.Signer): Promise<number> {
+  const results = await userDecryptHandles(backend, signer, [{ handle, contractAddress }], permits);
+  return fromEncryptedUint32(results[handle]);
+}
+
+// Raw euint32 values of ciphertexts held by one contract, decrypted under the session permit; scores still
+// carry ENERGY_SCALE, see fromEncryptedUint32
+export async function decryptHandles(handles: string[], contractAddress: string, signer: ethers.Signer): Promise<Record<string, bigint>> {
+  return userDecryptHandles(backend, signer, handles.map(handle => ({ handle, contractAddress })), permits);
+}
+
+// Records written before the relayer integration stored `FHE-<base64>-<timestamp>` strings.
+export function isLegacyCiphertext(encryptedData: string): boolean {
+  return encryptedData.startsWith("FHE-");
+}
+
+export function decodeLegacyCiphertext(encryptedData: string): number {
+  return parseFloat(atob(encryptedData.split("-")[1]));
+}
@@ -0,0 +1,73 @@
+// fhe/mockRelayerBackend.ts
+// Backend for the mock relayer served by `task:mock-relayer` / `task:local-stack` (tasks/mockRelayer.ts),
+// which runs against a hardhat node in fhevm mock mode.
+import { ethers } from "ethers";
+import type { FheBackend } from "./backend";
+import { UserDecryptionError, userDecryptTypedData } from "./userDecryption";
+
+interface MockRelayerMetadata {
+  verifyingContractAddressDecryption: string;
+  contractsChainId: number;
+}
+
+export function createMockRelayerBackend(relayerUrl: string): FheBackend {
+  let metadata: Promise<MockRelayerMetadata> | null = null;
+
+  const request = async (method: "GET" | "POST", path: string, body?: unknown) => {
+    const response = await fetch(`${relayerUrl}${path}`, {
+      method,
+      headers: body ? { "content-type": "application/json" } : undefined,
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const json = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(`Mock relayer ${path} failed (${response.status}): ${json.message ?? response.statusText}`);
+    return json;
+  };
+
+  const getMetadata = () => {
+    if (!metadata) {
+      metadata = request("GET", "/v1/metadata");
+      metadata.catch(() => { metadata = null; });
+    }
+    return metadata;
+  };
+
+  return {
+    name: "mock-relayer",
+    async encryptUint32(value, contractAddress, userAddress) {
+      const { handles, inputProof } = await request("POST", "/v1/input-proof", {
+        contractAddress,
+        userAddress,
+        values: [{ type: "euint32", value: value.toString() }]
+      });
+      return { handle: handles[0], inputProof };
+    },
+    // Nothing is re-encrypted by the mock, so any key will do; it only has to be signed into the permit
+    async generateKeypair() {
+      const wallet = ethers.Wallet.createRandom();
+      return { publicKey: wallet.signingKey.publicKey, privateKey: wallet.privateKey };
+    },
+    async createUserDecryptRequest(publicKey, contractAddresses, startTimestamp, durationDays) {
+      const { verifyingContractAddressDecryption, contractsChainId } = await getMetadata();
+      return userDecryptTypedData(verifyingContractAddressDecryption, contractsChainId, publicKey, contractAddresses, startTimestamp, durationDays);
+    },
+    async userDecrypt(handles, permit) {
+      const { contractsChainId } = await getMetadata();
+      const { results } = await request("POST", "/v1/user-decrypt", {
+        handleContractPairs: handles,
+        requestValidity: { startTimestamp: permit.startTimestamp.toString(), durationDays: permit.durationDays.toString() },
+        contractsChainId: contractsChainId.toString(),
+        contractAddresses: permit.contractAddresses,
+        userAddress: permit.userAddress,
+        signature: permit.signature,
+        publicKey: permit.keypair.publicKey,
+        extraData: "0x00"
+      });
+      return Object.fromEntries(handles.map(({ handle }) => {
+        const value = results[handle] ?? results[handle.toLowerCase()];
+        if (value === undefined) throw new UserDecryptionError(`Mock relayer returned no value for ${handle}`);
+        return [handle, BigInt(value)];
+      }));
+    }
+  };
+}
@@ -0,0 +1,145 @@
+// fhe/userDecryption.ts
+// User decryption: the wallet signs an EIP-712 permit that binds a fresh decryption keypair to a set of
+// contracts for a validity window; the relayer (or the local backend) checks it and returns the cleartexts
+// re-encrypted to that keypair. Permits are cached for the session so the wallet is prompted once.
+import { ethers } from "ethers";
+import type { DecryptionKeypair, FheBackend, HandleContractPair, UserDecryptPermit, UserDecryptTypedData } from "./backend";
+
+export const USER_DECRYPT_DURATION_DAYS = 1;
+
+// Permits this close to expiry are renewed instead of reused
+const EXPIRY_MARGIN = 5 * 60;
+
+export class UserDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UserDecryptionError";
+  }
+}
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const uniqueAddresses = (addresses: string[]) => [...new Set(addresses.map(a => ethers.getAddress(a)))].sort();
+
+// Same layout as the relayer SDK's createEIP712
+export function userDecryptTypedData(
+  verifyingContract: string,
+  chainId: number,
+  publicKey: string,
+  contractAddresses: string[],
+  startTimestamp: number,
+  durationDays: number
+): UserDecryptTypedData {
+  return {
+    domain: { name: "Decryption", version: "1", chainId, verifyingContract },
+    types: {
+      EIP712Domain: [
+        { name: "name", type: "string" },
+        { name: "version", type: "string" },
+        { name: "chainId", type: "uint256" },
+        { name: "verifyingContract", type: "address" }
+      ],
+      UserDecryptRequestVerification: [
+        { name: "publicKey", type: "bytes" },
+        { name: "contractAddresses", type: "address[]" },
+        { name: "contractsChainId", type: "uint256" },
+        { name: "startTimestamp", type: "uint256" },
+        { name: "durationDays", type: "uint256" },
+        { name: "extraData", type: "bytes" }
+      ]
+    },
+    primaryType: "UserDecryptRequestVerification",
+    message: {
+      publicKey: publicKey.startsWith("0x") ? publicKey : `0x${publicKey}`,
+      contractAddresses,
+      contractsChainId: chainId,
+      startTimestamp: startTimestamp.toString(),
+      durationDays: durationDays.toString(),
+      extraData: "0x00"
+    }
+  };
+}
+
+// ethers derives the domain type itself and rejects it in `types`
+export async function signUserDecryptTypedData(signer: ethers.Signer, typedData: UserDecryptTypedData): Promise<string> {
+  const { EIP712Domain, ...types } = typedData.types;
+  return signer.signTypedData(typedData.domain, types, typedData.message);
+}
+
+export function isPermitValid(permit: UserDecryptPermit, now = nowSeconds()): boolean {
+  return permit.startTimestamp <= now && permit.startTimestamp + permit.durationDays * 86400 > now;
+}
+
+// Checks a request the way the relayer does: signer, validity window and contract scope.
+export function verifyUserDecryptRequest(
+  typedData: UserDecryptTypedData,
+  handles: HandleContractPair[],
+  permit: UserDecryptPermit,
+  now = nowSeconds()
+) {
+  const { EIP712Domain, ...types } = typedData.types;
+  const signer = ethers.verifyTypedData(typedData.domain, types, typedData.message, permit.signature);
+  if (signer.toLowerCase() !== permit.userAddress.toLowerCase()) {
+    throw new UserDecryptionError(`Permit was signed by ${signer}, not ${permit.userAddress}`);
+  }
+  if (!isPermitValid(permit, now)) throw new UserDecryptionError("Decryption permit is expired or not yet valid");
+  const scope = permit.contractAddresses.map(a => a.toLowerCase());
+  const outside = handles.find(({ contractAddress }) => !scope.includes(contractAddress.toLowerCase()));
+  if (outside) throw new UserDecryptionError(`Contract ${outside.contractAddress} is not covered by the permit`);
+}
+
+export class PermitCache {
+  private permits = new Map<string, UserDecryptPermit>();
+
+  private key(backend: string, userAddress: string, contractAddresses: string[]) {
+    return `${backend}:${userAddress.toLowerCase()}:${contractAddresses.join(",").toLowerCase()}`;
+  }
+
+  get(backend: string, userAddress: string, contractAddresses: string[], now = nowSeconds()): UserDecryptPermit | undefined {
+    const permit = this.permits.get(this.key(backend, userAddress, contractAddresses));
+    return permit && isPermitValid(permit, now + EXPIRY_MARGIN) ? permit : undefined;
+  }
+
+  set(backend: string, permit: UserDecryptPermit) {
+    this.permits.set(this.key(backend, permit.userAddress, permit.contractAddresses), permit);
+  }
+
+  clear() {
+    this.permits.clear();
+  }
+}
+
+// Generates a keypair and asks the wallet to sign the permit for it
+export async function createUserDecryptPermit(
+  backend: FheBackend,
+  signer: ethers.Signer,
+  contractAddresses: string[],
+  durationDays = USER_DECRYPT_DURATION_DAYS
+): Promise<UserDecryptPermit> {
+  if (!backend.generateKeypair || !backend.createUserDecryptRequest) {
+    throw new UserDecryptionError(`The ${backend.name} backend does not support user decryption`);
+  }
+  const keypair: DecryptionKeypair = await backend.generateKeypair();
+  const startTimestamp = nowSeconds();
+  const typedData = await backend.createUserDecryptRequest(keypair.publicKey, contractAddresses, startTimestamp, durationDays);
+  const signature = await signUserDecryptTypedData(signer, typedData);
+  return { keypair, signature, userAddress: await signer.getAddress(), contractAddresses, startTimestamp, durationDays };
+}
+
+// Decrypts the handles for the signer, reusing a cached permit for the same contracts when there is one.
+export async function userDecryptHandles(
+  backend: FheBackend,
+  signer: ethers.Signer,
+  handles: HandleContractPair[],
+  cache: PermitCache
+): Promise<Record<string, bigint>> {
+  if (!backend.userDecrypt) throw new UserDecryptionError(`The ${backend.name} backend does not support user decryption`);
+  const contractAddresses = uniqueAddresses(handles.map(h => h.contractAddress));
+  const userAddress = await signer.getAddress();
+  let permit = cache.get(backend.name, userAddress, contractAddresses);
+  if (!permit) {
+    permit = await createUserDecryptPermit(backend, signer, contractAddresses);
+    cache.set(backend.name, permit);
+  }
+  return backend.userDecrypt(handles, permit);
+}
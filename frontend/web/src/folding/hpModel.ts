@@ -0,0 +1,107 @@
+// folding/hpModel.ts
+// Hydrophobic-polar (HP) lattice model: residues are either H or P, and every
+// non-bonded H-H pair on neighbouring lattice sites contributes -1 to the energy.
+
+export type LatticeDimension = 2 | 3;
+export type Coordinate = [number, number, number];
+export type HP = "H" | "P";
+
+const AMINO_ACIDS = "ACDEFGHIKLMNPQRSTVWY";
+// Hydrophobic side chains (positive Kyte-Doolittle hydropathy plus Trp)
+const HYDROPHOBIC = new Set("AVILMFWC".split(""));
+
+export const DIRECTIONS: Record<string, Coordinate> = {
+  R: [1, 0, 0],
+  L: [-1, 0, 0],
+  U: [0, 1, 0],
+  D: [0, -1, 0],
+  F: [0, 0, 1],
+  B: [0, 0, -1]
+};
+
+export function latticeSteps(dimension: LatticeDimension): Coordinate[] {
+  return Object.values(DIRECTIONS).filter(step => dimension === 3 || step[2] === 0);
+}
+
+export function normalizeSequence(sequence: string): string {
+  return sequence.replace(/\s+/g, "").toUpperCase();
+}
+
+export const isHydrophobic = (residue: string) => HYDROPHOBIC.has(residue.toUpperCase());
+
+export function toHpSequence(sequence: string): HP[] {
+  const residues = normalizeSequence(sequence);
+  if (residues.length < 2) throw new Error("Sequence needs at least two residues");
+  return residues.split("").map((residue, i) => {
+    if (!AMINO_ACIDS.includes(residue)) {
+      throw new Error(`Unknown amino acid '${residue}' at position ${i + 1}`);
+    }
+    return HYDROPHOBIC.has(residue) ? "H" : "P";
+  });
+}
+
+export const siteKey = (c: Coordinate) => `${c[0]},${c[1]},${c[2]}`;
+
+export const addCoordinates = (a: Coordinate, b: Coordinate): Coordinate => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+
+export const subtractCoordinates = (a: Coordinate, b: Coordinate): Coordinate => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+
+export const areAdjacent = (a: Coordinate, b: Coordinate) =>
+  Math.abs(a[0] - b[0]) + Math.abs(a[1] - b[1]) + Math.abs(a[2] - b[2]) === 1;
+
+export function isSelfAvoiding(conformation: Coordinate[]): boolean {
+  const occupied = new Set<string>();
+  for (let i = 0; i < conformation.length; i++) {
+    const key = siteKey(conformation[i]);
+    if (occupied.has(key)) return false;
+    if (i > 0 && !areAdjacent(conformation[i - 1], conformation[i])) return false;
+    occupied.add(key);
+  }
+  return true;
+}
+
+export function findContacts(hp: HP[], conformation: Coordinate[], dimension: LatticeDimension): [number, number][] {
+  const index = new Map<string, number>();
+  conformation.forEach((c, i) => index.set(siteKey(c), i));
+  const steps = latticeSteps(dimension);
+  const contacts: [number, number][] = [];
+  for (let i = 0; i < conformation.length; i++) {
+    if (hp[i] !== "H") continue;
+    for (const step of steps) {
+      const j = index.get(siteKey(addCoordinates(conformation[i], step)));
+      if (j !== undefined && j > i + 1 && hp[j] === "H") contacts.push([i, j]);
+    }
+  }
+  return contacts;
+}
+
+export function computeEnergy(hp: HP[], conformation: Coordinate[], dimension: LatticeDimension): number {
+  return -findContacts(hp, conformation, dimension).length;
+}
+
+// Conformations are stored as one absolute direction letter per bond, e.g. "RRUL".
+export function encodeConformation(conformation: Coordinate[]): string {
+  let moves = "";
+  for (let i = 1; i < conformation.length; i++) {
+    const delta = subtractCoordinates(conformation[i], conformation[i - 1]);
+    const letter = Object.keys(DIRECTIONS).find(key => siteKey(DIRECTIONS[key]) === siteKey(delta));
+    if (!letter) throw new Error(`Residues ${i} and ${i + 1} are not lattice neighbours`);
+    moves += letter;
+  }
+  return moves;
+}
+
+export function decodeConformation(moves: string): Coordinate[] {
+  const conformation: Coordinate[] = [[0, 0, 0]];
+  for (const letter of moves) {
+    const step = DIRECTIONS[letter];
+    if (!step) throw new Error(`Unknown lattice direction '${letter}'`);
+    conformation.push(addCoordinates(conformation[conformation.length - 1], step));
+  }
+  if (!isSelfAvoiding(conformation)) throw new Error("Conformation is not self-avoiding");
+  return conformation;
+}
+
+export function straightConformation(length: number): Coordinate[] {
+  return Array.from({ length }, (_, i) => [i, 0, 0] as Coordinate);
+}
@@ -0,0 +1,175 @@
+// folding/pipeline.ts
+// A folding pipeline is an ordered list of stages, each a run of the lattice simulator with its own
+// parameters. Every stage keeps its own progress and best conformation, and starts from the conformation
+// the previous stage ended with, so a pipeline can be folded in segments across heartbeats and workers.
+import { computeEnergy, decodeConformation, encodeConformation, straightConformation, toHpSequence } from "./hpModel";
+import { FoldingOptions, foldProtein } from "./simulator";
+
+export type StageKind = "annealing" | "minimization" | "refinement";
+
+export interface StageDefinition {
+  kind: StageKind;
+  steps: number;
+  label?: string;
+  // annealing: cooling schedule, defaults to the simulator's
+  startTemperature?: number;
+  endTemperature?: number;
+  // minimization / refinement: constant sampling temperature
+  temperature?: number;
+}
+
+export interface PipelineDefinition {
+  stages: StageDefinition[];
+}
+
+// Intermediate result of one stage
+export interface StageProgress {
+  stepsCompleted: number;
+  // Best conformation so far (see encodeConformation) and its energy
+  conformation?: string;
+  energy?: number;
+}
+
+export interface PipelineRun {
+  stages: StageProgress[];
+  // Best conformation of the latest stage that ran, and its energy
+  conformation: string;
+  energy: number;
+  stepsRun: number;
+  stepsCompleted: number;
+  totalSteps: number;
+  progress: number;
+  done: boolean;
+  elapsedMs: number;
+}
+
+export const STAGE_KINDS: StageKind[] = ["annealing", "minimization", "refinement"];
+
+const STAGE_LABELS: Record<StageKind, string> = {
+  annealing: "Simulated annealing",
+  minimization: "Energy minimization",
+  refinement: "Structure refinement"
+};
+
+// Minimization only accepts (almost) downhill moves; refinement samples around the minimum
+const DEFAULT_TEMPERATURES: Record<Exclude<StageKind, "annealing">, number> = {
+  minimization: 0.05,
+  refinement: 0.5
+};
+
+// Pipelines offered when creating a task. "standard" is the single annealing run every task used before
+// pipelines existed, and is assumed for records without one.
+export const PIPELINE_PRESETS: Record<string, { label: string; pipeline: PipelineDefinition }> = {
+  standard: {
+    label: "Annealing (20k steps)",
+    pipeline: { stages: [{ kind: "annealing", steps: 20000 }] }
+  },
+  minimized: {
+    label: "Annealing + minimization",
+    pipeline: { stages: [{ kind: "annealing", steps: 16000 }, { kind: "minimization", steps: 4000 }] }
+  },
+  refined: {
+    label: "Annealing + minimization + refinement",
+    pipeline: {
+      stages: [
+        { kind: "annealing", steps: 14000 },
+        { kind: "minimization", steps: 3000 },
+        { kind: "refinement", steps: 2000 },
+        { kind: "minimization", steps: 1000, label: "Final minimization" }
+      ]
+    }
+  }
+};
+
+export const DEFAULT_PIPELINE = PIPELINE_PRESETS.standard.pipeline;
+
+export const stageLabel = (stage: StageDefinition) => stage.label ?? STAGE_LABELS[stage.kind];
+
+const isPositive = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value > 0;
+
+export function pipelineIssues(pipeline: unknown): string[] {
+  const stages = (pipeline as PipelineDefinition)?.stages;
+  if (!Array.isArray(stages) || stages.length === 0) return ["pipeline has no stages"];
+  const issues: string[] = [];
+  stages.forEach((stage: StageDefinition, i) => {
+    const at = `stage ${i + 1}`;
+    if (!STAGE_KINDS.includes(stage?.kind)) issues.push(`${at}: unknown kind ${stage?.kind}`);
+    if (!Number.isInteger(stage?.steps) || stage.steps <= 0) issues.push(`${at}: steps must be a positive integer`);
+    if (stage?.label !== undefined && typeof stage.label !== "string") issues.push(`${at}: label is not a string`);
+    for (const field of ["startTemperature", "endTemperature", "temperature"] as const) {
+      if (stage?.[field] !== undefined && !isPositive(stage[field])) issues.push(`${at}: ${field} must be positive`);
+    }
+  });
+  return issues;
+}
+
+export const pipelineSteps = (pipeline: PipelineDefinition) => pipeline.stages.reduce((sum, stage) => sum + stage.steps, 0);
+
+export const emptyStages = (pipeline: PipelineDefinition): StageProgress[] => pipeline.stages.map(() => ({ stepsCompleted: 0 }));
+
+export function pipelineProgress(pipeline: PipelineDefinition, stages: StageProgress[]): number {
+  const done = pipeline.stages.reduce((sum, stage, i) => sum + Math.min(stage.steps, stages[i]?.stepsCompleted ?? 0), 0);
+  return done / pipelineSteps(pipeline);
+}
+
+// Index of the first unfinished stage, or -1 when the pipeline is done
+export const currentStage = (pipeline: PipelineDefinition, stages: StageProgress[]) =>
+  pipeline.stages.findIndex((stage, i) => (stages[i]?.stepsCompleted ?? 0) < stage.steps);
+
+function stageOptions(stage: StageDefinition): FoldingOptions {
+  if (stage.kind === "annealing") {
+    const options: FoldingOptions = { method: "annealing" };
+    if (stage.startTemperature !== undefined) options.startTemperature = stage.startTemperature;
+    if (stage.endTemperature !== undefined) options.endTemperature = stage.endTemperature;
+    return options;
+  }
+  return { method: "montecarlo", startTemperature: stage.temperature ?? DEFAULT_TEMPERATURES[stage.kind] };
+}
+
+// Folds up to `maxSteps` steps, continuing with the first unfinished stage and moving on to the next ones.
+// `initial` is where the first stage starts when it has no conformation of its own yet.
+export function runPipeline(
+  sequence: string,
+  pipeline: PipelineDefinition,
+  progress: StageProgress[],
+  maxSteps: number,
+  options: Pick<FoldingOptions, "dimension" | "seed"> & { initial?: string } = {}
+): PipelineRun {
+  const startedAt = Date.now();
+  const stages: StageProgress[] = pipeline.stages.map((_, i) => progress[i] ?? { stepsCompleted: 0 });
+  let latest = options.initial;
+  let stepsRun = 0;
+
+  for (let i = 0; i < pipeline.stages.length; i++) {
+    const stage = pipeline.stages[i];
+    latest = stages[i].conformation ?? latest;
+    const steps = Math.min(maxSteps - stepsRun, stage.steps - stages[i].stepsCompleted);
+    if (steps <= 0) {
+      if (stages[i].stepsCompleted < stage.steps) break;
+      continue;
+    }
+    const run: FoldingOptions = { ...stageOptions(stage), steps, startStep: stages[i].stepsCompleted, totalSteps: stage.steps, initial: latest };
+    if (options.dimension !== undefined) run.dimension = options.dimension;
+    if (options.seed !== undefined) run.seed = options.seed + i;
+    const result = foldProtein(sequence, run);
+    stages[i] = { stepsCompleted: result.stepsCompleted, conformation: result.encodedConformation, energy: result.energy };
+    latest = result.encodedConformation;
+    stepsRun += steps;
+  }
+
+  const hp = toHpSequence(sequence);
+  const conformation = latest ?? encodeConformation(straightConformation(hp.length));
+  const totalSteps = pipelineSteps(pipeline);
+  const stepsCompleted = pipeline.stages.reduce((sum, stage, i) => sum + Math.min(stage.steps, stages[i].stepsCompleted), 0);
+  return {
+    stages,
+    conformation,
+    energy: computeEnergy(hp, decodeConformation(conformation), options.dimension ?? 2),
+    stepsRun,
+    stepsCompleted,
+    totalSteps,
+    progress: stepsCompleted / totalSteps,
+    done: stepsCompleted >= totalSteps,
+    elapsedMs: Date.now() - startedAt
+  };
+}
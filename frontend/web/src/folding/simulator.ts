@@ -0,0 +1,205 @@
+// folding/simulator.ts
+// Monte Carlo / simulated annealing search over HP lattice conformations using
+// pull moves (Lesh, Mitzenmacher & Whitesides 2003) with end pulls.
+import {
+  Coordinate,
+  HP,
+  LatticeDimension,
+  addCoordinates,
+  areAdjacent,
+  computeEnergy,
+  decodeConformation,
+  encodeConformation,
+  findContacts,
+  isSelfAvoiding,
+  latticeSteps,
+  normalizeSequence,
+  siteKey,
+  straightConformation,
+  subtractCoordinates,
+  toHpSequence
+} from "./hpModel";
+
+export interface FoldingOptions {
+  dimension?: LatticeDimension;
+  // "annealing" cools geometrically from startTemperature to endTemperature,
+  // "montecarlo" samples at a constant startTemperature.
+  method?: "annealing" | "montecarlo";
+  steps?: number;
+  // Lets a run resume an annealing schedule that was interrupted after `startStep` steps.
+  startStep?: number;
+  totalSteps?: number;
+  startTemperature?: number;
+  endTemperature?: number;
+  seed?: number;
+  // Encoded conformation (see encodeConformation) to continue from.
+  initial?: string;
+  trajectoryInterval?: number;
+}
+
+export interface TrajectoryPoint {
+  step: number;
+  energy: number;
+  bestEnergy: number;
+  temperature: number;
+}
+
+export interface FoldingResult {
+  sequence: string;
+  hpSequence: string;
+  dimension: LatticeDimension;
+  conformation: Coordinate[];
+  encodedConformation: string;
+  energy: number;
+  contacts: [number, number][];
+  trajectory: TrajectoryPoint[];
+  stepsCompleted: number;
+  totalSteps: number;
+  acceptedMoves: number;
+  elapsedMs: number;
+}
+
+const DEFAULTS = {
+  dimension: 2 as LatticeDimension,
+  method: "annealing" as const,
+  steps: 20000,
+  startTemperature: 2.0,
+  endTemperature: 0.15,
+  trajectoryInterval: 100
+};
+
+// mulberry32: small seeded PRNG so runs are reproducible
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+const sameSite = (a: Coordinate, b: Coordinate) => a[0] === b[0] && a[1] === b[1] && a[2] === b[2];
+
+// Pulls residue i towards its neighbour `anchor` (i + 1 when direction is -1, i - 1 when
+// direction is +1) and drags the chain behind it along its previous path.
+function pullMove(
+  conformation: Coordinate[],
+  occupied: Set<string>,
+  i: number,
+  direction: 1 | -1,
+  steps: Coordinate[],
+  random: () => number
+): Coordinate[] | null {
+  const n = conformation.length;
+  const anchor = i - direction;
+  const trailing = i + direction;
+  const isEnd = trailing < 0 || trailing >= n;
+  const next = conformation.slice();
+
+  if (anchor < 0 || anchor >= n) {
+    // End pull: move the terminal residue to a free site two steps away, its neighbour in between
+    const c = addCoordinates(conformation[i], pick(steps, random));
+    const l = addCoordinates(c, pick(steps, random));
+    if (occupied.has(siteKey(c)) || occupied.has(siteKey(l)) || sameSite(c, l)) return null;
+    next[i] = l;
+    next[trailing] = c;
+    return dragChain(conformation, next, trailing, direction);
+  }
+
+  const bond = subtractCoordinates(conformation[i], conformation[anchor]);
+  const perpendicular = steps.filter(step => step[0] * bond[0] + step[1] * bond[1] + step[2] * bond[2] === 0);
+  const side = pick(perpendicular, random);
+  const l = addCoordinates(conformation[anchor], side);
+  const c = addCoordinates(conformation[i], side);
+  if (occupied.has(siteKey(l))) return null;
+
+  next[i] = l;
+  if (!isEnd && sameSite(c, conformation[trailing])) return next;
+  if (occupied.has(siteKey(c))) return null;
+  if (isEnd) return next;
+
+  next[trailing] = c;
+  return dragChain(conformation, next, trailing, direction);
+}
+
+// Residues behind the pulled pair take the positions vacated two places ahead until the chain is connected again.
+function dragChain(conformation: Coordinate[], next: Coordinate[], from: number, direction: 1 | -1): Coordinate[] {
+  for (let j = from + direction; j >= 0 && j < conformation.length; j += direction) {
+    if (areAdjacent(conformation[j], next[j - direction])) break;
+    next[j] = conformation[j - 2 * direction];
+  }
+  return next;
+}
+
+export function foldProtein(sequence: string, options: FoldingOptions = {}): FoldingResult {
+  const settings = { ...DEFAULTS, ...options };
+  const startedAt = Date.now();
+  const hp: HP[] = toHpSequence(sequence);
+  const n = hp.length;
+  const dimension = settings.dimension;
+  const steps = latticeSteps(dimension);
+  const totalSteps = settings.totalSteps ?? (settings.startStep ?? 0) + settings.steps;
+  const startStep = settings.startStep ?? 0;
+  const random = createRandom(settings.seed ?? Date.now());
+
+  let conformation = settings.initial ? decodeConformation(settings.initial) : straightConformation(n);
+  if (conformation.length !== n) throw new Error("Initial conformation does not match the sequence length");
+  if (dimension === 2 && conformation.some(c => c[2] !== 0)) throw new Error("Initial conformation is not planar");
+
+  let energy = computeEnergy(hp, conformation, dimension);
+  let best = conformation;
+  let bestEnergy = energy;
+  let acceptedMoves = 0;
+
+  const temperatureAt = (step: number) => {
+    if (settings.method === "montecarlo" || totalSteps <= 1) return settings.startTemperature;
+    const t = Math.min(1, step / (totalSteps - 1));
+    return settings.startTemperature * Math.pow(settings.endTemperature / settings.startTemperature, t);
+  };
+
+  const trajectory: TrajectoryPoint[] = [{ step: startStep, energy, bestEnergy, temperature: temperatureAt(startStep) }];
+  const endStep = Math.min(totalSteps, startStep + settings.steps);
+
+  for (let step = startStep; step < endStep; step++) {
+    const temperature = temperatureAt(step);
+    const occupied = new Set(conformation.map(siteKey));
+    const candidate = pullMove(conformation, occupied, Math.floor(random() * n), random() < 0.5 ? 1 : -1, steps, random);
+
+    if (candidate && isSelfAvoiding(candidate)) {
+      const candidateEnergy = computeEnergy(hp, candidate, dimension);
+      const delta = candidateEnergy - energy;
+      if (delta <= 0 || random() < Math.exp(-delta / temperature)) {
+        conformation = candidate;
+        energy = candidateEnergy;
+        acceptedMoves++;
+        if (energy < bestEnergy) {
+          best = conformation;
+          bestEnergy = energy;
+        }
+      }
+    }
+
+    if ((step + 1) % settings.trajectoryInterval === 0 || step + 1 === endStep) {
+      trajectory.push({ step: step + 1, energy, bestEnergy, temperature });
+    }
+  }
+
+  return {
+    sequence: normalizeSequence(sequence),
+    hpSequence: hp.join(""),
+    dimension,
+    conformation: best,
+    encodedConformation: encodeConformation(best),
+    energy: bestEnergy,
+    contacts: findContacts(hp, best, dimension),
+    trajectory,
+    stepsCompleted: endStep,
+    totalSteps,
+    acceptedMoves,
+    elapsedMs: Date.now() - startedAt
+  };
+}
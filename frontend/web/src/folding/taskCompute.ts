@@ -0,0 +1,32 @@
+// folding/taskCompute.ts
+// Shared by the web UI and the worker CLI so both fold tasks with the same pipelines.
+import { DEFAULT_PIPELINE, PipelineDefinition, PipelineRun, StageProgress, emptyStages, runPipeline } from "./pipeline";
+
+// 蛋白质折叠计算 - HP 格点模型 (拉动移动 + 模拟退火), 按任务声明的流水线分阶段执行
+export const FOLDING_DIMENSION = 3;
+
+export const taskPipeline = (taskData: { pipeline?: PipelineDefinition }): PipelineDefinition => taskData.pipeline ?? DEFAULT_PIPELINE;
+
+export const taskStages = (taskData: { pipeline?: PipelineDefinition; stages?: StageProgress[] }): StageProgress[] =>
+  taskData.stages ?? emptyStages(taskPipeline(taskData));
+
+// 从各阶段保存的进度继续, 最多执行 maxSteps 步
+export const FHEProteinFoldingCompute = (
+  taskData: { sequence?: string; pipeline?: PipelineDefinition; stages?: StageProgress[] },
+  maxSteps: number
+): PipelineRun => {
+  if (!taskData.sequence) throw new Error("Task has no amino acid sequence");
+  return runPipeline(taskData.sequence, taskPipeline(taskData), taskStages(taskData), maxSteps, {
+    dimension: FOLDING_DIMENSION,
+    seed: Date.now()
+  });
+};
+
+// Record fields written back after a run; the top-level conformation and step count summarise the stages.
+// The energy is left out: records are public, so it is only stored as the encrypted structure.
+export const pipelineRecordFields = (run: PipelineRun) => ({
+  stages: run.stages.map(({ energy, ...progress }) => progress),
+  conformation: run.conformation,
+  stepsCompleted: run.stepsCompleted,
+  foldingProgress: run.progress
+});
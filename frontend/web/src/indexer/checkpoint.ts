@@ -0,0 +1,48 @@
+// indexer/checkpoint.ts
+// Persistent indexer state. The browser keeps it in IndexedDB (indexedDbCheckpointStore.ts), Node tooling
+// in a JSON file (fileCheckpointStore.ts).
+
+export const CHECKPOINT_VERSION = 1;
+
+export interface StoredEntry {
+  // Hex encoded bytes as emitted by DataStored
+  value: string;
+  sender: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+export interface Checkpoint {
+  version: number;
+  chainId: string;
+  address: string;
+  // First block scanned (the adapter deployment block)
+  startBlock: number;
+  // Last confirmed block folded into `entries`, and its hash for reorg detection
+  block: number;
+  blockHash: string | null;
+  entries: Record<string, StoredEntry>;
+}
+
+export interface CheckpointStore {
+  load(id: string): Promise<Checkpoint | null>;
+  save(id: string, checkpoint: Checkpoint): Promise<void>;
+  clear(id: string): Promise<void>;
+}
+
+export class MemoryCheckpointStore implements CheckpointStore {
+  private checkpoints = new Map<string, Checkpoint>();
+
+  async load(id: string) {
+    const checkpoint = this.checkpoints.get(id);
+    return checkpoint ? structuredClone(checkpoint) : null;
+  }
+
+  async save(id: string, checkpoint: Checkpoint) {
+    this.checkpoints.set(id, structuredClone(checkpoint));
+  }
+
+  async clear(id: string) {
+    this.checkpoints.delete(id);
+  }
+}
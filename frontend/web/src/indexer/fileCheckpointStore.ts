@@ -0,0 +1,43 @@
+// indexer/fileCheckpointStore.ts
+// Node-only checkpoint store: one JSON file holding every checkpoint by id.
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { CHECKPOINT_VERSION, Checkpoint, CheckpointStore } from "./checkpoint";
+
+export class FileCheckpointStore implements CheckpointStore {
+  constructor(private readonly path: string) {}
+
+  private async readAll(): Promise<Record<string, Checkpoint>> {
+    try {
+      return JSON.parse(await readFile(this.path, "utf8"));
+    } catch (e) {
+      if (e instanceof Error && "code" in e && e.code === "ENOENT") return {};
+      throw e;
+    }
+  }
+
+  // Write to a temporary file and rename so an interrupted save never leaves a truncated checkpoint
+  private async writeAll(checkpoints: Record<string, Checkpoint>) {
+    await mkdir(dirname(this.path), { recursive: true });
+    const temporary = `${this.path}.${process.pid}.tmp`;
+    await writeFile(temporary, JSON.stringify(checkpoints));
+    await rename(temporary, this.path);
+  }
+
+  async load(id: string) {
+    const checkpoint = (await this.readAll())[id];
+    return checkpoint?.version === CHECKPOINT_VERSION ? checkpoint : null;
+  }
+
+  async save(id: string, checkpoint: Checkpoint) {
+    const checkpoints = await this.readAll();
+    checkpoints[id] = checkpoint;
+    await this.writeAll(checkpoints);
+  }
+
+  async clear(id: string) {
+    const checkpoints = await this.readAll();
+    delete checkpoints[id];
+    await this.writeAll(checkpoints);
+  }
+}
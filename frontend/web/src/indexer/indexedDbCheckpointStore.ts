@@ -0,0 +1,45 @@
+// indexer/indexedDbCheckpointStore.ts
+import { CHECKPOINT_VERSION, Checkpoint, CheckpointStore, MemoryCheckpointStore } from "./checkpoint";
+
+const DB_NAME = "protein-folding-indexer";
+const STORE_NAME = "checkpoints";
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export class IndexedDbCheckpointStore implements CheckpointStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(STORE_NAME);
+      this.db = request(req);
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode) {
+    return (await this.open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async load(id: string) {
+    const checkpoint = await request<Checkpoint | undefined>((await this.store("readonly")).get(id));
+    return checkpoint?.version === CHECKPOINT_VERSION ? checkpoint : null;
+  }
+
+  async save(id: string, checkpoint: Checkpoint) {
+    await request((await this.store("readwrite")).put(checkpoint, id));
+  }
+
+  async clear(id: string) {
+    await request((await this.store("readwrite")).delete(id));
+  }
+}
+
+export function createBrowserCheckpointStore(): CheckpointStore {
+  return typeof indexedDB !== "undefined" ? new IndexedDbCheckpointStore() : new MemoryCheckpointStore();
+}
@@ -0,0 +1,230 @@
+// indexer/taskIndexer.ts
+// Rebuilds the UniversalAdapter key/value state from DataStored logs instead of calling getData per key.
+//
+// Logs older than `confirmations` blocks are folded into a persisted checkpoint. The unconfirmed tail is
+// fetched again on every sync, so shallow reorgs simply replace it; if the checkpoint block itself is no
+// longer canonical the index is rebuilt from the deployment block.
+import { ethers } from "ethers";
+import { CHECKPOINT_VERSION, Checkpoint, CheckpointStore, MemoryCheckpointStore, StoredEntry } from "./checkpoint";
+
+const DATA_STORED = new ethers.Interface(["event DataStored(address indexed sender, string key, bytes value)"]);
+const DATA_STORED_TOPIC = DATA_STORED.getEvent("DataStored")!.topicHash;
+
+export interface TaskIndexerOptions {
+  provider: ethers.Provider;
+  address: string;
+  store?: CheckpointStore;
+  // Defaults to the adapter deployment block, located with getCode
+  fromBlock?: number;
+  chunkSize?: number;
+  confirmations?: number;
+}
+
+export type IndexerEvent = { type: "change" } | { type: "reorg"; block: number } | { type: "error"; error: unknown };
+
+export type Unsubscribe = () => void;
+
+// Binary search for the first block where `address` has code.
+export async function findDeploymentBlock(provider: ethers.Provider, address: string, head?: number): Promise<number> {
+  let high = head ?? (await provider.getBlockNumber());
+  if ((await provider.getCode(address, high)) === "0x") throw new Error(`No contract deployed at ${address}`);
+  let low = 0;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if ((await provider.getCode(address, middle)) === "0x") low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
+
+const RANGE_ERROR = /range|limit|too many|exceed|10000|query returned more/i;
+
+const messageOf = (value: unknown) =>
+  typeof value === "object" && value !== null && "message" in value ? String(value.message) : undefined;
+
+// RPC providers word their block-range limits differently, and some nest the JSON-RPC error under `error`
+export const isRangeError = (e: unknown) => {
+  const nested = typeof e === "object" && e !== null && "error" in e ? messageOf(e.error) : undefined;
+  return RANGE_ERROR.test(nested ?? messageOf(e) ?? String(e));
+};
+
+export class TaskIndexer {
+  readonly provider: ethers.Provider;
+  readonly address: string;
+  private readonly store: CheckpointStore;
+  private readonly fromBlock?: number;
+  private readonly confirmations: number;
+  private chunkSize: number;
+
+  private checkpoint: Checkpoint | null = null;
+  private pending: StoredEntry[] = [];
+  private pendingKeys: string[] = [];
+  private pendingSignature = "";
+  private head = -1;
+  private syncing: Promise<boolean> | null = null;
+  private listeners = new Set<(event: IndexerEvent) => void>();
+
+  constructor(options: TaskIndexerOptions) {
+    this.provider = options.provider;
+    this.address = ethers.getAddress(options.address);
+    this.store = options.store ?? new MemoryCheckpointStore();
+    this.fromBlock = options.fromBlock;
+    this.chunkSize = options.chunkSize ?? 2000;
+    this.confirmations = options.confirmations ?? 6;
+  }
+
+  get syncedBlock(): number {
+    return this.head;
+  }
+
+  on(listener: (event: IndexerEvent) => void): Unsubscribe {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Latest value for a key, including unconfirmed writes
+  getEntry(key: string): StoredEntry | undefined {
+    const index = this.pendingKeys.lastIndexOf(key);
+    return index >= 0 ? this.pending[index] : this.checkpoint?.entries[key];
+  }
+
+  // Every key written so far, including unconfirmed writes
+  getKeys(): string[] {
+    return [...new Set([...Object.keys(this.checkpoint?.entries ?? {}), ...this.pendingKeys])];
+  }
+
+  // Catches up to the chain head. Concurrent callers share one run; resolves true if the state changed.
+  sync(): Promise<boolean> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  // Follows new blocks until the returned function is called.
+  subscribe(): Unsubscribe {
+    const onBlock = () => {
+      this.sync().catch(error => this.emit({ type: "error", error }));
+    };
+    this.provider.on("block", onBlock);
+    onBlock();
+    return () => {
+      this.provider.off("block", onBlock);
+    };
+  }
+
+  async reset(): Promise<void> {
+    await this.store.clear(await this.checkpointId());
+    this.checkpoint = null;
+    this.pending = [];
+    this.pendingKeys = [];
+    this.pendingSignature = "";
+    this.head = -1;
+  }
+
+  private emit(event: IndexerEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private async checkpointId() {
+    const { chainId } = await this.provider.getNetwork();
+    return `${chainId}:${this.address.toLowerCase()}`;
+  }
+
+  private async loadCheckpoint(head: number): Promise<Checkpoint> {
+    const id = await this.checkpointId();
+    const stored = await this.store.load(id);
+    if (stored) return stored;
+    const { chainId } = await this.provider.getNetwork();
+    const startBlock = this.fromBlock ?? (await findDeploymentBlock(this.provider, this.address, head));
+    return {
+      version: CHECKPOINT_VERSION,
+      chainId: chainId.toString(),
+      address: this.address,
+      startBlock,
+      block: startBlock - 1,
+      blockHash: null,
+      entries: {}
+    };
+  }
+
+  private async isCanonical(checkpoint: Checkpoint) {
+    if (checkpoint.blockHash === null) return true;
+    const block = await this.provider.getBlock(checkpoint.block);
+    return block?.hash === checkpoint.blockHash;
+  }
+
+  private async runSync(): Promise<boolean> {
+    const head = await this.provider.getBlockNumber();
+    let checkpoint = this.checkpoint ?? (await this.loadCheckpoint(head));
+    let changed = this.checkpoint === null;
+
+    if (!(await this.isCanonical(checkpoint))) {
+      this.emit({ type: "reorg", block: checkpoint.block });
+      await this.store.clear(await this.checkpointId());
+      checkpoint = { ...checkpoint, block: checkpoint.startBlock - 1, blockHash: null, entries: {} };
+      changed = true;
+    }
+    this.checkpoint = checkpoint;
+
+    // Fold confirmed blocks into the checkpoint, saving after every chunk so a reload resumes where it stopped
+    const safeBlock = head - this.confirmations;
+    const id = await this.checkpointId();
+    while (checkpoint.block < safeBlock) {
+      const from = checkpoint.block + 1;
+      const { logs, to } = await this.fetchLogs(from, safeBlock);
+      for (const entry of logs) checkpoint.entries[entry.key] = entry.entry;
+      const block = await this.provider.getBlock(to);
+      checkpoint.block = to;
+      checkpoint.blockHash = block?.hash ?? null;
+      await this.store.save(id, checkpoint);
+      changed = changed || logs.length > 0;
+    }
+
+    // Unconfirmed tail, replaced wholesale on every sync
+    const tail: { key: string; entry: StoredEntry }[] = [];
+    for (let from = checkpoint.block + 1; from <= head; ) {
+      const { logs, to } = await this.fetchLogs(from, head);
+      tail.push(...logs);
+      from = to + 1;
+    }
+    const signature = tail.map(({ entry }) => `${entry.blockNumber}:${entry.logIndex}`).join(",");
+    this.pending = tail.map(({ entry }) => entry);
+    this.pendingKeys = tail.map(({ key }) => key);
+    changed = changed || signature !== this.pendingSignature;
+    this.pendingSignature = signature;
+    this.head = head;
+
+    if (changed) this.emit({ type: "change" });
+    return changed;
+  }
+
+  // Fetches one chunk starting at `from`, shrinking the chunk when the RPC rejects the range.
+  private async fetchLogs(from: number, until: number) {
+    for (;;) {
+      const to = Math.min(until, from + this.chunkSize - 1);
+      try {
+        const logs = await this.provider.getLogs({ address: this.address, topics: [DATA_STORED_TOPIC], fromBlock: from, toBlock: to });
+        return { to, logs: logs.map(log => this.decode(log)) };
+      } catch (e) {
+        if (!isRangeError(e) || this.chunkSize <= 1) throw e;
+        this.chunkSize = Math.max(1, Math.floor(this.chunkSize / 2));
+      }
+    }
+  }
+
+  private decode(log: ethers.Log) {
+    const parsed = DATA_STORED.parseLog(log)!;
+    return {
+      key: parsed.args.key as string,
+      entry: {
+        value: ethers.hexlify(parsed.args.value),
+        sender: parsed.args.sender as string,
+        blockNumber: log.blockNumber,
+        logIndex: log.index
+      }
+    };
+  }
+}
@@ -0,0 +1,153 @@
+// network/profiles.ts
+// Named network profiles. VITE_NETWORK_PROFILE picks the default at build time and VITE_<PROFILE>_* variables
+// override single fields (e.g. VITE_SEPOLIA_RPC_URLS, VITE_LOCALHOST_ADAPTER_ADDRESS). At runtime the user can
+// switch profiles and edit the custom one; both choices are kept in localStorage.
+import { ethers } from "ethers";
+import configJson from "../config.json";
+import deploymentsJson from "./deployments.json";
+
+export type ProfileName = "localhost" | "sepolia" | "custom";
+
+export type FheBackendKind = "relayer" | "mock-relayer" | "local";
+
+export interface NetworkProfile {
+  name: ProfileName;
+  label: string;
+  chainId: number;
+  // Tried in order until one answers
+  rpcUrls: string[];
+  contracts: {
+    adapter: string;
+    folding?: string;
+  };
+  relayerUrl?: string;
+  fheBackend: FheBackendKind;
+}
+
+export type CustomProfileInput = Partial<Omit<NetworkProfile, "name" | "label">>;
+
+export const PROFILE_NAMES: ProfileName[] = ["localhost", "sepolia", "custom"];
+
+const ACTIVE_PROFILE_KEY = "network-profile";
+const CUSTOM_PROFILE_KEY = "network-profile:custom";
+
+// Written by `npx hardhat deploy`; a profile falls back to the addresses below until it has been deployed
+const DEPLOYED: Partial<Record<ProfileName, { adapter: string; folding: string }>> = deploymentsJson;
+
+const BUILT_IN: Record<ProfileName, NetworkProfile> = {
+  localhost: {
+    name: "localhost",
+    label: "Localhost (hardhat)",
+    chainId: 31337,
+    rpcUrls: ["http://127.0.0.1:8545"],
+    // First deployments from the default hardhat account, as made by task:local-stack
+    contracts: {
+      adapter: DEPLOYED.localhost?.adapter ?? "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+      folding: DEPLOYED.localhost?.folding ?? "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512"
+    },
+    relayerUrl: "http://127.0.0.1:8645",
+    fheBackend: "mock-relayer"
+  },
+  sepolia: {
+    name: "sepolia",
+    label: "Sepolia",
+    chainId: 11155111,
+    rpcUrls: [configJson.network, "https://rpc.sepolia.org", "https://rpc2.sepolia.org", "https://eth-sepolia.public.blastapi.io"],
+    contracts: { adapter: DEPLOYED.sepolia?.adapter ?? configJson.contractAddress, folding: DEPLOYED.sepolia?.folding },
+    relayerUrl: "https://relayer.testnet.zama.cloud",
+    fheBackend: "relayer"
+  },
+  custom: {
+    name: "custom",
+    label: "Custom",
+    chainId: 0,
+    rpcUrls: [],
+    contracts: { adapter: "" },
+    fheBackend: "relayer"
+  }
+};
+
+// Only VITE_* variables reach the bundle; .env files (e.g. the .env.local written by task:local-stack) override the shell
+const env: Record<string, string | undefined> = import.meta.env;
+
+const envValue = (name: ProfileName, key: string): string | undefined =>
+  env[`VITE_${name.toUpperCase()}_${key}`] || undefined;
+
+const envList = (value?: string) => value?.split(",").map(item => item.trim()).filter(Boolean);
+
+function withEnv(profile: NetworkProfile): NetworkProfile {
+  const { name } = profile;
+  const chainId = envValue(name, "CHAIN_ID");
+  return {
+    ...profile,
+    chainId: chainId ? Number(chainId) : profile.chainId,
+    rpcUrls: envList(envValue(name, "RPC_URLS")) ?? profile.rpcUrls,
+    contracts: {
+      adapter: envValue(name, "ADAPTER_ADDRESS") ?? profile.contracts.adapter,
+      folding: envValue(name, "FOLDING_ADDRESS") ?? profile.contracts.folding
+    },
+    relayerUrl: envValue(name, "RELAYER_URL") ?? profile.relayerUrl,
+    fheBackend: (envValue(name, "FHE_BACKEND") as FheBackendKind | undefined) ?? profile.fheBackend
+  };
+}
+
+function readStorage<T>(key: string): T | undefined {
+  try {
+    const raw = typeof localStorage === "undefined" ? null : localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function getProfile(name: ProfileName): NetworkProfile {
+  const profile = withEnv(BUILT_IN[name]);
+  if (name !== "custom") return profile;
+  const saved = readStorage<CustomProfileInput>(CUSTOM_PROFILE_KEY) ?? {};
+  return { ...profile, ...saved, contracts: { ...profile.contracts, ...saved.contracts }, name, label: profile.label };
+}
+
+// A profile can be used once it names a chain, an RPC endpoint and the adapter contract
+export function profileIssues(profile: NetworkProfile): string[] {
+  const issues: string[] = [];
+  if (!Number.isInteger(profile.chainId) || profile.chainId <= 0) issues.push("chain ID is missing");
+  if (profile.rpcUrls.length === 0) issues.push("no RPC endpoint");
+  if (!ethers.isAddress(profile.contracts.adapter)) issues.push("adapter address is missing or invalid");
+  if (profile.contracts.folding && !ethers.isAddress(profile.contracts.folding)) issues.push("folding address is invalid");
+  if (profile.fheBackend === "mock-relayer" && !profile.relayerUrl) issues.push("mock relayer URL is missing");
+  return issues;
+}
+
+export function listProfiles(): NetworkProfile[] {
+  return PROFILE_NAMES.map(getProfile);
+}
+
+export function defaultProfileName(): ProfileName {
+  const name = env.VITE_NETWORK_PROFILE as ProfileName | undefined;
+  return name && PROFILE_NAMES.includes(name) ? name : "sepolia";
+}
+
+let active: NetworkProfile | null = null;
+
+// The runtime choice wins over the build default, unless it is no longer usable
+export function getActiveProfile(): NetworkProfile {
+  if (!active) {
+    const selected = readStorage<ProfileName>(ACTIVE_PROFILE_KEY);
+    const candidate = selected && PROFILE_NAMES.includes(selected) ? getProfile(selected) : undefined;
+    active = candidate && profileIssues(candidate).length === 0 ? candidate : getProfile(defaultProfileName());
+  }
+  return active;
+}
+
+// Providers, the indexer and the FHE backend are created once per page, so callers reload after switching
+export function selectProfile(name: ProfileName) {
+  const issues = profileIssues(getProfile(name));
+  if (issues.length > 0) throw new Error(`Profile ${name} is incomplete: ${issues.join(", ")}`);
+  localStorage.setItem(ACTIVE_PROFILE_KEY, JSON.stringify(name));
+  active = null;
+}
+
+export function saveCustomProfile(input: CustomProfileInput) {
+  localStorage.setItem(CUSTOM_PROFILE_KEY, JSON.stringify(input));
+  if (active?.name === "custom") active = null;
+}
@@ -0,0 +1,253 @@
+// network/providerPool.ts
+// Read-only provider over all RPC endpoints of a profile. Every request goes to the healthiest endpoint,
+// ranked by recent error rate and latency, and fails over to the next one when an endpoint errors or times
+// out. Endpoints that keep failing sit out a cooldown and are tried again afterwards, so a session keeps
+// working through outages without a reload.
+import { ethers } from "ethers";
+
+export type EndpointState = "healthy" | "degraded" | "cooling-down";
+
+export interface EndpointHealth {
+  url: string;
+  state: EndpointState;
+  // Moving average in ms; undefined until the endpoint has answered once
+  latency?: number;
+  // Share of failed requests among the recent ones
+  errorRate: number;
+  requests: number;
+  failures: number;
+  lastError?: string;
+  lastBlock?: number;
+  cooldownUntil?: number;
+}
+
+export interface ProviderPoolOptions {
+  // Per-request timeout in ms
+  timeout?: number;
+  // How long an endpoint sits out after `maxConsecutiveFailures` failures in a row
+  cooldown?: number;
+  maxConsecutiveFailures?: number;
+}
+
+export interface QuorumOptions<T> {
+  // Matching answers required; capped at the number of endpoints
+  quorum?: number;
+  // Key under which answers are compared, JSON by default
+  key?: (value: T) => string;
+}
+
+export class ProviderPoolError extends Error {
+  constructor(message: string, readonly errors: unknown[]) {
+    super(message);
+    this.name = "ProviderPoolError";
+  }
+}
+
+export class QuorumError extends ProviderPoolError {
+  constructor(readonly quorum: number, readonly answers: Record<string, number>, errors: unknown[]) {
+    super(`No ${quorum} endpoints agreed (${Object.values(answers).join("/") || "no"} matching answers)`, errors);
+    this.name = "QuorumError";
+  }
+}
+
+const RECENT_WINDOW = 20;
+const LATENCY_WEIGHT = 0.3;
+
+interface Endpoint {
+  url: string;
+  provider: ethers.JsonRpcProvider;
+  recent: boolean[];
+  latency?: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastBlock?: number;
+  cooldownUntil?: number;
+}
+
+// Errors that any healthy endpoint would return as well; they say nothing about the endpoint
+const isRequestError = (e: unknown) =>
+  ethers.isError(e, "CALL_EXCEPTION") || ethers.isError(e, "INVALID_ARGUMENT") || ethers.isError(e, "NUMERIC_FAULT");
+
+const jsonKey = (value: unknown) => JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v));
+
+// ethers errors carry the message without the request details in `shortMessage`
+const errorMessage = (e: unknown) =>
+  e instanceof Error ? ("shortMessage" in e && typeof e.shortMessage === "string" ? e.shortMessage : e.message) : String(e);
+
+function withTimeout<T>(promise: Promise<T>, ms: number, url: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`RPC timeout after ${ms}ms (${url})`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export class ProviderPool extends ethers.AbstractProvider {
+  readonly network: ethers.Network;
+  private readonly endpoints: Endpoint[];
+  private readonly timeout: number;
+  private readonly cooldown: number;
+  private readonly maxConsecutiveFailures: number;
+  private readonly healthListeners = new Set<(health: EndpointHealth[]) => void>();
+
+  constructor(urls: string[], network: { name: string; chainId: number }, options: ProviderPoolOptions = {}) {
+    if (urls.length === 0) throw new Error("A provider pool needs at least one RPC endpoint");
+    const staticNetwork = ethers.Network.from(network);
+    super(staticNetwork);
+    this.network = staticNetwork;
+    this.timeout = options.timeout ?? 10000;
+    this.cooldown = options.cooldown ?? 30000;
+    this.maxConsecutiveFailures = options.maxConsecutiveFailures ?? 3;
+    this.endpoints = urls.map(url => ({
+      url,
+      provider: new ethers.JsonRpcProvider(url, staticNetwork, { staticNetwork }),
+      recent: [],
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0
+    }));
+  }
+
+  async _detectNetwork(): Promise<ethers.Network> {
+    return this.network;
+  }
+
+  async _perform<T = any>(req: ethers.PerformActionRequest): Promise<T> {
+    const errors: unknown[] = [];
+    for (const endpoint of this.ranked()) {
+      try {
+        const result = await this.attempt(endpoint, () => endpoint.provider._perform(req) as Promise<T>);
+        if (req.method === "getBlockNumber") endpoint.lastBlock = Number(result);
+        return result;
+      } catch (e) {
+        if (isRequestError(e)) throw e;
+        errors.push(e);
+      }
+    }
+    throw new ProviderPoolError(`All ${this.endpoints.length} RPC endpoints failed for ${req.method}`, errors);
+  }
+
+  // Runs `read` against several endpoints and returns the first answer given by `quorum` of them. Meant for
+  // data a decision depends on, where one lagging or misbehaving endpoint should not be trusted alone.
+  async quorum<T>(read: (provider: ethers.Provider) => Promise<T>, options: QuorumOptions<T> = {}): Promise<T> {
+    const key = options.key ?? jsonKey;
+    const quorum = Math.max(1, Math.min(options.quorum ?? 2, this.endpoints.length));
+    const queue = this.ranked();
+    const answers = new Map<string, { value: T; count: number }>();
+    const errors: unknown[] = [];
+
+    while (queue.length > 0) {
+      // Ask just enough endpoints that the best answer so far could reach the quorum
+      const best = Math.max(0, ...[...answers.values()].map(a => a.count));
+      const batch = queue.splice(0, quorum - best);
+      const results = await Promise.allSettled(batch.map(endpoint => this.attempt(endpoint, () => read(endpoint.provider))));
+      for (const result of results) {
+        if (result.status === "rejected") {
+          errors.push(result.reason);
+          continue;
+        }
+        const answer = answers.get(key(result.value)) ?? { value: result.value, count: 0 };
+        answer.count++;
+        answers.set(key(result.value), answer);
+        if (answer.count >= quorum) return answer.value;
+      }
+    }
+    const counts = Object.fromEntries([...answers].map(([k, a]) => [k, a.count]));
+    throw new QuorumError(quorum, counts, errors);
+  }
+
+  // Asks every endpoint for its head block and chain ID, e.g. to refresh the health view
+  async probe(): Promise<EndpointHealth[]> {
+    await Promise.allSettled(
+      this.endpoints.map(endpoint =>
+        this.attempt(endpoint, async () => {
+          const chainId = Number(await endpoint.provider.send("eth_chainId", []));
+          if (chainId !== Number(this.network.chainId)) throw new Error(`Endpoint is on chain ${chainId}`);
+          endpoint.lastBlock = Number(await endpoint.provider._perform({ method: "getBlockNumber" }));
+        })
+      )
+    );
+    return this.health();
+  }
+
+  health(): EndpointHealth[] {
+    const now = Date.now();
+    return this.endpoints.map(endpoint => {
+      const errorRate = this.errorRate(endpoint);
+      const coolingDown = endpoint.cooldownUntil !== undefined && endpoint.cooldownUntil > now;
+      return {
+        url: endpoint.url,
+        state: coolingDown ? "cooling-down" : errorRate > 0.2 ? "degraded" : "healthy",
+        latency: endpoint.latency,
+        errorRate,
+        requests: endpoint.requests,
+        failures: endpoint.failures,
+        lastError: endpoint.lastError,
+        lastBlock: endpoint.lastBlock,
+        cooldownUntil: coolingDown ? endpoint.cooldownUntil : undefined
+      };
+    });
+  }
+
+  onHealthChange(listener: (health: EndpointHealth[]) => void): () => void {
+    this.healthListeners.add(listener);
+    return () => this.healthListeners.delete(listener);
+  }
+
+  destroy(): void {
+    this.healthListeners.clear();
+    for (const endpoint of this.endpoints) endpoint.provider.destroy();
+    super.destroy();
+  }
+
+  private errorRate(endpoint: Endpoint) {
+    return endpoint.recent.length === 0 ? 0 : endpoint.recent.filter(ok => !ok).length / endpoint.recent.length;
+  }
+
+  // Healthiest first: endpoints in cooldown go last, the others by latency scaled up by their error rate.
+  // Endpoints that have not answered yet count as fast so that they get measured.
+  private ranked(): Endpoint[] {
+    const now = Date.now();
+    const score = (endpoint: Endpoint) => (endpoint.latency ?? 0) * (1 + 4 * this.errorRate(endpoint));
+    const coolingDown = (endpoint: Endpoint) => (endpoint.cooldownUntil ?? 0) > now;
+    return [...this.endpoints].sort((a, b) => Number(coolingDown(a)) - Number(coolingDown(b)) || score(a) - score(b));
+  }
+
+  private async attempt<T>(endpoint: Endpoint, fn: () => Promise<T>): Promise<T> {
+    const started = Date.now();
+    endpoint.requests++;
+    try {
+      const result = await withTimeout(fn(), this.timeout, endpoint.url);
+      this.record(endpoint, true, Date.now() - started);
+      return result;
+    } catch (e) {
+      if (isRequestError(e)) {
+        // The endpoint answered; the request itself was bad
+        this.record(endpoint, true, Date.now() - started);
+      } else {
+        endpoint.lastError = errorMessage(e);
+        this.record(endpoint, false);
+      }
+      throw e;
+    }
+  }
+
+  private record(endpoint: Endpoint, ok: boolean, latency?: number) {
+    endpoint.recent = [...endpoint.recent, ok].slice(-RECENT_WINDOW);
+    if (ok) {
+      endpoint.consecutiveFailures = 0;
+      endpoint.cooldownUntil = undefined;
+      if (latency !== undefined) {
+        endpoint.latency = endpoint.latency === undefined ? latency : endpoint.latency + LATENCY_WEIGHT * (latency - endpoint.latency);
+      }
+    } else {
+      endpoint.failures++;
+      endpoint.consecutiveFailures++;
+      if (endpoint.consecutiveFailures >= this.maxConsecutiveFailures) endpoint.cooldownUntil = Date.now() + this.cooldown;
+    }
+    const health = this.health();
+    this.healthListeners.forEach(listener => listener(health));
+  }
+}
@@ -0,0 +1,105 @@
+// proteinFolding/access.ts
+// Who may user-decrypt which ProteinFoldingFHE ciphertexts, rebuilt from indexed events. Providers read their own
+// submissions; grants add collaborators to a submission or to the total of a closed batch. The ACL cannot revoke
+// access, so grants only ever accumulate.
+import { ethers } from "ethers";
+import { MIN_SUBMISSIONS_FOR_TOTAL } from "./client";
+import type { FoldingEvent } from "./eventIndex";
+import { ProjectSummary, canManageProject, listProjects } from "./projects";
+
+export type CiphertextKind = "submission" | "batch-total";
+
+export interface AccessEntry {
+  kind: CiphertextKind;
+  // euint32 handle as emitted by FoldingDataSubmitted or BatchClosed
+  handle: string;
+  projectId: bigint;
+  batchId: bigint;
+  // Set for submissions
+  submissionId?: bigint;
+  provider?: string;
+  // Set for batch totals
+  submissionCount?: number;
+  // Collaborators in the order they were granted access
+  grantees: string[];
+}
+
+const submissionKey = (submissionId: bigint) => `submission:${submissionId}`;
+const totalKey = (projectId: bigint, batchId: bigint) => `total:${projectId}:${batchId}`;
+
+export const accessKey = (entry: AccessEntry) =>
+  entry.kind === "submission" ? submissionKey(entry.submissionId!) : totalKey(entry.projectId, entry.batchId);
+
+// Submissions and closed batch totals in event order
+export function listAccess(events: FoldingEvent[]): AccessEntry[] {
+  const entries = new Map<string, AccessEntry>();
+  for (const { name, args } of events) {
+    if (name === "FoldingDataSubmitted") {
+      const entry: AccessEntry = {
+        kind: "submission",
+        handle: args.encryptedScore,
+        projectId: args.projectId,
+        batchId: args.batchId,
+        submissionId: args.submissionId,
+        provider: ethers.getAddress(args.provider),
+        grantees: []
+      };
+      entries.set(accessKey(entry), entry);
+    } else if (name === "BatchClosed") {
+      const entry: AccessEntry = {
+        kind: "batch-total",
+        handle: args.totalScore,
+        projectId: args.projectId,
+        batchId: args.batchId,
+        submissionCount: Number(args.submissionCount),
+        grantees: []
+      };
+      entries.set(accessKey(entry), entry);
+    } else if (name === "SubmissionAccessGranted") {
+      entries.get(submissionKey(args.submissionId))?.grantees.push(ethers.getAddress(args.grantee));
+    } else if (name === "BatchTotalAccessGranted") {
+      entries.get(totalKey(args.projectId, args.batchId))?.grantees.push(ethers.getAddress(args.grantee));
+    }
+  }
+  return [...entries.values()];
+}
+
+// The account's own submissions and every ciphertext granted to it
+export function readableBy(entries: AccessEntry[], account: string): AccessEntry[] {
+  const reader = ethers.getAddress(account);
+  return entries.filter(entry => entry.provider === reader || entry.grantees.includes(reader));
+}
+
+// The account's own submissions and the totals of batches in projects it manages. Totals of batches with fewer
+// than MIN_SUBMISSIONS_FOR_TOTAL submissions would give away a score next to the revealed best one.
+export function shareableBy(entries: AccessEntry[], account: string, projects: ProjectSummary[], owner: string | null): AccessEntry[] {
+  const sharer = ethers.getAddress(account);
+  return entries.filter(entry => {
+    if (entry.kind === "submission") return entry.provider === sharer;
+    if ((entry.submissionCount ?? 0) < MIN_SUBMISSIONS_FOR_TOTAL) return false;
+    const project = projects.find(p => p.id === entry.projectId);
+    return !!project && canManageProject(project, sharer, owner);
+  });
+}
+
+export function describeCiphertext(entry: AccessEntry): string {
+  const batch = `project #${entry.projectId} batch #${entry.batchId}`;
+  return entry.kind === "submission" ? `Submission #${entry.submissionId} to ${batch}` : `Total of ${batch}`;
+}
+
+// Accounts ProteinFoldingFHE may have given access to, labelled for display. An account keeps the first label it
+// gets, so the owner stays "owner" when it also manages a project.
+export function knownParties(events: FoldingEvent[], owner: string | null): Map<string, string> {
+  const parties = new Map<string, string>();
+  const add = (address: string, label: string) => {
+    const account = ethers.getAddress(address);
+    if (!parties.has(account)) parties.set(account, label);
+  };
+  if (owner) add(owner, "owner");
+  listProjects(events).forEach(project => add(project.manager, `manager of project #${project.id}`));
+  for (const entry of listAccess(events)) {
+    if (entry.provider) add(entry.provider, "provider");
+    entry.grantees.forEach(grantee => add(grantee, "collaborator"));
+  }
+  return parties;
+}
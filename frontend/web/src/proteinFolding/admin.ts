@@ -0,0 +1,89 @@
+// proteinFolding/admin.ts
+// Provider allowlist and history of owner settings, rebuilt from indexed events. The constructor makes the
+// deployer a provider without emitting ProviderAdded, so the deployer is taken to be the previous owner in
+// the first OwnershipTransferred, or the current owner if ownership never moved.
+import { ethers } from "ethers";
+import type { FoldingEvent } from "./eventIndex";
+
+export type AdminChange =
+  | { kind: "ownership"; previousOwner: string; newOwner: string; blockNumber: number }
+  | { kind: "provider-added" | "provider-removed"; provider: string; blockNumber: number }
+  | { kind: "pause"; paused: boolean; blockNumber: number }
+  | { kind: "cooldown"; previousSeconds: bigint; seconds: bigint; blockNumber: number }
+  | { kind: "project-created"; projectId: bigint; name: string; manager: string; blockNumber: number }
+  | { kind: "project-manager"; projectId: bigint; previousManager: string; newManager: string; blockNumber: number };
+
+export function contractDeployer(events: FoldingEvent[], owner: string): string {
+  const transfer = events.find(event => event.name === "OwnershipTransferred");
+  return ethers.getAddress(transfer ? transfer.args.previousOwner : owner);
+}
+
+// Current providers in the order they were added
+export function listProviders(events: FoldingEvent[], owner: string): string[] {
+  const providers = [contractDeployer(events, owner)];
+  for (const { name, args } of events) {
+    if (name !== "ProviderAdded" && name !== "ProviderRemoved") continue;
+    const provider = ethers.getAddress(args.provider);
+    const index = providers.indexOf(provider);
+    if (name === "ProviderAdded" && index < 0) providers.push(provider);
+    if (name === "ProviderRemoved" && index >= 0) providers.splice(index, 1);
+  }
+  return providers;
+}
+
+// Owner operations in chain order
+export function adminHistory(events: FoldingEvent[]): AdminChange[] {
+  const changes: AdminChange[] = [];
+  for (const { name, args, blockNumber } of events) {
+    if (name === "OwnershipTransferred") {
+      changes.push({ kind: "ownership", previousOwner: ethers.getAddress(args.previousOwner), newOwner: ethers.getAddress(args.newOwner), blockNumber });
+    } else if (name === "ProviderAdded" || name === "ProviderRemoved") {
+      changes.push({ kind: name === "ProviderAdded" ? "provider-added" : "provider-removed", provider: ethers.getAddress(args.provider), blockNumber });
+    } else if (name === "PauseToggled") {
+      changes.push({ kind: "pause", paused: args.paused, blockNumber });
+    } else if (name === "CooldownSet") {
+      changes.push({ kind: "cooldown", previousSeconds: args.oldCooldownSeconds, seconds: args.newCooldownSeconds, blockNumber });
+    } else if (name === "ProjectCreated") {
+      changes.push({ kind: "project-created", projectId: args.projectId, name: args.name, manager: ethers.getAddress(args.manager), blockNumber });
+    } else if (name === "ProjectManagerChanged") {
+      changes.push({ kind: "project-manager", projectId: args.projectId, previousManager: ethers.getAddress(args.previousManager), newManager: ethers.getAddress(args.newManager), blockNumber });
+    }
+  }
+  return changes;
+}
+
+export function describeAdminChange(change: AdminChange): string {
+  switch (change.kind) {
+    case "ownership":
+      return `ownership transferred from ${change.previousOwner} to ${change.newOwner}`;
+    case "provider-added":
+      return `provider ${change.provider} added`;
+    case "provider-removed":
+      return `provider ${change.provider} removed`;
+    case "pause":
+      return change.paused ? "contract paused" : "contract unpaused";
+    case "cooldown":
+      return `cooldown changed from ${change.previousSeconds}s to ${change.seconds}s`;
+    case "project-created":
+      return `project #${change.projectId} "${change.name}" created, managed by ${change.manager}`;
+    case "project-manager":
+      return `project #${change.projectId} handed from ${change.previousManager} to ${change.newManager}`;
+  }
+}
+
+export class OwnershipConfirmationError extends Error {
+  constructor(readonly newOwner: string, readonly confirmation: string) {
+    super(`Confirmation ${confirmation || "(empty)"} does not match the new owner ${newOwner}`);
+    this.name = "OwnershipConfirmationError";
+  }
+}
+
+// Ownership transfer cannot be undone by the sender, so the new owner has to be typed twice
+export function checkOwnershipConfirmation(newOwner: string, confirmation: string): string {
+  if (!ethers.isAddress(newOwner)) throw new Error(`${newOwner || "(empty)"} is not an address`);
+  if (!ethers.isAddress(confirmation) || ethers.getAddress(confirmation) !== ethers.getAddress(newOwner)) {
+    throw new OwnershipConfirmationError(newOwner, confirmation);
+  }
+  if (ethers.getAddress(newOwner) === ethers.ZeroAddress) throw new Error("Refusing to transfer ownership to the zero address");
+  return ethers.getAddress(newOwner);
+}
@@ -0,0 +1,99 @@
+// proteinFolding/batches.ts
+// Batch history rebuilt from indexed events: when each batch was opened and closed, which providers submitted
+// to it, which decryption requests are still outstanding and who submitted the highest score. Batch ids count up
+// per project.
+import { ethers } from "ethers";
+import { BatchRef, MIN_SUBMISSIONS_FOR_TOTAL, ProteinFoldingClient } from "./client";
+import type { FoldingEvent } from "./eventIndex";
+
+export type BatchState = "open" | "closed";
+
+export interface DecryptionRequest {
+  requestId: bigint;
+  blockNumber: number;
+  // Set once DecryptionCompleted arrives for the request
+  decryptedScore?: bigint;
+  // Set by DecryptionCancelled; the contract ignores a late answer to the request
+  cancelled?: boolean;
+}
+
+export interface BatchSummary {
+  projectId: bigint;
+  id: bigint;
+  state: BatchState;
+  openedBlock: number;
+  closedBlock?: number;
+  submissionCount: number;
+  // euint32 handle of the total as emitted by BatchClosed
+  totalScore?: string;
+  // Distinct providers in order of their first submission
+  providers: string[];
+  decryptionRequests: DecryptionRequest[];
+  // Result of the latest completed decryption
+  decryptedScore?: bigint;
+  // Decrypted by the contract when a batch with submissions closes
+  winner?: string;
+  bestScore?: bigint;
+}
+
+const BATCH_EVENTS = new Set(["BatchOpened", "BatchClosed", "FoldingDataSubmitted", "DecryptionRequested", "DecryptionCompleted", "DecryptionCancelled", "BatchWinnerRevealed"]);
+
+export const pendingDecryptions = (batch: BatchSummary) =>
+  batch.decryptionRequests.filter(request => request.decryptedScore === undefined && !request.cancelled);
+
+// Closed batches with enough submissions whose total is neither decrypted nor awaiting the relayer
+export const canRequestDecryption = (batch: BatchSummary) =>
+  batch.state === "closed" && batch.submissionCount >= MIN_SUBMISSIONS_FOR_TOTAL && batch.decryptedScore === undefined && pendingDecryptions(batch).length === 0;
+
+export const undecryptedBatches = (events: FoldingEvent[], projectId?: bigint) =>
+  listBatches(events, projectId).filter(canRequestDecryption);
+
+// Requests decryption of every undecrypted batch, of one project or of all, in one transaction
+export async function requestUndecryptedBatches(client: ProteinFoldingClient, events: FoldingEvent[], projectId?: bigint): Promise<(BatchRef & { requestId: bigint })[]> {
+  const batches: BatchRef[] = undecryptedBatches(events, projectId).map(batch => ({ projectId: batch.projectId, batchId: batch.id }));
+  if (batches.length === 0) return [];
+  const { requestIds } = await client.requestBatchScoreDecryptions(batches);
+  return batches.map((batch, i) => ({ ...batch, requestId: requestIds[i] }));
+}
+
+// Batches by ascending project and batch id, optionally of one project only
+export function listBatches(events: FoldingEvent[], projectId?: bigint): BatchSummary[] {
+  const batches = new Map<string, BatchSummary>();
+  const requests = new Map<bigint, DecryptionRequest>();
+  for (const { name, args, blockNumber } of events) {
+    if (!BATCH_EVENTS.has(name)) continue;
+    if (projectId !== undefined && args.projectId !== projectId) continue;
+    const id: bigint = args.batchId;
+    const key = `${args.projectId}:${id}`;
+    let batch = batches.get(key);
+    if (!batch) {
+      batch = { projectId: args.projectId, id, state: "open", openedBlock: blockNumber, submissionCount: 0, providers: [], decryptionRequests: [] };
+      batches.set(key, batch);
+    }
+    if (name === "BatchClosed") {
+      batch.state = "closed";
+      batch.closedBlock = blockNumber;
+      batch.totalScore = args.totalScore;
+      batch.submissionCount = Number(args.submissionCount);
+    } else if (name === "FoldingDataSubmitted") {
+      batch.submissionCount++;
+      const provider = ethers.getAddress(args.provider);
+      if (!batch.providers.includes(provider)) batch.providers.push(provider);
+    } else if (name === "DecryptionRequested") {
+      const request = { requestId: args.requestId as bigint, blockNumber };
+      requests.set(request.requestId, request);
+      batch.decryptionRequests.push(request);
+    } else if (name === "DecryptionCompleted") {
+      const request = requests.get(args.requestId);
+      if (request) request.decryptedScore = args.decryptedScore;
+      batch.decryptedScore = args.decryptedScore;
+    } else if (name === "DecryptionCancelled") {
+      const request = requests.get(args.requestId);
+      if (request) request.cancelled = true;
+    } else if (name === "BatchWinnerRevealed") {
+      batch.winner = ethers.getAddress(args.winner);
+      batch.bestScore = args.bestScore;
+    }
+  }
+  return [...batches.values()].sort((a, b) => (a.projectId !== b.projectId ? (a.projectId < b.projectId ? -1 : 1) : a.id < b.id ? -1 : 1));
+}
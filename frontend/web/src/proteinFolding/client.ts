@@ -0,0 +1,352 @@
+// proteinFolding/client.ts
+import { ethers } from "ethers";
+import type { ProteinFoldingFHE } from "../../../../types/contracts/proteinFoldingFHE.sol/ProteinFoldingFHE";
+import { ProteinFoldingFHE__factory } from "../../../../types/factories/contracts/proteinFoldingFHE.sol/ProteinFoldingFHE__factory";
+import type { TypedContractEvent, TypedListener } from "../../../../types/common";
+import type { EncryptedInput } from "../fhe/backend";
+import { decodeProteinFoldingError } from "./errors";
+
+export const PROTEIN_FOLDING_ABI = ProteinFoldingFHE__factory.abi;
+
+// ProteinFoldingFHE.MIN_SUBMISSIONS_FOR_TOTAL: a batch total is only decrypted or shared from this many submissions
+export const MIN_SUBMISSIONS_FOR_TOTAL = 3;
+
+export interface Project {
+  id: bigint;
+  name: string;
+  // Opens, closes and decrypts the project's batches; the contract owner can too
+  manager: string;
+  // Open batch, or the next one to open
+  currentBatchId: bigint;
+}
+
+export interface Batch {
+  id: bigint;
+  active: boolean;
+  // euint32 handle of the encrypted running total
+  totalScore: string;
+  submissionCount: bigint;
+}
+
+// A submitted score; its provider can decrypt it and share it with collaborators
+export interface Submission {
+  id: bigint;
+  projectId: bigint;
+  batchId: bigint;
+  provider: string;
+  // euint32 handle of the score
+  score: string;
+}
+
+// Highest score of a batch, i.e. its best fold, and who submitted it. Closing a batch with submissions decrypts these two values
+// and nothing else; `winner` and `bestScore` are set once that decryption has arrived.
+export interface BatchWinner {
+  // euint32 and eaddress handles of the running maximum
+  bestScoreHandle: string;
+  bestProviderHandle: string;
+  revealed: boolean;
+  winner?: string;
+  bestScore?: bigint;
+}
+
+export interface DecryptionContext {
+  projectId: bigint;
+  batchId: bigint;
+  stateHash: string;
+  processed: boolean;
+}
+
+// A batch of one project
+export interface BatchRef {
+  projectId: bigint;
+  batchId: bigint;
+}
+
+export interface BatchOpenedEvent {
+  projectId: bigint;
+  batchId: bigint;
+  log: ethers.Log;
+}
+
+export interface FoldingDataSubmittedEvent {
+  provider: string;
+  projectId: bigint;
+  batchId: bigint;
+  encryptedScore: string;
+  submissionId: bigint;
+  log: ethers.Log;
+}
+
+export interface DecryptionCompletedEvent {
+  requestId: bigint;
+  projectId: bigint;
+  batchId: bigint;
+  decryptedScore: bigint;
+  log: ethers.Log;
+}
+
+export interface BatchWinnerRevealedEvent {
+  requestId: bigint;
+  projectId: bigint;
+  batchId: bigint;
+  winner: string;
+  bestScore: bigint;
+  log: ethers.Log;
+}
+
+export type Unsubscribe = () => void;
+
+export class ProteinFoldingClient {
+  readonly contract: ProteinFoldingFHE;
+
+  constructor(address: string, runner: ethers.ContractRunner) {
+    this.contract = ProteinFoldingFHE__factory.connect(address, runner);
+  }
+
+  get address(): string {
+    return this.contract.target as string;
+  }
+
+  // --- reads ---
+
+  async owner(): Promise<string> {
+    return this.read(contract => contract.owner());
+  }
+
+  async isProvider(account: string): Promise<boolean> {
+    return this.read(contract => contract.isProvider(account));
+  }
+
+  async paused(): Promise<boolean> {
+    return this.read(contract => contract.paused());
+  }
+
+  async cooldownSeconds(): Promise<bigint> {
+    return this.read(contract => contract.cooldownSeconds());
+  }
+
+  async projectCount(): Promise<bigint> {
+    return this.read(contract => contract.projectCount());
+  }
+
+  // A project that was never created reads back with id 0
+  async getProject(projectId: bigint | number): Promise<Project> {
+    const { id, name, manager, currentBatchId } = await this.read(contract => contract.projects(projectId));
+    return { id, name, manager, currentBatchId };
+  }
+
+  // Project ids run from 1 to projectCount
+  async listProjects(): Promise<Project[]> {
+    const count = Number(await this.projectCount());
+    return Promise.all(Array.from({ length: count }, (_, i) => this.getProject(i + 1)));
+  }
+
+  async currentBatchId(projectId: bigint | number): Promise<bigint> {
+    return (await this.getProject(projectId)).currentBatchId;
+  }
+
+  async getBatch(projectId: bigint | number, batchId: bigint | number): Promise<Batch> {
+    const { id, active, totalScore, submissionCount } = await this.read(contract => contract.batches(projectId, batchId));
+    return { id, active, totalScore, submissionCount };
+  }
+
+  async totalSubmissions(): Promise<bigint> {
+    return this.read(contract => contract.totalSubmissions());
+  }
+
+  // A submission that does not exist reads back with id 0
+  async getSubmission(submissionId: bigint | number): Promise<Submission> {
+    const { id, projectId, batchId, provider, score } = await this.read(contract => contract.submissions(submissionId));
+    return { id, projectId, batchId, provider, score };
+  }
+
+  // Whether the ACL lets the account user-decrypt the ciphertext
+  async canDecryptSubmission(submissionId: bigint | number, account: string): Promise<boolean> {
+    return this.read(contract => contract.canDecryptSubmission(submissionId, account));
+  }
+
+  async canDecryptBatchTotal(projectId: bigint | number, batchId: bigint | number, account: string): Promise<boolean> {
+    return this.read(contract => contract.canDecryptBatchTotal(projectId, batchId, account));
+  }
+
+  // `energy` is the handle a task record keeps, see storeTaskEnergy
+  async canDecryptTaskEnergy(energy: string, account: string): Promise<boolean> {
+    return this.read(contract => contract.canDecryptTaskEnergy(energy, account));
+  }
+
+  async getBatchWinner(projectId: bigint | number, batchId: bigint | number): Promise<BatchWinner> {
+    const { bestScore: bestScoreHandle, bestProvider: bestProviderHandle, revealed, decryptedBestScore, winner } =
+      await this.read(contract => contract.batchWinners(projectId, batchId));
+    return revealed
+      ? { bestScoreHandle, bestProviderHandle, revealed, winner, bestScore: decryptedBestScore }
+      : { bestScoreHandle, bestProviderHandle, revealed };
+  }
+
+  async getDecryptionContext(requestId: bigint | number): Promise<DecryptionContext> {
+    const { projectId, batchId, stateHash, processed } = await this.read(contract => contract.decryptionContexts(requestId));
+    return { projectId, batchId, stateHash, processed };
+  }
+
+  async decryptionPending(projectId: bigint | number, batchId: bigint | number): Promise<boolean> {
+    return this.read(contract => contract.decryptionPending(projectId, batchId));
+  }
+
+  async lastSubmissionTime(account: string): Promise<bigint> {
+    return this.read(contract => contract.lastSubmissionTime(account));
+  }
+
+  async lastDecryptionRequestTime(account: string): Promise<bigint> {
+    return this.read(contract => contract.lastDecryptionRequestTime(account));
+  }
+
+  // --- owner operations ---
+
+  async transferOwnership(newOwner: string): Promise<ethers.TransactionReceipt> {
+    return this.send(contract => contract.transferOwnership(newOwner));
+  }
+
+  async addProvider(provider: string): Promise<ethers.TransactionReceipt> {
+    return this.send(contract => contract.addProvider(provider));
+  }
+
+  async removeProvider(provider: string): Promise<ethers.TransactionReceipt> {
+    return this.send(contract => contract.removeProvider(provider));
+  }
+
+  async setPaused(paused: boolean): Promise<ethers.TransactionReceipt> {
+    return this.send(contract => contract.setPaused(paused));
+  }
+
+  async setCooldownSeconds(cooldownSeconds: bigint | number): Promise<ethers.TransactionReceipt> {
+    return this.send(contract => contract.setCooldownSeconds(cooldownSeconds));
+  }
+
+  async createProject(name: string, manager: string): Promise<{ projectId: bigint; receipt: ethers.TransactionReceipt }> {
+    const receipt = await this.send(contract => contract.createProject(name, manager));
+    const created = this.parseLogs(receipt).find(log => log.name === "ProjectCreated");
+    if (!created) throw new Error("ProjectCreated event missing from receipt");
+    return { projectId: created.args.projectId, receipt };
+  }
+
+  // --- project manager operations (also allowed for the owner) ---
+
+  async setProjectManager(projectId: bigint | number, manager: string): Promise<ethers.TransactionReceipt> {
+    return this.send(contract => contract.setProjectManager(projectId, manager));
+  }
+
+  async openBatch(projectId: bigint | number): Promise<ethers.TransactionReceipt> {
+    return this.send(contract => contract.openBatch(projectId));
+  }
+
+  async closeBatch(projectId: bigint | number, batchId: bigint | number): Promise<ethers.TransactionReceipt> {
+    return this.send(contract => contract.closeBatch(projectId, batchId));
+  }
+
+  // Grants cannot be revoked; the total must belong to a closed batch
+  async grantBatchTotalAccess(projectId: bigint | number, batchId: bigint | number, grantee: string): Promise<ethers.TransactionReceipt> {
+    return this.send(contract => contract.grantBatchTotalAccess(projectId, batchId, grantee));
+  }
+
+  async requestBatchScoreDecryption(projectId: bigint | number, batchId: bigint | number): Promise<{ requestId: bigint; receipt: ethers.TransactionReceipt }> {
+    const { requestIds, receipt } = await this.requestBatchScoreDecryptions([{ projectId: BigInt(projectId), batchId: BigInt(batchId) }]);
+    return { requestId: requestIds[0], receipt };
+  }
+
+  // One transaction and one cooldown window for all batches; request ids come back in the order of batches
+  async requestBatchScoreDecryptions(batches: BatchRef[]): Promise<{ requestIds: bigint[]; receipt: ethers.TransactionReceipt }> {
+    const receipt = batches.length === 1
+      ? await this.send(contract => contract.requestBatchScoreDecryption(batches[0].projectId, batches[0].batchId))
+      : await this.send(contract => contract.requestBatchScoreDecryptions(batches.map(batch => batch.projectId), batches.map(batch => batch.batchId)));
+    const requested = this.parseLogs(receipt).filter(log => log.name === "DecryptionRequested");
+    if (requested.length !== batches.length) throw new Error("DecryptionRequested event missing from receipt");
+    return { requestIds: requested.map(log => log.args.requestId), receipt };
+  }
+
+  // For requests the oracle never answered; the batch can then be requested again
+  async cancelBatchDecryption(requestId: bigint | number): Promise<ethers.TransactionReceipt> {
+    return this.send(contract => contract.cancelBatchDecryption(requestId));
+  }
+
+  // --- provider operations ---
+
+  async submitFoldingData(projectId: bigint | number, batchId: bigint | number, encryptedScore: EncryptedInput): Promise<ethers.TransactionReceipt> {
+    return this.send(contract => contract.submitFoldingData(projectId, batchId, encryptedScore.handle, encryptedScore.inputProof));
+  }
+
+  // Only the provider of the submission may share it; grants cannot be revoked
+  async grantSubmissionAccess(submissionId: bigint | number, grantee: string): Promise<ethers.TransactionReceipt> {
+    return this.send(contract => contract.grantSubmissionAccess(submissionId, grantee));
+  }
+
+  // --- task energies (any account) ---
+
+  // Imports an energy encrypted for this contract and the sender, and lets the task owner and the sender decrypt it.
+  // The returned handle is what the task record stores.
+  async storeTaskEnergy(taskId: string, taskOwner: string, encryptedEnergy: EncryptedInput): Promise<{ handle: string; receipt: ethers.TransactionReceipt }> {
+    const receipt = await this.send(contract => contract.storeTaskEnergy(taskId, taskOwner, encryptedEnergy.handle, encryptedEnergy.inputProof));
+    const stored = this.parseLogs(receipt).find(log => log.name === "TaskEnergyStored");
+    if (!stored) throw new Error("TaskEnergyStored event missing from receipt");
+    return { handle: stored.args.energy, receipt };
+  }
+
+  // --- events ---
+
+  onBatchOpened(listener: (event: BatchOpenedEvent) => void): Unsubscribe {
+    return this.subscribe(this.contract.getEvent("BatchOpened"), (projectId, batchId, payload) =>
+      listener({ projectId, batchId, log: eventLog(payload) })
+    );
+  }
+
+  onFoldingDataSubmitted(listener: (event: FoldingDataSubmittedEvent) => void): Unsubscribe {
+    return this.subscribe(this.contract.getEvent("FoldingDataSubmitted"), (provider, projectId, batchId, encryptedScore, submissionId, payload) =>
+      listener({ provider, projectId, batchId, encryptedScore, submissionId, log: eventLog(payload) })
+    );
+  }
+
+  onDecryptionCompleted(listener: (event: DecryptionCompletedEvent) => void): Unsubscribe {
+    return this.subscribe(this.contract.getEvent("DecryptionCompleted"), (requestId, projectId, batchId, decryptedScore, payload) =>
+      listener({ requestId, projectId, batchId, decryptedScore, log: eventLog(payload) })
+    );
+  }
+
+  onBatchWinnerRevealed(listener: (event: BatchWinnerRevealedEvent) => void): Unsubscribe {
+    return this.subscribe(this.contract.getEvent("BatchWinnerRevealed"), (requestId, projectId, batchId, winner, bestScore, payload) =>
+      listener({ requestId, projectId, batchId, winner, bestScore, log: eventLog(payload) })
+    );
+  }
+
+  private subscribe<E extends TypedContractEvent>(event: E, handler: TypedListener<E>): Unsubscribe {
+    this.contract.on(event, handler);
+    return () => { this.contract.off(event, handler); };
+  }
+
+  private parseLogs(receipt: ethers.TransactionReceipt) {
+    return receipt.logs
+      .map(log => {
+        try { return this.contract.interface.parseLog(log); } catch { return null; }
+      })
+      .filter(log => log !== null);
+  }
+
+  private async read<T>(read: (contract: ProteinFoldingFHE) => Promise<T>): Promise<T> {
+    try {
+      return await read(this.contract);
+    } catch (e) {
+      throw decodeProteinFoldingError(e, this.contract.interface);
+    }
+  }
+
+  private async send(transact: (contract: ProteinFoldingFHE) => Promise<ethers.ContractTransactionResponse>): Promise<ethers.TransactionReceipt> {
+    try {
+      const tx = await transact(this.contract);
+      const receipt = await tx.wait();
+      if (!receipt) throw new Error(`Transaction ${tx.hash} was dropped`);
+      return receipt;
+    } catch (e) {
+      throw decodeProteinFoldingError(e, this.contract.interface);
+    }
+  }
+}
+
+// ethers passes a ContractEventPayload as the last listener argument, which typechain declares as the log itself
+const eventLog = (payload: unknown): ethers.Log => (payload as ethers.ContractEventPayload).log;
@@ -0,0 +1,91 @@
+// proteinFolding/errors.ts
+import { ethers } from "ethers";
+
+export class ProteinFoldingError extends Error {
+  constructor(message: string, readonly errorName: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+export class NotOwnerError extends ProteinFoldingError {}
+export class NotProviderError extends ProteinFoldingError {}
+export class PausedError extends ProteinFoldingError {}
+export class CooldownActiveError extends ProteinFoldingError {}
+export class BatchNotActiveError extends ProteinFoldingError {}
+export class BatchAlreadyActiveError extends ProteinFoldingError {}
+export class InvalidBatchIdError extends ProteinFoldingError {}
+export class ReplayAttemptError extends ProteinFoldingError {}
+export class StateMismatchError extends ProteinFoldingError {}
+export class NotInitializedError extends ProteinFoldingError {}
+export class DecryptionPendingError extends ProteinFoldingError {}
+export class UnknownProjectError extends ProteinFoldingError {}
+export class NotProjectManagerError extends ProteinFoldingError {}
+export class UnknownSubmissionError extends ProteinFoldingError {}
+export class NotSubmitterError extends ProteinFoldingError {}
+export class NoSubmissionsError extends ProteinFoldingError {}
+export class DecryptionNotPendingError extends ProteinFoldingError {}
+export class InvalidManagerError extends ProteinFoldingError {}
+export class TooFewSubmissionsError extends ProteinFoldingError {}
+export class BatchStillActiveError extends ProteinFoldingError {}
+export class InvalidTaskOwnerError extends ProteinFoldingError {}
+
+type ErrorClass = new (message: string, errorName: string, options?: { cause?: unknown }) => ProteinFoldingError;
+
+const CUSTOM_ERRORS: Record<string, [ErrorClass, string]> = {
+  NotOwner: [NotOwnerError, "Only the contract owner can do this"],
+  NotProvider: [NotProviderError, "Sender is not a registered compute provider"],
+  Paused: [PausedError, "Contract is paused"],
+  CooldownActive: [CooldownActiveError, "Cooldown period has not elapsed yet"],
+  BatchNotActive: [BatchNotActiveError, "Batch is not open"],
+  BatchAlreadyActive: [BatchAlreadyActiveError, "A batch is already open"],
+  InvalidBatchId: [InvalidBatchIdError, "Invalid batch id"],
+  ReplayAttempt: [ReplayAttemptError, "Decryption request was already processed"],
+  StateMismatch: [StateMismatchError, "Batch ciphertexts changed since the decryption request"],
+  NotInitialized: [NotInitializedError, "Encrypted value is not initialized"],
+  DecryptionPending: [DecryptionPendingError, "A decryption of this batch is already in flight"],
+  UnknownProject: [UnknownProjectError, "No project with this id"],
+  NotProjectManager: [NotProjectManagerError, "Only the project manager or the contract owner can do this"],
+  UnknownSubmission: [UnknownSubmissionError, "No submission with this id"],
+  NotSubmitter: [NotSubmitterError, "Only the provider of a submission can share it"],
+  NoSubmissions: [NoSubmissionsError, "The batch has no submissions to decrypt"],
+  DecryptionNotPending: [DecryptionNotPendingError, "No pending decryption request with this id"],
+  InvalidManager: [InvalidManagerError, "A project manager cannot be the zero address"],
+  TooFewSubmissions: [TooFewSubmissionsError, "The batch has too few submissions to reveal its total"],
+  BatchStillActive: [BatchStillActiveError, "Batch is still open"],
+  InvalidTaskOwner: [InvalidTaskOwnerError, "A task owner cannot be the zero address"]
+};
+
+// Property of an error object of unknown shape, e.g. the nested errors wrapped by providers
+const field = (value: unknown, key: string): unknown =>
+  typeof value === "object" && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+
+const findRevertData = (e: unknown): string | null => {
+  const rpcError = field(field(e, "info"), "error");
+  const candidates = [field(e, "data"), field(rpcError, "data"), field(field(e, "error"), "data"), field(field(rpcError, "data"), "data")];
+  for (const candidate of candidates) {
+    if (typeof candidate === "string" && ethers.isHexString(candidate) && candidate.length >= 10) return candidate;
+  }
+  return null;
+};
+
+// Maps a revert raised by a ProteinFoldingFHE call to its typed error; anything else is returned untouched.
+export function decodeProteinFoldingError(e: unknown, iface: ethers.Interface): unknown {
+  if (e instanceof ProteinFoldingError) return e;
+
+  let errorName = ethers.isError(e, "CALL_EXCEPTION") ? e.revert?.name : undefined;
+  if (!errorName) {
+    const data = findRevertData(e);
+    if (data) {
+      try {
+        errorName = iface.parseError(data)?.name;
+      } catch {
+        errorName = undefined;
+      }
+    }
+  }
+  if (!errorName || !(errorName in CUSTOM_ERRORS)) return e;
+
+  const [ErrorType, message] = CUSTOM_ERRORS[errorName];
+  return new ErrorType(message, errorName, { cause: e });
+}
@@ -0,0 +1,143 @@
+// proteinFolding/eventIndex.ts
+// ProteinFoldingFHE event history, from which batches.ts, projects.ts and admin.ts rebuild contract state. The
+// contract emits few events, so the history is kept in memory. Logs younger than `confirmations` blocks are
+// fetched again on every sync, so shallow reorgs simply replace them.
+import { ethers } from "ethers";
+import { IndexerEvent, Unsubscribe, findDeploymentBlock, isRangeError } from "../indexer/taskIndexer";
+import { PROTEIN_FOLDING_ABI } from "./client";
+
+const INDEXED_EVENTS = [
+  "BatchOpened", "BatchClosed", "FoldingDataSubmitted", "DecryptionRequested", "DecryptionCompleted", "DecryptionCancelled",
+  "BatchWinnerRevealed", "SubmissionAccessGranted", "BatchTotalAccessGranted",
+  "OwnershipTransferred", "ProviderAdded", "ProviderRemoved", "PauseToggled", "CooldownSet",
+  "ProjectCreated", "ProjectManagerChanged"
+];
+
+export interface FoldingEventIndexOptions {
+  provider: ethers.Provider;
+  address: string;
+  // Defaults to the contract deployment block, located with getCode
+  fromBlock?: number;
+  chunkSize?: number;
+  confirmations?: number;
+}
+
+export interface FoldingEvent {
+  name: string;
+  args: ethers.Result;
+  blockNumber: number;
+  logIndex: number;
+}
+
+export class FoldingEventIndex {
+  readonly provider: ethers.Provider;
+  readonly address: string;
+  private readonly interface = new ethers.Interface(PROTEIN_FOLDING_ABI);
+  private readonly topics: string[];
+  private readonly fromBlock?: number;
+  private readonly confirmations: number;
+  private chunkSize: number;
+
+  private confirmed: FoldingEvent[] = [];
+  // Last block whose events are in `confirmed`; null until the first sync
+  private confirmedBlock: number | null = null;
+  private pending: FoldingEvent[] = [];
+  private pendingSignature = "";
+  private head = -1;
+  private syncing: Promise<boolean> | null = null;
+  private listeners = new Set<(event: IndexerEvent) => void>();
+
+  constructor(options: FoldingEventIndexOptions) {
+    this.provider = options.provider;
+    this.address = ethers.getAddress(options.address);
+    this.fromBlock = options.fromBlock;
+    this.chunkSize = options.chunkSize ?? 2000;
+    this.confirmations = options.confirmations ?? 6;
+    this.topics = INDEXED_EVENTS.map(name => this.interface.getEvent(name)!.topicHash);
+  }
+
+  get syncedBlock(): number {
+    return this.head;
+  }
+
+  on(listener: (event: IndexerEvent) => void): Unsubscribe {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Indexed events in chain order, including unconfirmed ones
+  events(): FoldingEvent[] {
+    return [...this.confirmed, ...this.pending];
+  }
+
+  // Catches up to the chain head. Concurrent callers share one run; resolves true if the history changed.
+  sync(): Promise<boolean> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  // Follows new blocks until the returned function is called.
+  subscribe(): Unsubscribe {
+    const onBlock = () => {
+      this.sync().catch(error => this.emit({ type: "error", error }));
+    };
+    this.provider.on("block", onBlock);
+    onBlock();
+    return () => {
+      this.provider.off("block", onBlock);
+    };
+  }
+
+  private emit(event: IndexerEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private async runSync(): Promise<boolean> {
+    const head = await this.provider.getBlockNumber();
+    let changed = this.confirmedBlock === null;
+    let confirmedBlock = this.confirmedBlock ?? (this.fromBlock ?? (await findDeploymentBlock(this.provider, this.address, head))) - 1;
+
+    const safeBlock = head - this.confirmations;
+    if (confirmedBlock < safeBlock) {
+      const logs = await this.fetchRange(confirmedBlock + 1, safeBlock);
+      this.confirmed.push(...logs);
+      confirmedBlock = safeBlock;
+      changed = changed || logs.length > 0;
+    }
+    this.confirmedBlock = confirmedBlock;
+
+    // Unconfirmed tail, replaced wholesale on every sync
+    const tail = await this.fetchRange(confirmedBlock + 1, head);
+    const signature = tail.map(log => `${log.blockNumber}:${log.logIndex}`).join(",");
+    this.pending = tail;
+    changed = changed || signature !== this.pendingSignature;
+    this.pendingSignature = signature;
+    this.head = head;
+
+    if (changed) this.emit({ type: "change" });
+    return changed;
+  }
+
+  private async fetchRange(from: number, until: number): Promise<FoldingEvent[]> {
+    const logs: FoldingEvent[] = [];
+    while (from <= until) {
+      const to = Math.min(until, from + this.chunkSize - 1);
+      try {
+        const chunk = await this.provider.getLogs({ address: this.address, topics: [this.topics], fromBlock: from, toBlock: to });
+        for (const log of chunk) {
+          const parsed = this.interface.parseLog(log);
+          if (parsed) logs.push({ name: parsed.name, args: parsed.args, blockNumber: log.blockNumber, logIndex: log.index });
+        }
+        from = to + 1;
+      } catch (e) {
+        if (!isRangeError(e) || this.chunkSize <= 1) throw e;
+        this.chunkSize = Math.max(1, Math.floor(this.chunkSize / 2));
+      }
+    }
+    return logs;
+  }
+}
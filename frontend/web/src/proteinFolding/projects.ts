@@ -0,0 +1,33 @@
+// proteinFolding/projects.ts
+// Research projects rebuilt from indexed events. Each project has its own manager and batch sequence, so
+// several campaigns can collect scores at the same time.
+import { ethers } from "ethers";
+import type { FoldingEvent } from "./eventIndex";
+
+export interface ProjectSummary {
+  id: bigint;
+  name: string;
+  manager: string;
+  createdBlock: number;
+}
+
+// Projects by ascending id
+export function listProjects(events: FoldingEvent[]): ProjectSummary[] {
+  const projects = new Map<bigint, ProjectSummary>();
+  for (const { name, args, blockNumber } of events) {
+    if (name === "ProjectCreated") {
+      projects.set(args.projectId, { id: args.projectId, name: args.name, manager: ethers.getAddress(args.manager), createdBlock: blockNumber });
+    } else if (name === "ProjectManagerChanged") {
+      const project = projects.get(args.projectId);
+      if (project) project.manager = ethers.getAddress(args.newManager);
+    }
+  }
+  return [...projects.values()].sort((a, b) => (a.id < b.id ? -1 : 1));
+}
+
+// The contract owner may act for every project manager
+export function canManageProject(project: ProjectSummary, account: string | undefined, owner: string | null): boolean {
+  if (!account) return false;
+  const sender = ethers.getAddress(account);
+  return sender === project.manager || (!!owner && sender === ethers.getAddress(owner));
+}
@@ -0,0 +1,109 @@
+// registry/lease.ts
+// Claim/lease rules for task records. A provider claims a claimable task with a lease, renews it with
+// heartbeats while computing and clears it when the result is written. A lapsed lease shows as "expired"
+// and the task can be claimed again, resuming from the progress saved by the last heartbeat.
+//
+// Leases are kept by the clients only. UniversalAdapter.setData lets any address overwrite `task_<id>`, and a
+// claim is a read followed by a write, not a compare-and-swap: when two claims race, the later write wins and the
+// other provider only notices when it reads the record back. A provider that ignores these rules can still
+// rewrite a leased task; RegisteredTask.sender records who wrote each version.
+import type { TaskRecordInput } from "./taskSchema";
+
+export type TaskStatus = "pending" | "claimed" | "computing" | "completed" | "failed" | "expired";
+
+export interface TaskLease {
+  holder: string;
+  // Unix seconds
+  claimedAt: number;
+  heartbeatAt: number;
+  expiresAt: number;
+}
+
+export const LEASE_DURATION = 5 * 60;
+
+// Lease fields of a stored record, or of one shown with the derived "expired" status
+export type LeaseView = Pick<TaskRecordInput, "lease"> & { status?: TaskStatus };
+
+// Fields a heartbeat or the final write may change; status and lease are managed here
+export type TaskRecordUpdate = Partial<Omit<TaskRecordInput, "status" | "lease" | "version">>;
+
+export const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+export class LeaseError extends Error {
+  constructor(message: string, readonly taskId: string, readonly holder?: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// Another provider holds a live lease on the task
+export class LeaseConflictError extends LeaseError {}
+
+// The caller's lease was taken over or the task left the leased states
+export class LeaseLostError extends LeaseError {}
+
+const sameAddress = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+const isLeased = (data: LeaseView) => data.status === "claimed" || data.status === "computing";
+
+export function liveLease(data: LeaseView, now = nowSeconds()): TaskLease | undefined {
+  return isLeased(data) && data.lease && data.lease.expiresAt > now ? data.lease : undefined;
+}
+
+// Status as seen by readers: a leased task whose lease lapsed is reported as expired
+export function effectiveStatus(data: LeaseView, now = nowSeconds()): TaskStatus {
+  if (isLeased(data) && !liveLease(data, now)) return "expired";
+  return data.status ?? "pending";
+}
+
+export function isClaimable(data: LeaseView, now = nowSeconds()): boolean {
+  const status = effectiveStatus(data, now);
+  return status === "pending" || status === "expired";
+}
+
+export function holdsLease(data: LeaseView, holder: string, now = nowSeconds()): boolean {
+  return sameAddress(liveLease(data, now)?.holder, holder);
+}
+
+export function claimRecord(id: string, data: TaskRecordInput, holder: string, now = nowSeconds(), duration = LEASE_DURATION): TaskRecordInput {
+  if (!isClaimable(data, now)) {
+    const lease = liveLease(data, now);
+    if (lease && !sameAddress(lease.holder, holder)) {
+      throw new LeaseConflictError(`Task ${id} is leased to ${lease.holder} until ${new Date(lease.expiresAt * 1000).toISOString()}`, id, lease.holder);
+    }
+    if (!lease) throw new LeaseConflictError(`Task ${id} is ${effectiveStatus(data, now)} and cannot be claimed`, id);
+  }
+  return {
+    ...data,
+    status: "claimed",
+    worker: holder,
+    claimedAt: now,
+    lease: { holder, claimedAt: now, heartbeatAt: now, expiresAt: now + duration }
+  };
+}
+
+// Extends the caller's lease and merges in progress fields, moving the task to computing.
+export function renewRecord(id: string, data: TaskRecordInput, holder: string, progress: TaskRecordUpdate = {}, now = nowSeconds(), duration = LEASE_DURATION): TaskRecordInput {
+  const lease = assertHolder(id, data, holder);
+  return {
+    ...data,
+    ...progress,
+    status: "computing",
+    lease: { ...lease, heartbeatAt: now, expiresAt: now + duration }
+  };
+}
+
+// Final write by the lease holder; the lease is cleared.
+export function releaseRecord(id: string, data: TaskRecordInput, holder: string, result: TaskRecordUpdate, status: "completed" | "failed"): TaskRecordInput {
+  assertHolder(id, data, holder);
+  const { lease, ...rest } = data;
+  return { ...rest, ...result, status };
+}
+
+// A lapsed lease is still honoured for its holder as long as nobody else claimed the task
+function assertHolder(id: string, data: TaskRecordInput, holder: string): TaskLease {
+  if (!isLeased(data) || !data.lease || !sameAddress(data.lease.holder, holder)) {
+    throw new LeaseLostError(`Lease on task ${id} is no longer held by ${holder}`, id, data.lease?.holder);
+  }
+  return data.lease;
+}
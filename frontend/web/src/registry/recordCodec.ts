@@ -0,0 +1,297 @@
+// registry/recordCodec.ts
+// Compact tagged binary layout for values stored with UniversalAdapter.setData. Field names and common
+// strings are replaced by dictionary indexes, hex strings (handles, proofs, addresses) are stored as raw
+// bytes and integers as varints. A binary value starts with 0xF8, a byte that never occurs in UTF-8, so
+// JSON values written by earlier clients are told apart by their first byte and still read.
+import { ethers } from "ethers";
+
+export type RecordFormat = "json" | "binary";
+
+export class RecordCodecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecordCodecError";
+  }
+}
+
+const MAGIC = 0xf8;
+const LAYOUT_VERSION = 1;
+
+const Tag = {
+  Null: 0x00,
+  False: 0x01,
+  True: 0x02,
+  Uint: 0x03,
+  NegInt: 0x04,
+  Float: 0x05,
+  String: 0x06,
+  Bytes: 0x07,
+  Address: 0x08,
+  Array: 0x09,
+  Object: 0x0a,
+  Word: 0x0b,
+  Decimal: 0x0c,
+  TaskId: 0x0d
+} as const;
+
+// Both dictionaries are append-only: the index of an entry is part of the stored format
+const FIELDS = [
+  "version", "proteinName", "owner", "timestamp", "status", "foldingProgress", "encryptedStructure", "inputProof",
+  "sequence", "structure", "conformation", "stepsCompleted", "computationTime", "energyLevel", "worker", "claimedAt",
+  "lease", "error", "holder", "heartbeatAt", "expiresAt", "format", "name", "chains", "id", "residues", "number", "ca",
+  "pipeline", "stages", "kind", "steps", "label", "startTemperature", "endTemperature", "temperature", "energy",
+  "insertionCode"
+];
+
+const WORDS = [
+  "pending", "claimed", "computing", "completed", "failed", "fasta", "pdb", "mmcif", "annealing", "minimization", "refinement"
+];
+
+const FIELD_INDEX = new Map(FIELDS.map((field, i) => [field, i + 1]));
+const WORD_INDEX = new Map(WORDS.map((word, i) => [word, i]));
+
+// IDs made by newTaskId, `protein-<ms>-<base36>`, as in the key index
+const TASK_ID = /^protein-([1-9]\d{0,14})-([0-9a-z]{1,16})$/;
+
+// Decimals up to this many places are stored as a scaled integer, e.g. PDB coordinates
+const MAX_DECIMAL_PLACES = 6;
+
+class Writer {
+  private bytes: number[] = [];
+
+  byte(value: number) {
+    this.bytes.push(value);
+  }
+
+  varint(value: number) {
+    do {
+      let byte = value % 128;
+      value = Math.floor(value / 128);
+      if (value > 0) byte |= 0x80;
+      this.bytes.push(byte);
+    } while (value > 0);
+  }
+
+  raw(bytes: Uint8Array) {
+    this.varint(bytes.length);
+    for (const byte of bytes) this.bytes.push(byte);
+  }
+
+  result() {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+class Reader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  byte(): number {
+    if (this.offset >= this.bytes.length) throw new RecordCodecError("Unexpected end of record");
+    return this.bytes[this.offset++];
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.byte();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 128;
+      if (scale > 2 ** 56) throw new RecordCodecError("Varint too long");
+    }
+  }
+
+  raw(): Uint8Array {
+    const length = this.varint();
+    if (this.offset + length > this.bytes.length) throw new RecordCodecError("Unexpected end of record");
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  // Every item takes at least one byte, which bounds counts read from untrusted records
+  count(): number {
+    const count = this.varint();
+    if (count > this.bytes.length - this.offset) throw new RecordCodecError("Unexpected end of record");
+    return count;
+  }
+
+  get done() {
+    return this.offset === this.bytes.length;
+  }
+}
+
+const zigzag = (n: number) => (n < 0 ? -2 * n - 1 : 2 * n);
+const unzigzag = (n: number) => (n % 2 === 1 ? -(n + 1) / 2 : n / 2);
+
+function decimalPlaces(value: number): number | undefined {
+  for (let places = 1; places <= MAX_DECIMAL_PLACES; places++) {
+    const scaled = Math.round(value * 10 ** places);
+    if (Number.isSafeInteger(scaled) && scaled / 10 ** places === value) return places;
+  }
+  return undefined;
+}
+
+function writeNumber(writer: Writer, value: number) {
+  if (Number.isSafeInteger(value)) {
+    writer.byte(value < 0 ? Tag.NegInt : Tag.Uint);
+    writer.varint(Math.abs(value));
+    return;
+  }
+  const places = Number.isFinite(value) ? decimalPlaces(value) : undefined;
+  if (places !== undefined) {
+    writer.byte(Tag.Decimal);
+    writer.byte(places);
+    writer.varint(zigzag(Math.round(value * 10 ** places)));
+    return;
+  }
+  if (!Number.isFinite(value)) throw new RecordCodecError(`Cannot encode ${value}`);
+  const buffer = new DataView(new ArrayBuffer(8));
+  buffer.setFloat64(0, value);
+  writer.byte(Tag.Float);
+  for (let i = 0; i < 8; i++) writer.byte(buffer.getUint8(i));
+}
+
+function writeString(writer: Writer, value: string) {
+  const word = WORD_INDEX.get(value);
+  const taskId = TASK_ID.exec(value);
+  if (word !== undefined) {
+    writer.byte(Tag.Word);
+    writer.varint(word);
+  } else if (taskId) {
+    writer.byte(Tag.TaskId);
+    writer.varint(Number(taskId[1]));
+    writer.raw(ethers.toUtf8Bytes(taskId[2]));
+  } else if (value.length === 42 && ethers.isAddress(value) && value === ethers.getAddress(value)) {
+    // Checksummed addresses keep their case through the 20 raw bytes
+    writer.byte(Tag.Address);
+    writer.raw(ethers.getBytes(value));
+  } else if (ethers.isHexString(value) && value.length % 2 === 0 && value === value.toLowerCase()) {
+    writer.byte(Tag.Bytes);
+    writer.raw(ethers.getBytes(value));
+  } else {
+    writer.byte(Tag.String);
+    writer.raw(ethers.toUtf8Bytes(value));
+  }
+}
+
+function writeValue(writer: Writer, value: unknown) {
+  if (value === null) writer.byte(Tag.Null);
+  else if (value === false) writer.byte(Tag.False);
+  else if (value === true) writer.byte(Tag.True);
+  else if (typeof value === "number") writeNumber(writer, value);
+  else if (typeof value === "string") writeString(writer, value);
+  else if (Array.isArray(value)) {
+    writer.byte(Tag.Array);
+    writer.varint(value.length);
+    // Like JSON.stringify, undefined array items become null
+    for (const item of value) writeValue(writer, item === undefined ? null : item);
+  } else if (typeof value === "object") {
+    // Like JSON.stringify, undefined fields are left out
+    const entries = Object.entries(value as object).filter(([, v]) => v !== undefined);
+    writer.byte(Tag.Object);
+    writer.varint(entries.length);
+    for (const [key, item] of entries) {
+      const field = FIELD_INDEX.get(key);
+      writer.varint(field ?? 0);
+      if (field === undefined) writer.raw(ethers.toUtf8Bytes(key));
+      writeValue(writer, item);
+    }
+  } else throw new RecordCodecError(`Cannot encode a ${typeof value}`);
+}
+
+function readValue(reader: Reader): unknown {
+  const tag = reader.byte();
+  switch (tag) {
+    case Tag.Null:
+      return null;
+    case Tag.False:
+      return false;
+    case Tag.True:
+      return true;
+    case Tag.Uint:
+      return reader.varint();
+    case Tag.NegInt:
+      return -reader.varint();
+    case Tag.Decimal: {
+      const places = reader.byte();
+      return unzigzag(reader.varint()) / 10 ** places;
+    }
+    case Tag.Float: {
+      const buffer = new DataView(new ArrayBuffer(8));
+      for (let i = 0; i < 8; i++) buffer.setUint8(i, reader.byte());
+      return buffer.getFloat64(0);
+    }
+    case Tag.String:
+      return ethers.toUtf8String(reader.raw());
+    case Tag.Bytes:
+      return ethers.hexlify(reader.raw());
+    case Tag.Address:
+      return ethers.getAddress(ethers.hexlify(reader.raw()));
+    case Tag.TaskId: {
+      const time = reader.varint();
+      return `protein-${time}-${ethers.toUtf8String(reader.raw())}`;
+    }
+    case Tag.Word: {
+      const index = reader.varint();
+      if (index >= WORDS.length) throw new RecordCodecError(`Unknown word ${index}`);
+      return WORDS[index];
+    }
+    case Tag.Array:
+      return Array.from({ length: reader.count() }, () => readValue(reader));
+    case Tag.Object: {
+      const object: Record<string, unknown> = {};
+      const count = reader.count();
+      for (let i = 0; i < count; i++) {
+        const field = reader.varint();
+        if (field > FIELDS.length) throw new RecordCodecError(`Unknown field ${field}`);
+        const key = field === 0 ? ethers.toUtf8String(reader.raw()) : FIELDS[field - 1];
+        object[key] = readValue(reader);
+      }
+      return object;
+    }
+    default:
+      throw new RecordCodecError(`Unknown tag 0x${tag.toString(16)}`);
+  }
+}
+
+export function encodeRecord(value: unknown, format: RecordFormat = "binary"): Uint8Array {
+  if (format === "json") return ethers.toUtf8Bytes(JSON.stringify(value));
+  const writer = new Writer();
+  writer.byte(MAGIC);
+  writer.byte(LAYOUT_VERSION);
+  writeValue(writer, value);
+  return writer.result();
+}
+
+export function recordFormat(stored: ethers.BytesLike): RecordFormat {
+  return ethers.getBytes(stored)[0] === MAGIC ? "binary" : "json";
+}
+
+// Reads a stored value in either format
+export function decodeRecord(stored: ethers.BytesLike): unknown {
+  const bytes = ethers.getBytes(stored);
+  if (recordFormat(bytes) === "json") {
+    try {
+      return JSON.parse(ethers.toUtf8String(bytes));
+    } catch (e) {
+      throw new RecordCodecError(`Not JSON (${e instanceof Error ? e.message : String(e)})`);
+    }
+  }
+  if (bytes[1] !== LAYOUT_VERSION) throw new RecordCodecError(`Unsupported binary layout ${bytes[1]}`);
+  const reader = new Reader(bytes.subarray(2));
+  let value: unknown;
+  try {
+    value = readValue(reader);
+  } catch (e) {
+    // e.g. invalid UTF-8 inside a string
+    if (e instanceof RecordCodecError) throw e;
+    const reason = ethers.isError(e, "INVALID_ARGUMENT") ? e.shortMessage : e instanceof Error ? e.message : String(e);
+    throw new RecordCodecError(`Malformed record (${reason})`);
+  }
+  if (!reader.done) throw new RecordCodecError("Trailing bytes after record");
+  return value;
+}
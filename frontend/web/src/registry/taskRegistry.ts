@@ -0,0 +1,164 @@
+// registry/taskRegistry.ts
+// Tasks are discovered from the `task_<id>` keys seen in DataStored events, so creating a task is a
+// single setData call. The old shared `task_keys` array (read, append, write back) lost concurrent
+// submissions and orphaned records whose second transaction failed; it is no longer written.
+import { ethers } from "ethers";
+import type { TaskIndexer } from "../indexer/taskIndexer";
+import { LEASE_DURATION, LeaseConflictError, TaskRecordUpdate, claimRecord, holdsLease, releaseRecord, renewRecord } from "./lease";
+import { decodeRecord } from "./recordCodec";
+import { TaskRecord, TaskRecordInput, TaskSchemaError, encodeTaskRecord, parseTaskRecord } from "./taskSchema";
+
+export const TASK_KEY_PREFIX = "task_";
+export const LEGACY_TASK_KEYS = "task_keys";
+
+export interface RegisteredTask {
+  id: string;
+  data: TaskRecord;
+  // Address that wrote the latest version of the record
+  sender: string;
+  blockNumber: number;
+}
+
+// A record that could not be migrated to a valid TaskRecord; shown to users instead of being skipped
+export interface QuarantinedTask {
+  id: string;
+  reason: string;
+  // Stored value as text (decoded if possible, else hex), for inspection
+  raw: string;
+  sender: string;
+  blockNumber: number;
+}
+
+export interface TaskRegistryMigrationReport {
+  // IDs in the legacy `task_keys` array
+  listed: string[];
+  // IDs with a `task_<id>` record in the event history
+  discovered: string[];
+  // Records missing from `task_keys`, now visible through discovery
+  orphaned: string[];
+  // `task_keys` entries whose record was never written
+  dangling: string[];
+  // Why the `task_keys` array could not be read; `listed` is then empty
+  error?: string;
+}
+
+function storedText(value: string): string {
+  try {
+    return JSON.stringify(decodeRecord(value));
+  } catch {
+    return value;
+  }
+}
+
+export const taskKey = (id: string) => `${TASK_KEY_PREFIX}${id}`;
+
+export const isTaskKey = (key: string) => key.startsWith(TASK_KEY_PREFIX) && key !== LEGACY_TASK_KEYS;
+
+export const newTaskId = () => `protein-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+
+export class TaskRegistry {
+  // `readData` replaces the contract's own getData in readTask, e.g. with a quorum read
+  constructor(readonly indexer: TaskIndexer, private readonly readData?: (key: string) => Promise<string>) {}
+
+  taskIds(): string[] {
+    return this.indexer
+      .getKeys()
+      .filter(isTaskKey)
+      .filter(key => this.indexer.getEntry(key)?.value !== "0x")
+      .map(key => key.slice(TASK_KEY_PREFIX.length));
+  }
+
+  private loadTask(id: string): RegisteredTask | QuarantinedTask | undefined {
+    const entry = this.indexer.getEntry(taskKey(id));
+    if (!entry || entry.value === "0x") return undefined;
+    const { sender, blockNumber } = entry;
+    try {
+      return { id, data: parseTaskRecord(entry.value), sender, blockNumber };
+    } catch (e) {
+      const reason =
+        e instanceof TaskSchemaError
+          ? e.issues.map(i => `${i.field}: ${i.message}`).join("; ")
+          : `unreadable record (${e instanceof Error ? e.message : String(e)})`;
+      return { id, reason, raw: storedText(entry.value), sender, blockNumber };
+    }
+  }
+
+  getTask(id: string): RegisteredTask | undefined {
+    const task = this.loadTask(id);
+    return task && "data" in task ? task : undefined;
+  }
+
+  listTasks(): RegisteredTask[] {
+    return this.taskIds()
+      .map(id => this.loadTask(id))
+      .filter((task): task is RegisteredTask => task !== undefined && "data" in task);
+  }
+
+  listQuarantined(): QuarantinedTask[] {
+    return this.taskIds()
+      .map(id => this.loadTask(id))
+      .filter((task): task is QuarantinedTask => task !== undefined && "reason" in task);
+  }
+
+  // One transaction per write; no other key is touched. Throws TaskSchemaError before sending an invalid record.
+  async writeTask(contract: ethers.Contract, id: string, data: TaskRecordInput): Promise<ethers.ContractTransactionResponse> {
+    return contract.setData(taskKey(id), encodeTaskRecord(data));
+  }
+
+  // Reads the record straight from the contract rather than the index, for read-modify-write steps.
+  async readTask(contract: ethers.Contract, id: string): Promise<TaskRecord> {
+    const bytes: string = this.readData ? await this.readData(taskKey(id)) : await contract.getData(taskKey(id));
+    if (ethers.getBytes(bytes).length === 0) throw new Error(`Task ${id} not found`);
+    return parseTaskRecord(bytes);
+  }
+
+  private async commit(contract: ethers.Contract, id: string, data: TaskRecordInput): Promise<TaskRecord> {
+    const tx = await this.writeTask(contract, id, data);
+    await tx.wait();
+    return data as TaskRecord;
+  }
+
+  // Claims a pending or expired task. The record is read back once the claim is mined so a
+  // provider whose claim was overwritten by a concurrent one backs off; see lease.ts for what this cannot prevent.
+  async claim(contract: ethers.Contract, id: string, holder: string, duration = LEASE_DURATION): Promise<TaskRecord> {
+    const claimed = await this.commit(contract, id, claimRecord(id, await this.readTask(contract, id), holder, undefined, duration));
+    const current = await this.readTask(contract, id);
+    if (!holdsLease(current, holder)) {
+      throw new LeaseConflictError(`Task ${id} was claimed by ${current.lease?.holder ?? "another provider"}`, id, current.lease?.holder);
+    }
+    return claimed;
+  }
+
+  // Renews the caller's lease, saving progress with it. Throws LeaseLostError if the lease was taken over.
+  async heartbeat(contract: ethers.Contract, id: string, holder: string, progress: TaskRecordUpdate = {}, duration = LEASE_DURATION): Promise<TaskRecord> {
+    return this.commit(contract, id, renewRecord(id, await this.readTask(contract, id), holder, progress, undefined, duration));
+  }
+
+  async release(contract: ethers.Contract, id: string, holder: string, result: TaskRecordUpdate, status: "completed" | "failed" = "completed"): Promise<TaskRecord> {
+    return this.commit(contract, id, releaseRecord(id, await this.readTask(contract, id), holder, result, status));
+  }
+
+  // Compares the legacy `task_keys` array with the records found in past DataStored events.
+  migrationReport(): TaskRegistryMigrationReport {
+    let listed: string[] = [];
+    let error: string | undefined;
+    const entry = this.indexer.getEntry(LEGACY_TASK_KEYS);
+    if (entry && entry.value !== "0x") {
+      try {
+        const keys = decodeRecord(entry.value);
+        if (!Array.isArray(keys) || !keys.every(key => typeof key === "string")) throw new Error("not an array of task IDs");
+        listed = keys;
+      } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+      }
+    }
+    const discovered = this.taskIds();
+    return {
+      listed,
+      discovered,
+      orphaned: discovered.filter(id => !listed.includes(id)),
+      dangling: listed.filter(id => !discovered.includes(id)),
+      ...(error && { error })
+    };
+  }
+}
@@ -0,0 +1,195 @@
+// registry/taskSchema.ts
+// Versioned layout of the record stored under `task_<id>`. Records are migrated to the current version when
+// read and validated before they are written; a record that still fails validation is quarantined by the
+// registry with the reasons instead of being dropped.
+import { ethers } from "ethers";
+import { DEFAULT_PIPELINE, PipelineDefinition, StageProgress, pipelineIssues } from "../folding/pipeline";
+import type { StructurePayload } from "../structure/types";
+import type { TaskLease, TaskStatus } from "./lease";
+import { RecordCodecError, RecordFormat, decodeRecord, encodeRecord } from "./recordCodec";
+
+export const TASK_SCHEMA_VERSION = 3;
+
+// "expired" is derived from the lease when reading and never stored
+export type StoredTaskStatus = Exclude<TaskStatus, "expired">;
+
+export const STORED_TASK_STATUSES: StoredTaskStatus[] = ["pending", "claimed", "computing", "completed", "failed"];
+
+export interface TaskRecord {
+  version: typeof TASK_SCHEMA_VERSION;
+  proteinName: string;
+  owner: string;
+  // Unix seconds
+  timestamp: number;
+  status: StoredTaskStatus;
+  // Overall progress of the pipeline, 0..1
+  foldingProgress: number;
+  pipeline: PipelineDefinition;
+  // One entry per pipeline stage. Energies are only stored encrypted, so stage progress carries no energy.
+  stages: StageProgress[];
+  // euint32 handle (bytes32), or an "FHE-" ciphertext written by early clients
+  encryptedStructure: string;
+  inputProof?: string;
+  sequence?: string;
+  structure?: StructurePayload;
+  // Latest conformation and steps completed over all stages
+  conformation?: string;
+  stepsCompleted?: number;
+  computationTime?: number;
+  worker?: string;
+  claimedAt?: number;
+  lease?: TaskLease;
+  // Set when a worker released the task as failed
+  error?: string;
+}
+
+// What writers pass in; the version is stamped by the registry
+export type TaskRecordInput = Omit<TaskRecord, "version"> & { version?: number };
+
+export interface SchemaIssue {
+  field: string;
+  message: string;
+}
+
+export class TaskSchemaError extends Error {
+  constructor(readonly issues: SchemaIssue[]) {
+    super("Invalid task record: " + issues.map(i => `${i.field}: ${i.message}`).join("; "));
+    this.name = "TaskSchemaError";
+  }
+}
+
+const isHandle = (value: unknown) => typeof value === "string" && ethers.isHexString(value, 32);
+const isLegacyCiphertext = (value: unknown) => typeof value === "string" && value.startsWith("FHE-");
+const isTimestamp = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+const isNumber = (value: unknown) => typeof value === "number" && Number.isFinite(value);
+const toNumber = (value: unknown) => (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value)) ? Number(value) : value);
+
+// Version 0: records without a version field, as written before the schema existed. Numeric fields were
+// sometimes stored as strings and the progress was sometimes left out.
+const MIGRATIONS: Record<number, (record: any) => any> = {
+  0: record => ({
+    ...record,
+    version: 1,
+    status: record.status ?? "pending",
+    foldingProgress: toNumber(record.foldingProgress ?? 0),
+    timestamp: toNumber(record.timestamp),
+    stepsCompleted: toNumber(record.stepsCompleted),
+    computationTime: toNumber(record.computationTime)
+  }),
+  // Version 1: a single annealing run whose progress is the record's own stepsCompleted and conformation
+  1: record => {
+    const folded = typeof record.stepsCompleted === "number" && record.stepsCompleted > 0;
+    return {
+      ...record,
+      version: 2,
+      pipeline: DEFAULT_PIPELINE,
+      stages: [
+        folded
+          ? { stepsCompleted: record.stepsCompleted, conformation: record.conformation }
+          : { stepsCompleted: 0 }
+      ]
+    };
+  },
+  // Version 2: the plaintext energy was stored next to its ciphertext, in energyLevel and in each stage
+  2: ({ energyLevel, ...record }) => ({
+    ...record,
+    version: 3,
+    stages: Array.isArray(record.stages)
+      ? record.stages.map((stage: any) => {
+          if (typeof stage !== "object" || stage === null) return stage;
+          const { energy, ...progress } = stage;
+          return progress;
+        })
+      : record.stages
+  })
+};
+
+export function migrateTaskRecord(raw: unknown): unknown {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return raw;
+  let record: any = raw;
+  let version = record.version ?? 0;
+  while (Number.isInteger(version) && version < TASK_SCHEMA_VERSION && MIGRATIONS[version]) {
+    record = MIGRATIONS[version](record);
+    version = record.version;
+  }
+  return record;
+}
+
+export function taskRecordIssues(value: unknown): SchemaIssue[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return [{ field: "record", message: "not a JSON object" }];
+  const record = value as Record<string, any>;
+  const issues: SchemaIssue[] = [];
+  const check = (field: string, ok: boolean, message: string) => {
+    if (!ok) issues.push({ field, message });
+  };
+  const optional = (field: string, ok: (value: unknown) => boolean, message: string) => {
+    if (record[field] !== undefined) check(field, ok(record[field]), message);
+  };
+
+  if (record.version !== TASK_SCHEMA_VERSION) {
+    const newer = Number.isInteger(record.version) && record.version > TASK_SCHEMA_VERSION;
+    issues.push({ field: "version", message: newer ? `version ${record.version} is newer than this client supports` : `unknown version ${record.version}` });
+    return issues;
+  }
+  check("proteinName", typeof record.proteinName === "string" && record.proteinName.trim() !== "", "missing");
+  check("owner", typeof record.owner === "string" && ethers.isAddress(record.owner), "not an address");
+  check("timestamp", isTimestamp(record.timestamp), "not a unix timestamp");
+  check("status", STORED_TASK_STATUSES.includes(record.status), `not one of ${STORED_TASK_STATUSES.join(", ")}`);
+  check("foldingProgress", isNumber(record.foldingProgress) && record.foldingProgress >= 0 && record.foldingProgress <= 1, "not between 0 and 1");
+  check("encryptedStructure", isHandle(record.encryptedStructure) || isLegacyCiphertext(record.encryptedStructure), "not an encrypted handle");
+  const pipeline = pipelineIssues(record.pipeline);
+  pipeline.forEach(message => issues.push({ field: "pipeline", message }));
+  if (pipeline.length === 0) {
+    const stages: PipelineDefinition["stages"] = record.pipeline.stages;
+    check("stages", Array.isArray(record.stages) && record.stages.length === stages.length, `expected one entry per stage (${stages.length})`);
+    (Array.isArray(record.stages) ? record.stages : []).forEach((progress: StageProgress, i: number) => {
+      const steps = stages[i]?.steps ?? 0;
+      check(`stages[${i}]`, typeof progress === "object" && progress !== null && isTimestamp(progress.stepsCompleted) && progress.stepsCompleted <= steps, `steps completed not between 0 and ${steps}`);
+      if (progress?.conformation !== undefined) check(`stages[${i}]`, typeof progress.conformation === "string", "conformation is not a string");
+      if (progress?.energy !== undefined) check(`stages[${i}]`, false, "plaintext energy must not be stored");
+    });
+  }
+  optional("inputProof", v => typeof v === "string" && ethers.isHexString(v), "not hex");
+  optional("sequence", v => typeof v === "string" && v.length > 0, "not a sequence");
+  optional("structure", v => typeof v === "object" && v !== null && Array.isArray((v as StructurePayload).chains), "not a structure");
+  optional("conformation", v => typeof v === "string", "not a string");
+  optional("stepsCompleted", isTimestamp, "not a step count");
+  optional("computationTime", v => isNumber(v) && (v as number) >= 0, "not a duration");
+  check("energyLevel", record.energyLevel === undefined, "plaintext energy must not be stored");
+  optional("worker", v => typeof v === "string" && ethers.isAddress(v), "not an address");
+  optional("claimedAt", isTimestamp, "not a unix timestamp");
+  optional("error", v => typeof v === "string", "not a string");
+  optional(
+    "lease",
+    v => {
+      const lease = v as TaskLease;
+      return typeof lease === "object" && lease !== null && ethers.isAddress(lease.holder) &&
+        isTimestamp(lease.claimedAt) && isTimestamp(lease.heartbeatAt) && isTimestamp(lease.expiresAt);
+    },
+    "not a lease"
+  );
+  if (record.status === "claimed" || record.status === "computing") check("lease", record.lease !== undefined, `required while ${record.status}`);
+  return issues;
+}
+
+export function validateTaskRecord(value: unknown): TaskRecord {
+  const issues = taskRecordIssues(value);
+  if (issues.length > 0) throw new TaskSchemaError(issues);
+  return value as TaskRecord;
+}
+
+// Decodes (JSON or binary), migrates and validates a record as read from the chain
+export function parseTaskRecord(stored: ethers.BytesLike): TaskRecord {
+  let raw: unknown;
+  try {
+    raw = decodeRecord(stored);
+  } catch (e) {
+    if (!(e instanceof RecordCodecError)) throw e;
+    throw new TaskSchemaError([{ field: "record", message: e.message }]);
+  }
+  return validateTaskRecord(migrateTaskRecord(raw));
+}
+
+export function encodeTaskRecord(input: TaskRecordInput, format: RecordFormat = "binary"): Uint8Array {
+  return encodeRecord(validateTaskRecord({ ...input, version: TASK_SCHEMA_VERSION }), format);
+}
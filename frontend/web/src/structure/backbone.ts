@@ -0,0 +1,66 @@
+// structure/backbone.ts
+// C-alpha traces for the backbone viewer, built from imported coordinates or lattice conformations.
+import { Coordinate, decodeConformation, findContacts, isHydrophobic, toHpSequence } from "../folding/hpModel";
+import type { StructurePayload } from "./types";
+
+export interface Backbone {
+  points: Coordinate[];
+  // One-letter residue code and chain id per point
+  residues: string;
+  chains: string[];
+  // Hydrophobic contacts as pairs of point indices
+  contacts: [number, number][];
+}
+
+// Kyte-Doolittle hydropathy index
+export const HYDROPATHY: Record<string, number> = {
+  A: 1.8, R: -4.5, N: -3.5, D: -3.5, C: 2.5, Q: -3.5, E: -3.5, G: -0.4, H: -3.2, I: 4.5,
+  L: 3.8, K: -3.9, M: 1.9, F: 2.8, P: -1.6, S: -0.8, T: -0.7, W: -0.9, Y: -1.3, V: 4.2
+};
+
+// Lattice bonds are drawn at the usual C-alpha spacing so both sources share a scale
+const CA_SPACING = 3.8;
+// C-alpha pairs closer than this (Å) count as a hydrophobic contact in imported structures
+const CONTACT_CUTOFF = 6.5;
+
+export function backboneFromConformation(sequence: string, encodedConformation: string): Backbone {
+  const hp = toHpSequence(sequence);
+  const conformation = decodeConformation(encodedConformation);
+  if (conformation.length !== hp.length) throw new Error("Conformation does not match the sequence length");
+  return {
+    points: conformation.map(c => c.map(v => v * CA_SPACING) as Coordinate),
+    residues: sequence.replace(/\s+/g, "").toUpperCase(),
+    chains: conformation.map(() => "A"),
+    // A planar conformation has no neighbours along z, so the 3D search also covers 2D runs
+    contacts: findContacts(hp, conformation, 3)
+  };
+}
+
+export function backboneFromStructure(structure: StructurePayload): Backbone | null {
+  const points: Coordinate[] = [];
+  const chains: string[] = [];
+  let residues = "";
+  for (const chain of structure.chains) {
+    if (!chain.residues) continue;
+    chain.residues.forEach((residue, i) => {
+      points.push(residue.ca);
+      chains.push(chain.id);
+      residues += chain.sequence[i] ?? "X";
+    });
+  }
+  if (points.length === 0) return null;
+
+  const contacts: [number, number][] = [];
+  const cutoff = CONTACT_CUTOFF * CONTACT_CUTOFF;
+  for (let i = 0; i < points.length; i++) {
+    if (!isHydrophobic(residues[i])) continue;
+    for (let j = i + 1; j < points.length; j++) {
+      if (!isHydrophobic(residues[j]) || (chains[i] === chains[j] && j - i < 3)) continue;
+      const dx = points[i][0] - points[j][0];
+      const dy = points[i][1] - points[j][1];
+      const dz = points[i][2] - points[j][2];
+      if (dx * dx + dy * dy + dz * dz < cutoff) contacts.push([i, j]);
+    }
+  }
+  return { points, residues, chains, contacts };
+}
@@ -0,0 +1,70 @@
+// structure/fasta.ts
+import { ParseIssue, STANDARD_RESIDUES, StructureParseError, StructurePayload } from "./types";
+
+export interface FastaRecord {
+  header: string;
+  name: string;
+  sequence: string;
+  line: number;
+}
+
+// Parses one or more FASTA records. A bare sequence without a '>' header is accepted as a single record.
+export function parseFastaRecords(text: string): FastaRecord[] {
+  const records: FastaRecord[] = [];
+  const issues: ParseIssue[] = [];
+  let current: FastaRecord | null = null;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const lineNumber = index + 1;
+    const line = raw.trim();
+    if (line === "" || line.startsWith(";")) return;
+
+    if (line.startsWith(">")) {
+      const header = line.slice(1).trim();
+      // UniProt style ">sp|P69905|HBA_HUMAN Hemoglobin subunit alpha OS=..." -> "Hemoglobin subunit alpha"
+      const description = header.replace(/^\S+\s*/, "").replace(/\s+[A-Z]{2}=.*$/, "");
+      current = { header, name: description || header.split(/\s+/)[0] || `record ${records.length + 1}`, sequence: "", line: lineNumber };
+      records.push(current);
+      return;
+    }
+
+    if (!current) {
+      current = { header: "", name: "", sequence: "", line: lineNumber };
+      records.push(current);
+    }
+    const residues = line.replace(/\s+/g, "").toUpperCase();
+    const lastColumn = raw.trimEnd().length - 1;
+    for (let column = 0; column < raw.length; column++) {
+      const residue = raw[column].toUpperCase();
+      if (/\s/.test(residue) || (residue === "*" && column === lastColumn)) continue;
+      if (!STANDARD_RESIDUES.includes(residue)) {
+        issues.push({ line: lineNumber, message: `invalid residue '${residue}' at column ${column + 1}` });
+      }
+    }
+    current.sequence += residues.replace(/\*$/, "");
+  });
+
+  if (records.length === 0) issues.push({ line: 1, message: "no sequence found" });
+  for (const record of records) {
+    if (record.sequence.length === 0) issues.push({ line: record.line, message: "record has no residues" });
+  }
+  if (issues.length > 0) throw new StructureParseError("fasta", issues);
+  return records;
+}
+
+// UniProt ">sp|P69905|HBA_HUMAN ..." -> "P69905". Other IDs keep letters, digits, '.', '_' and '-';
+// records without one are lettered A, B, ... in file order.
+function fastaChainId(header: string, index: number): string {
+  const id = header.split(/\s+/)[0];
+  const accession = /^(?:sp|tr)\|([^|]+)\|/.exec(id)?.[1] ?? id;
+  return accession.replace(/[^A-Za-z0-9._-]+/g, "_").replace(/^_+|_+$/g, "") || String.fromCharCode(65 + (index % 26));
+}
+
+export function parseFasta(text: string): StructurePayload {
+  const records = parseFastaRecords(text);
+  return {
+    format: "fasta",
+    name: records[0].name,
+    chains: records.map((record, i) => ({ id: fastaChainId(record.header, i), sequence: record.sequence }))
+  };
+}
@@ -0,0 +1,28 @@
+// structure/import.ts
+import { parseFasta } from "./fasta";
+import { parseMmcif, parsePdb } from "./pdb";
+import { StructureFormat, StructurePayload } from "./types";
+
+export function detectStructureFormat(text: string, fileName = ""): StructureFormat {
+  const extension = fileName.toLowerCase().split(".").pop() ?? "";
+  if (["fasta", "fa", "faa", "fas", "seq"].includes(extension)) return "fasta";
+  if (["pdb", "ent"].includes(extension)) return "pdb";
+  if (["cif", "mmcif"].includes(extension)) return "mmcif";
+
+  const content = text.trimStart();
+  if (content.startsWith(">")) return "fasta";
+  if (content.startsWith("data_") || /^_atom_site\./m.test(content)) return "mmcif";
+  if (/^(HEADER|ATOM  |HETATM|MODEL )/m.test(content)) return "pdb";
+  return "fasta";
+}
+
+export function parseStructure(text: string, fileName = ""): StructurePayload {
+  switch (detectStructureFormat(text, fileName)) {
+    case "pdb":
+      return parsePdb(text);
+    case "mmcif":
+      return parseMmcif(text);
+    default:
+      return parseFasta(text);
+  }
+}
@@ -0,0 +1,190 @@
+// structure/pdb.ts
+// Reads C-alpha traces from PDB and mmCIF files. Only the first model is used.
+import type { Coordinate } from "../folding/hpModel";
+import { ChainStructure, ParseIssue, ResidueRecord, StructureParseError, StructurePayload, THREE_TO_ONE } from "./types";
+
+interface ChainBuilder {
+  id: string;
+  residues: ResidueRecord[];
+}
+
+const NUCLEOTIDES = new Set(["A", "C", "G", "U", "I", "DA", "DC", "DG", "DT", "DI"]);
+
+const roundCoordinate = (value: number) => Math.round(value * 1000) / 1000;
+
+function addResidue(
+  chains: Map<string, ChainBuilder>,
+  issues: ParseIssue[],
+  line: number,
+  chainId: string,
+  residueName: string,
+  residueNumber: number,
+  insertionCode: string,
+  ca: Coordinate
+) {
+  // Nucleic acid chains in complexes are not part of the protein payload
+  if (NUCLEOTIDES.has(residueName)) return;
+  if (!(residueName in THREE_TO_ONE)) {
+    issues.push({ line, message: `unknown residue '${residueName}' in chain ${chainId}` });
+    return;
+  }
+  if (ca.some(v => !Number.isFinite(v))) {
+    issues.push({ line, message: "invalid coordinates" });
+    return;
+  }
+  const chain = chains.get(chainId) ?? { id: chainId, residues: [] };
+  chains.set(chainId, chain);
+  const previous = chain.residues[chain.residues.length - 1];
+  // Alternate locations repeat a residue (same number and insertion code); keep the first one
+  if (previous && previous.number === residueNumber && (previous.insertionCode ?? "") === insertionCode) return;
+  chain.residues.push({
+    number: residueNumber,
+    ...(insertionCode && { insertionCode }),
+    name: residueName,
+    ca: ca.map(roundCoordinate) as Coordinate
+  });
+}
+
+function buildChains(chains: Map<string, ChainBuilder>): ChainStructure[] {
+  return [...chains.values()]
+    .filter(chain => chain.residues.length > 0)
+    .map(chain => ({
+      id: chain.id,
+      sequence: chain.residues.map(r => THREE_TO_ONE[r.name]).join(""),
+      residues: chain.residues
+    }));
+}
+
+export function parsePdb(text: string): StructurePayload {
+  const chains = new Map<string, ChainBuilder>();
+  const issues: ParseIssue[] = [];
+  let name = "";
+  let title = "";
+
+  const lines = text.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const lineNumber = index + 1;
+    const record = line.substring(0, 6).trim();
+
+    if (record === "ENDMDL") break;
+    if (record === "HEADER" && !name) name = line.substring(62, 66).trim();
+    if (record === "TITLE") title += (title ? " " : "") + line.substring(10).trim();
+    if (record === "COMPND" && !title) {
+      const molecule = line.substring(10).match(/MOLECULE:\s*([^;]+)/);
+      if (molecule) title = molecule[1].trim();
+    }
+    if (record !== "ATOM" && record !== "HETATM") continue;
+
+    if (line.length < 54) {
+      issues.push({ line: lineNumber, message: `${record} record is truncated (${line.length} columns)` });
+      continue;
+    }
+    if (line.substring(12, 16).trim() !== "CA") continue;
+
+    const residueName = line.substring(17, 20).trim();
+    // HETATM is only used for modified amino acids such as selenomethionine
+    if (record === "HETATM" && !(residueName in THREE_TO_ONE)) continue;
+
+    const residueNumber = parseInt(line.substring(22, 26), 10);
+    if (Number.isNaN(residueNumber)) {
+      issues.push({ line: lineNumber, message: "invalid residue number" });
+      continue;
+    }
+    const insertionCode = line.substring(26, 27).trim();
+    const chainId = line.substring(21, 22).trim() || "A";
+    const ca: Coordinate = [
+      parseFloat(line.substring(30, 38)),
+      parseFloat(line.substring(38, 46)),
+      parseFloat(line.substring(46, 54))
+    ];
+    addResidue(chains, issues, lineNumber, chainId, residueName, residueNumber, insertionCode, ca);
+  }
+
+  const parsed = buildChains(chains);
+  if (parsed.length === 0 && issues.length === 0) issues.push({ line: lines.length, message: "no C-alpha atoms found" });
+  if (issues.length > 0) throw new StructureParseError("pdb", issues);
+  return { format: "pdb", name: title || name || "Imported structure", chains: parsed };
+}
+
+// Splits an mmCIF data line into tokens, honouring single and double quotes.
+function tokenize(line: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /'([^']*)'(?=\s|$)|"([^"]*)"(?=\s|$)|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line)) !== null) {
+    tokens.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return tokens;
+}
+
+export function parseMmcif(text: string): StructurePayload {
+  const chains = new Map<string, ChainBuilder>();
+  const issues: ParseIssue[] = [];
+  const lines = text.split(/\r?\n/);
+  let name = "";
+  let title = "";
+  let firstModel: string | null = null;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (line.startsWith("data_") && !name) name = line.slice(5);
+    if (line.startsWith("_struct.title")) {
+      title = tokenize(line).slice(1).join(" ") || tokenize(lines[index + 1] ?? "").join(" ");
+    }
+    if (line !== "loop_" || !(lines[index + 1] ?? "").trim().startsWith("_atom_site.")) continue;
+
+    const columns: string[] = [];
+    index++;
+    while (index < lines.length && lines[index].trim().startsWith("_atom_site.")) {
+      columns.push(lines[index].trim().slice("_atom_site.".length));
+      index++;
+    }
+    const column = (field: string) => columns.indexOf(field);
+    const required = ["group_PDB", "label_atom_id", "label_comp_id", "Cartn_x", "Cartn_y", "Cartn_z"];
+    const missing = required.filter(field => column(field) < 0);
+    if (missing.length > 0) {
+      issues.push({ line: index, message: `_atom_site loop is missing ${missing.join(", ")}` });
+      break;
+    }
+    const chainColumn = column("auth_asym_id") >= 0 ? column("auth_asym_id") : column("label_asym_id");
+    const seqColumn = column("auth_seq_id") >= 0 ? column("auth_seq_id") : column("label_seq_id");
+    const insertionColumn = column("pdbx_PDB_ins_code");
+
+    for (; index < lines.length; index++) {
+      const row = lines[index].trim();
+      if (row === "" || row === "#" || row.startsWith("_") || row === "loop_") break;
+      const lineNumber = index + 1;
+      const values = tokenize(row);
+      if (values.length !== columns.length) {
+        issues.push({ line: lineNumber, message: `expected ${columns.length} values, found ${values.length}` });
+        continue;
+      }
+      const model = column("pdbx_PDB_model_num") >= 0 ? values[column("pdbx_PDB_model_num")] : "1";
+      firstModel = firstModel ?? model;
+      if (model !== firstModel) break;
+
+      const group = values[column("group_PDB")];
+      const residueName = values[column("label_comp_id")];
+      if (values[column("label_atom_id")] !== "CA") continue;
+      if (group === "HETATM" && !(residueName in THREE_TO_ONE)) continue;
+
+      const residueNumber = seqColumn >= 0 ? parseInt(values[seqColumn], 10) : lineNumber;
+      const ca: Coordinate = [
+        parseFloat(values[column("Cartn_x")]),
+        parseFloat(values[column("Cartn_y")]),
+        parseFloat(values[column("Cartn_z")])
+      ];
+      // "?" and "." mark an empty insertion code
+      const insertionCode = insertionColumn >= 0 ? values[insertionColumn].replace(/^[?.]$/, "") : "";
+      const chainId = chainColumn >= 0 ? values[chainColumn] : "A";
+      addResidue(chains, issues, lineNumber, chainId, residueName, residueNumber, insertionCode, ca);
+    }
+    break;
+  }
+
+  const parsed = buildChains(chains);
+  if (parsed.length === 0 && issues.length === 0) issues.push({ line: lines.length, message: "no C-alpha atoms found in _atom_site" });
+  if (issues.length > 0) throw new StructureParseError("mmcif", issues);
+  return { format: "mmcif", name: title || name || "Imported structure", chains: parsed };
+}
@@ -0,0 +1,47 @@
+// structure/types.ts
+import type { Coordinate } from "../folding/hpModel";
+
+export type StructureFormat = "fasta" | "pdb" | "mmcif";
+
+export interface ResidueRecord {
+  // Author residue number from the file
+  number: number;
+  // PDB insertion code, e.g. "A" for residue 52A that follows 52; left out when blank
+  insertionCode?: string;
+  name: string;
+  // C-alpha position in Ångström
+  ca: Coordinate;
+}
+
+export interface ChainStructure {
+  id: string;
+  sequence: string;
+  residues?: ResidueRecord[];
+}
+
+export interface StructurePayload {
+  format: StructureFormat;
+  name: string;
+  chains: ChainStructure[];
+}
+
+export interface ParseIssue {
+  line: number;
+  message: string;
+}
+
+export class StructureParseError extends Error {
+  constructor(readonly format: StructureFormat, readonly issues: ParseIssue[]) {
+    super(`${format.toUpperCase()} parse failed: ` + issues.map(i => `line ${i.line}: ${i.message}`).join("; "));
+    this.name = "StructureParseError";
+  }
+}
+
+export const STANDARD_RESIDUES = "ACDEFGHIKLMNPQRSTVWY";
+
+export const THREE_TO_ONE: Record<string, string> = {
+  ALA: "A", ARG: "R", ASN: "N", ASP: "D", CYS: "C", GLN: "Q", GLU: "E", GLY: "G", HIS: "H", ILE: "I",
+  LEU: "L", LYS: "K", MET: "M", PHE: "F", PRO: "P", SER: "S", THR: "T", TRP: "W", TYR: "Y", VAL: "V",
+  // common modified residues mapped to their parent amino acid
+  MSE: "M", SEC: "C", HSD: "H", HSE: "H", HSP: "H", HID: "H", HIE: "H", HIP: "H", CYX: "C"
+};
@@ -0,0 +1,239 @@
+// worker/foldingWorker.ts
+// Compute node loop: picks up pending tasks from the registry, folds them and posts the results.
+// Used by the `task:worker` hardhat task; has no browser or Node specific dependencies.
+import { ethers } from "ethers";
+import { FheBackend, toEncryptedUint32 } from "../fhe/backend";
+import type { PipelineRun } from "../folding/pipeline";
+import { FHEProteinFoldingCompute, pipelineRecordFields, taskPipeline } from "../folding/taskCompute";
+import type { ProteinFoldingClient } from "../proteinFolding/client";
+import { LEASE_DURATION, LeaseConflictError, LeaseLostError, isClaimable } from "../registry/lease";
+import { RegisteredTask, TaskRegistry } from "../registry/taskRegistry";
+import type { TaskRecord } from "../registry/taskSchema";
+
+export interface FoldingWorkerOptions {
+  registry: TaskRegistry;
+  // UniversalAdapter connected to the worker's signer
+  adapter: ethers.Contract;
+  workerAddress: string;
+  fhe: FheBackend;
+  // Stores each result's energy with storeTaskEnergy, so the task owner can decrypt it
+  folding: ProteinFoldingClient;
+  // When set, each result is also submitted to the open batch of this project with submitFoldingData
+  projectId?: bigint;
+  concurrency?: number;
+  pollIntervalMs?: number;
+  // Most pipeline steps folded per claimed task; by default the whole remaining pipeline
+  steps?: number;
+  leaseSeconds?: number;
+  log?: (message: string) => void;
+}
+
+export interface WorkerSummary {
+  completed: string[];
+  failed: { id: string; error: string }[];
+  submitted: number;
+  // Completed tasks whose score could not be submitted; they stay completed in the registry
+  submissionsFailed: { id: string; error: string }[];
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+// Pipeline steps folded between lease checks
+const SEGMENT_STEPS = 2000;
+
+export class FoldingWorker {
+  private readonly options: Required<Omit<FoldingWorkerOptions, "projectId">> & Pick<FoldingWorkerOptions, "projectId">;
+  private readonly running = new Map<string, Promise<void>>();
+  private readonly summary: WorkerSummary = { completed: [], failed: [], submitted: 0, submissionsFailed: [] };
+  // Transactions from one signer are sent one at a time so concurrent tasks never race for a nonce
+  private sendQueue: Promise<unknown> = Promise.resolve();
+  private stopping = false;
+  private wake: (() => void) | null = null;
+
+  constructor(options: FoldingWorkerOptions) {
+    this.options = {
+      concurrency: 1,
+      pollIntervalMs: 15000,
+      leaseSeconds: LEASE_DURATION,
+      log: console.log,
+      ...options,
+      steps: options.steps ?? Infinity,
+      workerAddress: ethers.getAddress(options.workerAddress)
+    };
+  }
+
+  get activeTasks(): string[] {
+    return [...this.running.keys()];
+  }
+
+  // Registers the worker as a score provider when it owns the contract. Returns whether it can submit scores.
+  async ensureProvider(): Promise<boolean> {
+    const { folding, projectId, workerAddress, log } = this.options;
+    if (projectId === undefined) return false;
+    if ((await folding.getProject(projectId)).id === 0n) {
+      log(`project #${projectId} does not exist on ${folding.address}; scores will not be submitted`);
+      return false;
+    }
+    if (await folding.isProvider(workerAddress)) return true;
+    if ((await folding.owner()).toLowerCase() !== workerAddress.toLowerCase()) {
+      log(`${workerAddress} is not a provider on ${folding.address}; scores will not be submitted`);
+      return false;
+    }
+    await this.enqueue(() => folding.addProvider(workerAddress));
+    log(`registered ${workerAddress} as provider`);
+    return true;
+  }
+
+  // Runs until stop() is called, or until no pending task is left when `once` is set.
+  async run({ once = false }: { once?: boolean } = {}): Promise<WorkerSummary> {
+    const { registry, concurrency, pollIntervalMs, log } = this.options;
+    const canSubmit = await this.ensureProvider();
+    log(`worker ${this.options.workerAddress} started (concurrency ${concurrency})`);
+
+    while (!this.stopping) {
+      await registry.indexer.sync();
+      const pending = this.pendingTasks();
+      for (const task of pending.slice(0, concurrency - this.running.size)) {
+        const job = this.process(task, canSubmit).finally(() => {
+          this.running.delete(task.id);
+          this.wake?.();
+        });
+        this.running.set(task.id, job);
+      }
+      if (once && this.running.size === 0 && pending.length === 0) break;
+      await this.idle(pollIntervalMs);
+    }
+
+    await Promise.allSettled(this.running.values());
+    const { completed, failed, submissionsFailed } = this.summary;
+    log(`worker stopped: ${completed.length} completed, ${failed.length} failed, ${submissionsFailed.length} score submission(s) failed`);
+    return this.summary;
+  }
+
+  // Stops claiming new tasks; run() resolves once the tasks in progress are finished.
+  stop() {
+    this.stopping = true;
+    this.wake?.();
+  }
+
+  // Waits for the next poll, a finished task or stop(), whichever comes first
+  private idle(ms: number) {
+    return new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, ms);
+      this.wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    }).finally(() => {
+      this.wake = null;
+    });
+  }
+
+  private pendingTasks(): RegisteredTask[] {
+    return this.options.registry
+      .listTasks()
+      .filter(task => isClaimable(task.data) && task.data.sequence && !this.running.has(task.id))
+      .sort((a, b) => a.data.timestamp - b.data.timestamp);
+  }
+
+  private enqueue<T>(send: () => Promise<T>): Promise<T> {
+    const result = this.sendQueue.then(send);
+    this.sendQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async process(task: RegisteredTask, canSubmit: boolean) {
+    const { registry, adapter, folding, workerAddress, fhe, steps, leaseSeconds, log } = this.options;
+
+    let record: TaskRecord;
+    try {
+      record = await this.enqueue(() => registry.claim(adapter, task.id, workerAddress, leaseSeconds));
+    } catch (e) {
+      log(e instanceof LeaseConflictError ? `[${task.id}] ${e.message}, skipping` : `[${task.id}] claim failed: ${errorMessage(e)}`);
+      return;
+    }
+
+    let score: number;
+    try {
+      const stageCount = taskPipeline(record).stages.length;
+      log(`[${task.id}] folding ${record.sequence?.length ?? 0} residues through ${stageCount} stage(s) from step ${record.stepsCompleted || 0}`);
+      // Fold in segments; once a third of the lease has passed it is renewed, saving progress
+      let run: PipelineRun;
+      let stepsFolded = 0;
+      let lastHeartbeat = Date.now();
+      let computationTime = record.computationTime || 0;
+      do {
+        run = FHEProteinFoldingCompute(record, Math.min(SEGMENT_STEPS, steps - stepsFolded));
+        stepsFolded += run.stepsRun;
+        computationTime += run.elapsedMs / 1000;
+        record = { ...record, ...pipelineRecordFields(run), computationTime: Math.round(computationTime) };
+        if (!run.done && Date.now() - lastHeartbeat > (leaseSeconds * 1000) / 3) {
+          const progress = record;
+          record = await this.enqueue(() => registry.heartbeat(adapter, task.id, workerAddress, progress, leaseSeconds));
+          lastHeartbeat = Date.now();
+        }
+        await sleep(0);
+      } while (!run.done && run.stepsRun > 0 && stepsFolded < steps);
+
+      // HP energy is <= 0, so the contact count (-energy) is what gets encrypted
+      const encrypted = await fhe.encryptUint32(toEncryptedUint32(-run.energy), folding.address, workerAddress);
+      const taskOwner = record.owner;
+      const { handle } = await this.enqueue(() => folding.storeTaskEnergy(task.id, taskOwner, encrypted));
+      const final = {
+        ...pipelineRecordFields(run),
+        computationTime: record.computationTime,
+        encryptedStructure: handle,
+        inputProof: encrypted.inputProof,
+        foldingProgress: 1.0
+      };
+      await this.enqueue(() => registry.release(adapter, task.id, workerAddress, final));
+      this.summary.completed.push(task.id);
+      log(`[${task.id}] completed ${run.stepsCompleted}/${run.totalSteps} steps, energy ${run.energy}`);
+      score = -run.energy;
+    } catch (e) {
+      if (e instanceof LeaseLostError) {
+        log(`[${task.id}] ${e.message}, abandoning`);
+        return;
+      }
+      const error = errorMessage(e);
+      this.summary.failed.push({ id: task.id, error });
+      log(`[${task.id}] failed: ${error}`);
+      await this.enqueue(() => registry.release(adapter, task.id, workerAddress, { error }, "failed")).catch(() => undefined);
+      return;
+    }
+
+    // The result is already released as completed, so a failed submission is reported on its own
+    if (!canSubmit) return;
+    try {
+      if (await this.submitScore(score)) this.summary.submitted++;
+    } catch (e) {
+      const error = errorMessage(e);
+      this.summary.submissionsFailed.push({ id: task.id, error });
+      log(`[${task.id}] score submission failed: ${error}`);
+    }
+  }
+
+  // Adds the score to the project's open batch, waiting out the per-provider cooldown first. The score is the
+  // negated energy, so the contract's highest score is the best fold.
+  private async submitScore(score: number): Promise<boolean> {
+    const folding = this.options.folding;
+    const projectId = this.options.projectId!;
+    const batchId = await folding.currentBatchId(projectId);
+    const batch = await folding.getBatch(projectId, batchId);
+    if (!batch.active || (await folding.paused())) {
+      this.options.log(`project #${projectId} has no open batch, score not submitted`);
+      return false;
+    }
+    const encrypted = await this.options.fhe.encryptUint32(toEncryptedUint32(score), folding.address, this.options.workerAddress);
+    await this.enqueue(async () => {
+      const readyAt = Number((await folding.lastSubmissionTime(this.options.workerAddress)) + (await folding.cooldownSeconds()));
+      const latest = await folding.contract.runner?.provider?.getBlock("latest");
+      const wait = readyAt - (latest?.timestamp ?? Math.floor(Date.now() / 1000));
+      if (wait > 0) await sleep(wait * 1000);
+      return folding.submitFoldingData(projectId, batchId, encrypted);
+    });
+    return true;
+  }
+}
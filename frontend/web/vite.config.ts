@@ -1,23 +1,24 @@
-import { defineConfig } from "vite";
-import react from "@vitejs/plugin-react";
-
-export default defineConfig({
-  plugins: [react()],
-  define: {
-    'process.env': process.env
-  },
-  esbuild: {
-    target: "es2022",
-    supported: {
-      'import-assertions': true
-    }
-  },
-  optimizeDeps: {
-    esbuildOptions: {
-      target: "es2022",
-      supported: {
-        'import-assertions': true
-      }
-    }
-  }
+import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react";
+
+export default defineConfig({
+  plugins: [react()],
+  // The typechain bindings under /types import ethers from the root node_modules; bundle a single copy
+  resolve: {
+    dedupe: ["ethers"]
+  },
+  esbuild: {
+    target: "es2022",
+    supported: {
+      'import-assertions': true
+    }
+  },
+  optimizeDeps: {
+    esbuildOptions: {
+      target: "es2022",
+      supported: {
+        'import-assertions': true
+      }
+    }
+  }
 });
\ No newline at end of file
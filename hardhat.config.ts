@@ -2,9 +2,22 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "hardhat-deploy";
+
+import "./tasks/aclInspector";
+import "./tasks/foldingAdmin";
+import "./tasks/keystore";
+import "./tasks/localStack";
+import "./tasks/mockRelayer";
+import "./tasks/recordGas";
+import "./tasks/taskRegistry";
+import "./tasks/worker";
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
+  namedAccounts: {
+    deployer: 0,
+  },
   networks: {
     hardhat: {
       chainId: 31337,
@@ -12,6 +25,7 @@ const config: HardhatUserConfig = {
     sepolia: {
       chainId: 11155111,
       url: "https://sepolia.drpc.org",
+      // Filled from the encrypted deployer keystore by `hardhat deploy`
       accounts: [],
     },
   },
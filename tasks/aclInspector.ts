@@ -0,0 +1,110 @@
+import { ethers } from "ethers";
+import { task, types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+import adapterConfig from "../frontend/web/src/config.json";
+import { aclAddressFor, connectAcl, inspectHandle, isHandle } from "../frontend/web/src/fhe/aclInspector";
+import { TaskIndexer } from "../frontend/web/src/indexer/taskIndexer";
+import { knownParties } from "../frontend/web/src/proteinFolding/access";
+import { ProteinFoldingClient } from "../frontend/web/src/proteinFolding/client";
+import { FoldingEventIndex } from "../frontend/web/src/proteinFolding/eventIndex";
+import { TaskRegistry } from "../frontend/web/src/registry/taskRegistry";
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:inspect-acl --folding 0x... --submission 3
+ *   - npx hardhat --network sepolia task:inspect-acl --task protein-1700000000000-abc123
+ *   - npx hardhat --network sepolia task:inspect-acl --handle 0x... --folding 0x... --accounts 0x...,0x...
+ */
+task("task:inspect-acl", "Shows which accounts and contracts the FHEVM ACL lets use a ciphertext handle")
+  .addOptionalParam("handle", "Ciphertext handle")
+  .addOptionalParam("submission", "ProteinFoldingFHE submission whose score to inspect", undefined, types.int)
+  .addOptionalParam("task", "Task whose encrypted structure to inspect")
+  .addOptionalParam("folding", "ProteinFoldingFHE contract address, whose grants and parties are checked")
+  .addOptionalParam("address", "UniversalAdapter contract address", adapterConfig.contractAddress)
+  .addOptionalParam("acl", "ACL contract address (defaults to the known ACL of the network)")
+  .addOptionalParam("accounts", "Comma-separated addresses to check in addition to the known parties")
+  .addOptionalParam(
+    "from",
+    "First block to scan (defaults to the oldest contract's deployment block)",
+    undefined,
+    types.int,
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const sources = ["handle", "submission", "task"].filter((name) => taskArguments[name] !== undefined);
+    if (sources.length !== 1) throw new Error("Pass exactly one of --handle, --submission and --task");
+    const provider = hre.ethers.provider;
+    const labels = new Map<string, string>();
+    const grantors: string[] = [];
+    let handle: string = taskArguments.handle;
+    let fromBlock: number | undefined = taskArguments.from;
+
+    // The default adapter address only exists on Sepolia
+    const adapter = ethers.getAddress(taskArguments.address);
+    if ((await provider.getCode(adapter)) !== "0x") {
+      grantors.push(adapter);
+      labels.set(adapter, "UniversalAdapter");
+    } else if (taskArguments.task !== undefined) {
+      throw new Error(`No UniversalAdapter deployed at ${adapter} on ${hre.network.name}`);
+    }
+
+    if (taskArguments.folding) {
+      const folding = ethers.getAddress(taskArguments.folding);
+      const index = new FoldingEventIndex({ provider, address: folding, confirmations: 0 });
+      await index.sync();
+      const client = new ProteinFoldingClient(folding, provider);
+      grantors.push(folding);
+      labels.set(folding, "ProteinFoldingFHE");
+      knownParties(index.events(), await client.owner()).forEach((label, account) => labels.set(account, label));
+
+      if (taskArguments.submission !== undefined) {
+        const submission = await client.getSubmission(taskArguments.submission);
+        if (submission.id === 0n) throw new Error(`Submission #${taskArguments.submission} does not exist`);
+        handle = submission.score;
+        const submitted = index
+          .events()
+          .find((event) => event.name === "FoldingDataSubmitted" && event.args.submissionId === submission.id);
+        fromBlock ??= submitted?.blockNumber;
+      }
+    } else if (taskArguments.submission !== undefined) {
+      throw new Error("--submission needs --folding");
+    }
+
+    if (taskArguments.task !== undefined) {
+      const indexer = new TaskIndexer({ provider, address: adapter, confirmations: 0 });
+      await indexer.sync();
+      const registered = new TaskRegistry(indexer).getTask(taskArguments.task);
+      if (!registered) throw new Error(`Task ${taskArguments.task} not found on ${adapter}`);
+      handle = registered.data.encryptedStructure;
+      labels.set(ethers.getAddress(registered.data.owner), "task owner");
+    }
+    if (!isHandle(handle)) throw new Error(`${handle} is not a ciphertext handle`);
+
+    const accounts = taskArguments.accounts ? String(taskArguments.accounts).split(",") : [];
+    for (const account of accounts) {
+      if (!ethers.isAddress(account.trim())) throw new Error(`--accounts ${account} is not an address`);
+    }
+    const acl = taskArguments.acl ?? aclAddressFor((await provider.getNetwork()).chainId);
+    const report = await inspectHandle(connectAcl(acl, provider), handle, {
+      grantors,
+      candidates: [...labels.keys(), ...accounts.map((account) => account.trim())],
+      fromBlock,
+    });
+
+    const named = (account: string) => (labels.has(account) ? `${account} (${labels.get(account)})` : account);
+    console.log(`handle      : ${report.handle}`);
+    console.log(`public      : ${report.publiclyDecryptable ? "publicly decryptable" : "not publicly decryptable"}`);
+    console.log(`allowed     : ${report.allowed.length}`);
+    for (const grant of report.allowed) {
+      const origin = grant.grantedBy ? `, granted by ${named(grant.grantedBy)} in block ${grant.blockNumber}` : "";
+      console.log(`  ${named(grant.account)}${origin}`);
+    }
+    console.log(`not allowed : ${report.notAllowed.length}`);
+    report.notAllowed.forEach((account) => console.log(`  ${named(account)}`));
+    console.log(`delegations : ${report.delegations.length}`);
+    for (const delegation of report.delegations) {
+      console.log(
+        `  ${named(delegation.delegatee)} for ${named(delegation.delegator)} via ${delegation.contracts.join(", ")}`,
+      );
+    }
+  });
@@ -0,0 +1,117 @@
+import { ethers } from "ethers";
+import fs from "fs";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import path from "path";
+
+import { ProteinFoldingClient } from "../frontend/web/src/proteinFolding/client";
+
+// Built-in frontend network profiles that read their addresses from deployments.json
+export type FrontendProfile = "localhost" | "sepolia";
+
+export interface DeploymentPlan {
+  // Frontend network profile that receives the deployed addresses
+  profile?: FrontendProfile;
+  // Final owner of ProteinFoldingFHE, set after the rest of the wiring; defaults to the deployer
+  owner?: string;
+  // Allowed to submit scores in addition to the deployer, which the constructor registers
+  providers: string[];
+  cooldownSeconds: number;
+  // Created with its first batch open while the contract has no project, so workers, which submit to
+  // project 1 unless told otherwise, have a batch to submit to. The manager defaults to the deployer.
+  defaultProject?: { name: string; manager?: string };
+}
+
+// One plan per hardhat network. `npx hardhat deploy --network <name>` deploys what changed and re-applies the
+// plan, sending only the transactions needed to reach it.
+export const DEPLOYMENT_PLANS: Record<string, DeploymentPlan> = {
+  localhost: { profile: "localhost", providers: [], cooldownSeconds: 0, defaultProject: { name: "Local campaign" } },
+  sepolia: { profile: "sepolia", providers: [], cooldownSeconds: 60, defaultProject: { name: "Protein folding" } },
+};
+
+export function deploymentPlan(hre: HardhatRuntimeEnvironment): DeploymentPlan {
+  const plan = DEPLOYMENT_PLANS[hre.network.name];
+  if (!plan) throw new Error(`No deployment plan for network ${hre.network.name}; add one to DEPLOYMENT_PLANS`);
+  return plan;
+}
+
+// The in-process network is reset on every run, and `hardhat node` leaves deployments to task:local-stack
+export const skipInProcessNetwork = async (hre: HardhatRuntimeEnvironment) => hre.network.name === "hardhat";
+
+// Brings the owner settings of ProteinFoldingFHE in line with the plan
+export async function applyDeploymentPlan(client: ProteinFoldingClient, deployer: string, plan: DeploymentPlan) {
+  const owner = await client.owner();
+  if (owner !== ethers.getAddress(deployer)) {
+    console.log(`ProteinFoldingFHE is owned by ${owner}, skipping wiring`);
+    return;
+  }
+  for (const provider of plan.providers.map((address) => ethers.getAddress(address))) {
+    if (await client.isProvider(provider)) continue;
+    await client.addProvider(provider);
+    console.log(`added provider ${provider}`);
+  }
+  if ((await client.cooldownSeconds()) !== BigInt(plan.cooldownSeconds)) {
+    await client.setCooldownSeconds(plan.cooldownSeconds);
+    console.log(`set cooldown to ${plan.cooldownSeconds}s`);
+  }
+  if (plan.defaultProject && (await client.projectCount()) === 0n) {
+    const manager = ethers.getAddress(plan.defaultProject.manager ?? deployer);
+    const { projectId } = await client.createProject(plan.defaultProject.name, manager);
+    // Still the owner here, so the deployer may open the batch for any manager
+    await client.openBatch(projectId);
+    console.log(`created project #${projectId} "${plan.defaultProject.name}" managed by ${manager}, batch #1 open`);
+  }
+  if (plan.owner && ethers.getAddress(plan.owner) !== owner) {
+    await client.transferOwnership(ethers.getAddress(plan.owner));
+    console.log(`transferred ownership to ${plan.owner}`);
+  }
+}
+
+export interface DeployedContracts {
+  chainId: number;
+  adapter: string;
+  folding: string;
+  deployer: string;
+}
+
+const FRONTEND_SRC = path.join("frontend", "web", "src");
+
+// Writes only when the content changed, so re-running a deployment leaves the tree untouched
+function writeJson(file: string, value: unknown) {
+  const content = JSON.stringify(value, null, 2) + "\n";
+  if (fs.existsSync(file) && fs.readFileSync(file, "utf8") === content) return false;
+  fs.writeFileSync(file, content);
+  return true;
+}
+
+// Copies the deployed addresses into the frontend; the ABI comes from the typechain factory
+export async function exportToFrontend(hre: HardhatRuntimeEnvironment, plan: DeploymentPlan) {
+  const root = path.join(hre.config.paths.root, FRONTEND_SRC);
+  const { deployer } = await hre.getNamedAccounts();
+  const adapter = await hre.deployments.get("UniversalAdapter");
+  const folding = await hre.deployments.get("ProteinFoldingFHE");
+
+  if (!plan.profile) {
+    console.log(`No frontend profile for ${hre.network.name}; enter the addresses in the custom profile`);
+    return;
+  }
+  const deploymentsFile = path.join(root, "network", "deployments.json");
+  const deployments = JSON.parse(fs.readFileSync(deploymentsFile, "utf8"));
+  const deployed: DeployedContracts = {
+    chainId: Number((await hre.ethers.provider.getNetwork()).chainId),
+    adapter: adapter.address,
+    folding: folding.address,
+    deployer,
+  };
+  if (writeJson(deploymentsFile, { ...deployments, [plan.profile]: deployed })) {
+    console.log(`updated the ${plan.profile} profile in ${path.relative(hre.config.paths.root, deploymentsFile)}`);
+  }
+
+  // config.json holds the Sepolia adapter used as the default by the CLI tasks
+  if (plan.profile === "sepolia") {
+    const configFile = path.join(root, "config.json");
+    const config = JSON.parse(fs.readFileSync(configFile, "utf8"));
+    if (writeJson(configFile, { ...config, contractAddress: adapter.address, deployer })) {
+      console.log(`updated ${path.relative(hre.config.paths.root, configFile)}`);
+    }
+  }
+}
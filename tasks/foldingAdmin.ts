@@ -0,0 +1,255 @@
+import { ethers } from "ethers";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import {
+  adminHistory,
+  checkOwnershipConfirmation,
+  describeAdminChange,
+  listProviders,
+} from "../frontend/web/src/proteinFolding/admin";
+import { requestUndecryptedBatches, undecryptedBatches } from "../frontend/web/src/proteinFolding/batches";
+import { ProteinFoldingClient } from "../frontend/web/src/proteinFolding/client";
+import { FoldingEventIndex } from "../frontend/web/src/proteinFolding/eventIndex";
+import { listProjects } from "../frontend/web/src/proteinFolding/projects";
+
+async function ownerClient(hre: HardhatRuntimeEnvironment, address: string) {
+  const [signer] = await hre.ethers.getSigners();
+  const client = new ProteinFoldingClient(address, signer);
+  const owner = await client.owner();
+  if (owner !== (await signer.getAddress())) {
+    throw new Error(`${await signer.getAddress()} is not the owner of ${address} (owner is ${owner})`);
+  }
+  return client;
+}
+
+// The contract owner may act for every project manager
+async function managerClient(hre: HardhatRuntimeEnvironment, address: string, projectId: bigint) {
+  const [signer] = await hre.ethers.getSigners();
+  const client = new ProteinFoldingClient(address, signer);
+  const project = await client.getProject(projectId);
+  if (project.id === 0n) throw new Error(`Project #${projectId} does not exist on ${address}`);
+  const sender = await signer.getAddress();
+  if (sender !== project.manager && sender !== (await client.owner())) {
+    throw new Error(`${sender} does not manage project #${projectId} (manager is ${project.manager})`);
+  }
+  return client;
+}
+
+function parseAddress(value: string, name: string) {
+  if (!ethers.isAddress(value)) throw new Error(`--${name} ${value} is not an address`);
+  return ethers.getAddress(value);
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:folding-status --folding 0x...
+ *   - npx hardhat --network sepolia task:folding-status --folding 0x... --from 8500000
+ */
+task("task:folding-status", "Shows the owner, settings, projects, provider set and admin history of ProteinFoldingFHE")
+  .addParam("folding", "ProteinFoldingFHE contract address")
+  .addOptionalParam("from", "First block to scan (defaults to the deployment block)", undefined, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const client = new ProteinFoldingClient(taskArguments.folding, hre.ethers.provider);
+    const index = new FoldingEventIndex({
+      provider: hre.ethers.provider,
+      address: taskArguments.folding,
+      fromBlock: taskArguments.from,
+    });
+    await index.sync();
+    const owner = await client.owner();
+
+    console.log(`ProteinFoldingFHE ${index.address} indexed up to block ${index.syncedBlock}`);
+    console.log(`owner      : ${owner}`);
+    console.log(`paused     : ${await client.paused()}`);
+    console.log(`cooldown   : ${await client.cooldownSeconds()}s`);
+    const projects = listProjects(index.events());
+    console.log(`projects   : ${projects.length}`);
+    for (const project of projects) {
+      const { currentBatchId } = await client.getProject(project.id);
+      const batch = await client.getBatch(project.id, currentBatchId);
+      const state = `batch #${currentBatchId} ${batch.active ? "open" : "not open"}`;
+      console.log(`  #${project.id} ${project.name}: ${state}, managed by ${project.manager}`);
+    }
+    const providers = listProviders(index.events(), owner);
+    console.log(`providers  : ${providers.length}`);
+    providers.forEach((provider) => console.log(`  ${provider}`));
+    const history = adminHistory(index.events());
+    console.log(`history    : ${history.length} change(s)`);
+    history.forEach((change) => console.log(`  block ${change.blockNumber}: ${describeAdminChange(change)}`));
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:add-provider --folding 0x... --provider 0x...
+ */
+task("task:add-provider", "Allows an address to submit folding scores")
+  .addParam("folding", "ProteinFoldingFHE contract address")
+  .addParam("provider", "Provider address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const client = await ownerClient(hre, taskArguments.folding);
+    const provider = parseAddress(taskArguments.provider, "provider");
+    if (await client.isProvider(provider)) {
+      console.log(`${provider} is already a provider`);
+      return;
+    }
+    const receipt = await client.addProvider(provider);
+    console.log(`Added provider ${provider} (tx ${receipt.hash})`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:remove-provider --folding 0x... --provider 0x...
+ */
+task("task:remove-provider", "Revokes an address's permission to submit folding scores")
+  .addParam("folding", "ProteinFoldingFHE contract address")
+  .addParam("provider", "Provider address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const client = await ownerClient(hre, taskArguments.folding);
+    const provider = parseAddress(taskArguments.provider, "provider");
+    if (!(await client.isProvider(provider))) {
+      console.log(`${provider} is not a provider`);
+      return;
+    }
+    const receipt = await client.removeProvider(provider);
+    console.log(`Removed provider ${provider} (tx ${receipt.hash})`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-paused --folding 0x... --paused true
+ */
+task("task:set-paused", "Pauses or resumes submissions, batch changes and decryption requests")
+  .addParam("folding", "ProteinFoldingFHE contract address")
+  .addParam("paused", "true to pause, false to resume", undefined, types.boolean)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const client = await ownerClient(hre, taskArguments.folding);
+    const receipt = await client.setPaused(taskArguments.paused);
+    console.log(`${taskArguments.paused ? "Paused" : "Resumed"} ${client.address} (tx ${receipt.hash})`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-cooldown --folding 0x... --seconds 120
+ */
+task("task:set-cooldown", "Sets the minimum delay between submissions and decryption requests of one account")
+  .addParam("folding", "ProteinFoldingFHE contract address")
+  .addParam("seconds", "Cooldown in seconds", undefined, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    if (taskArguments.seconds < 0) throw new Error("--seconds must not be negative");
+    const client = await ownerClient(hre, taskArguments.folding);
+    const previous = await client.cooldownSeconds();
+    const receipt = await client.setCooldownSeconds(taskArguments.seconds);
+    console.log(`Cooldown changed from ${previous}s to ${taskArguments.seconds}s (tx ${receipt.hash})`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:create-project --folding 0x... --name "Trp-cage"
+ *   - npx hardhat --network sepolia task:create-project --folding 0x... --name "Villin headpiece" --manager 0x...
+ */
+task("task:create-project", "Creates a research project with its own manager and batch sequence")
+  .addParam("folding", "ProteinFoldingFHE contract address")
+  .addParam("name", "Project name")
+  .addOptionalParam("manager", "Project manager (defaults to the signer)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const client = await ownerClient(hre, taskArguments.folding);
+    const [signer] = await hre.ethers.getSigners();
+    const manager = taskArguments.manager ? parseAddress(taskArguments.manager, "manager") : signer.address;
+    const { projectId, receipt } = await client.createProject(taskArguments.name, manager);
+    console.log(`Created project #${projectId} "${taskArguments.name}" managed by ${manager} (tx ${receipt.hash})`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-project-manager --folding 0x... --project 2 --manager 0x...
+ */
+task("task:set-project-manager", "Hands a project's batches over to another manager")
+  .addParam("folding", "ProteinFoldingFHE contract address")
+  .addParam("project", "Project id", undefined, types.int)
+  .addParam("manager", "New manager address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const projectId = BigInt(taskArguments.project);
+    const client = await managerClient(hre, taskArguments.folding, projectId);
+    const manager = parseAddress(taskArguments.manager, "manager");
+    const receipt = await client.setProjectManager(projectId, manager);
+    console.log(`Project #${projectId} is now managed by ${manager} (tx ${receipt.hash})`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:decrypt-batches --folding 0x...
+ *   - npx hardhat --network sepolia task:decrypt-batches --folding 0x... --project 2
+ *   - npx hardhat --network sepolia task:decrypt-batches --folding 0x... --project 2 --batch 3
+ */
+task("task:decrypt-batches", "Requests decryption of closed batch totals that are not decrypted yet")
+  .addParam("folding", "ProteinFoldingFHE contract address")
+  .addOptionalParam("project", "Only batches of this project (needed by project managers)", undefined, types.int)
+  .addOptionalParam("batch", "Only this batch id of --project", undefined, types.int)
+  .addOptionalParam("from", "First block to scan (defaults to the deployment block)", undefined, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const projectId = taskArguments.project === undefined ? undefined : BigInt(taskArguments.project);
+    if (taskArguments.batch !== undefined && projectId === undefined) throw new Error("--batch needs --project");
+    const client =
+      projectId === undefined
+        ? await ownerClient(hre, taskArguments.folding)
+        : await managerClient(hre, taskArguments.folding, projectId);
+    if (projectId !== undefined && taskArguments.batch !== undefined) {
+      const { requestId, receipt } = await client.requestBatchScoreDecryption(projectId, taskArguments.batch);
+      console.log(
+        `Requested decryption of project #${projectId} batch #${taskArguments.batch} as request ${requestId} (tx ${receipt.hash})`,
+      );
+      return;
+    }
+
+    const index = new FoldingEventIndex({
+      provider: hre.ethers.provider,
+      address: taskArguments.folding,
+      fromBlock: taskArguments.from,
+    });
+    await index.sync();
+    if (undecryptedBatches(index.events(), projectId).length === 0) {
+      console.log("No closed batches are waiting for decryption");
+      return;
+    }
+    const requested = await requestUndecryptedBatches(client, index.events(), projectId);
+    requested.forEach(({ projectId, batchId, requestId }) =>
+      console.log(`Requested decryption of project #${projectId} batch #${batchId} as request ${requestId}`),
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:cancel-decryption --folding 0x... --request 7
+ */
+task("task:cancel-decryption", "Frees a batch whose decryption request the relayer never answered")
+  .addParam("folding", "ProteinFoldingFHE contract address")
+  .addParam("request", "Decryption request id from DecryptionRequested", undefined, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const reader = new ProteinFoldingClient(taskArguments.folding, hre.ethers.provider);
+    // Answered and cancelled requests are both marked processed
+    const { projectId, batchId, processed } = await reader.getDecryptionContext(taskArguments.request);
+    if (projectId === 0n || processed) {
+      throw new Error(`Decryption request ${taskArguments.request} is not pending on ${taskArguments.folding}`);
+    }
+    const client = await managerClient(hre, taskArguments.folding, projectId);
+    const receipt = await client.cancelBatchDecryption(taskArguments.request);
+    console.log(
+      `Cancelled decryption request ${taskArguments.request} of project #${projectId} batch #${batchId} (tx ${receipt.hash})`,
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:transfer-ownership --folding 0x... --to 0xNEW --confirm 0xNEW
+ */
+task("task:transfer-ownership", "Hands every owner operation over to another address")
+  .addParam("folding", "ProteinFoldingFHE contract address")
+  .addParam("to", "New owner address")
+  .addParam("confirm", "The new owner address typed again")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const newOwner = checkOwnershipConfirmation(taskArguments.to, taskArguments.confirm);
+    const client = await ownerClient(hre, taskArguments.folding);
+    const receipt = await client.transferOwnership(newOwner);
+    console.log(`Ownership of ${client.address} transferred to ${newOwner} (tx ${receipt.hash})`);
+  });
@@ -0,0 +1,85 @@
+import { ethers } from "ethers";
+import fs from "fs";
+import { TASK_DEPLOY } from "hardhat-deploy";
+import { task } from "hardhat/config";
+import type { HttpNetworkConfig, TaskArguments } from "hardhat/types";
+import os from "os";
+import path from "path";
+import readline from "readline";
+
+// Networks backed by the hardhat node use its unlocked accounts
+const LOCAL_NETWORKS = ["hardhat", "localhost"];
+
+const DEFAULT_KEYSTORE = process.env.DEPLOYER_KEYSTORE ?? path.join(os.homedir(), ".protein-folding", "deployer.json");
+
+// Reads a line from the terminal without echoing it
+function promptSecret(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+  const output = rl as unknown as { _writeToOutput: (text: string) => void };
+  let muted = false;
+  output._writeToOutput = (text: string) => {
+    if (!muted) process.stdout.write(text);
+  };
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      process.stdout.write("\n");
+      resolve(answer.trim());
+    });
+    muted = true;
+  });
+}
+
+async function keystorePassword(confirm: boolean) {
+  if (process.env.DEPLOYER_KEYSTORE_PASSWORD) return process.env.DEPLOYER_KEYSTORE_PASSWORD;
+  const password = await promptSecret("Keystore password: ");
+  if (!password) throw new Error("The keystore password must not be empty");
+  if (confirm && (await promptSecret("Repeat the password: ")) !== password) {
+    throw new Error("The passwords do not match");
+  }
+  return password;
+}
+
+/**
+ * Example:
+ *   - npx hardhat task:keystore-create
+ *   - npx hardhat task:keystore-create --generate --keystore ./deployer.json
+ */
+task("task:keystore-create", "Encrypts a deployer private key into a keystore file")
+  .addOptionalParam("keystore", "Keystore file to write", DEFAULT_KEYSTORE)
+  .addFlag("generate", "Create a new random key instead of asking for one")
+  .setAction(async function (taskArguments: TaskArguments) {
+    const file = path.resolve(taskArguments.keystore);
+    if (fs.existsSync(file)) throw new Error(`${file} already exists; move it away to create a new keystore`);
+
+    const wallet = taskArguments.generate
+      ? ethers.Wallet.createRandom()
+      : new ethers.Wallet(await promptSecret("Deployer private key: "));
+    const json = await wallet.encrypt(await keystorePassword(true));
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, json, { mode: 0o600 });
+    console.log(`Wrote the keystore for ${wallet.address} to ${file}`);
+  });
+
+/**
+ * Deploying to a public network signs with the key in the encrypted keystore; the password is asked for
+ * unless DEPLOYER_KEYSTORE_PASSWORD is set.
+ *
+ * Example:
+ *   - npx hardhat deploy --network sepolia
+ *   - DEPLOYER_KEYSTORE=./deployer.json npx hardhat deploy --network sepolia
+ */
+task(TASK_DEPLOY).setAction(async function (taskArguments: TaskArguments, hre, runSuper) {
+  if (!LOCAL_NETWORKS.includes(hre.network.name)) {
+    if (!fs.existsSync(DEFAULT_KEYSTORE)) {
+      throw new Error(`No deployer keystore at ${DEFAULT_KEYSTORE}; create one with task:keystore-create`);
+    }
+    const json = fs.readFileSync(DEFAULT_KEYSTORE, "utf8");
+    const wallet = await ethers.Wallet.fromEncryptedJson(json, await keystorePassword(false));
+    console.log(`Deploying to ${hre.network.name} from ${wallet.address}`);
+    // The network provider is created on first use, so it picks up the decrypted key
+    (hre.network.config as HttpNetworkConfig).accounts = [wallet.privateKey];
+  }
+  return runSuper(taskArguments);
+});
@@ -0,0 +1,104 @@
+import { ChildProcess, spawn } from "child_process";
+import { ethers } from "ethers";
+import fs from "fs";
+import { TASK_NODE, TASK_NODE_SERVER_READY } from "hardhat/builtin-tasks/task-names";
+import { subtask, task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import path from "path";
+
+import adapterArtifact from "../frontend/web/src/abi/UniversalAdapter.json";
+import { ProteinFoldingClient } from "../frontend/web/src/proteinFolding/client";
+import { MOCK_RELAYER_PORT } from "./mockRelayer";
+
+// Deploys the UniversalAdapter and ProteinFoldingFHE, with the cooldown off and a batch open in project 1
+export async function deployLocalContracts(hre: HardhatRuntimeEnvironment, signer: ethers.Signer) {
+  const adapterFactory = new ethers.ContractFactory(adapterArtifact.abi, adapterArtifact.bytecode, signer);
+  const adapter = await adapterFactory.deploy();
+  await adapter.waitForDeployment();
+
+  const foldingFactory = await hre.ethers.getContractFactory("ProteinFoldingFHE", signer);
+  const foldingContract = await foldingFactory.deploy();
+  await foldingContract.waitForDeployment();
+  const folding = new ProteinFoldingClient(await foldingContract.getAddress(), signer);
+  await folding.setCooldownSeconds(0);
+  const { projectId } = await folding.createProject("Local campaign", await signer.getAddress());
+  await folding.openBatch(projectId);
+
+  return { adapter: adapter as ethers.Contract, folding };
+}
+
+function writeEnvFile(file: string, values: Record<string, string | number>) {
+  const lines = Object.entries(values).map(([key, value]) => `${key}=${value}`);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `# Written by task:local-stack\n${lines.join("\n")}\n`);
+}
+
+// The node listens where `--network localhost` expects it
+const RPC_PORT = 8545;
+
+// hre.fhevm is not available inside the node process, so the relayer runs as a localhost client of it
+function spawnMockRelayer(hre: HardhatRuntimeEnvironment, relayerPort: number): ChildProcess {
+  const args = [require.resolve("hardhat/internal/cli/cli"), "--network", "localhost"];
+  if (hre.hardhatArguments.config) args.push("--config", hre.hardhatArguments.config);
+  args.push("task:mock-relayer", "--port", String(relayerPort));
+  const child = spawn(process.execPath, args, { cwd: hre.config.paths.root, stdio: "inherit" });
+  const stop = () => child.kill("SIGTERM");
+  process.once("exit", stop);
+  child.once("exit", (code) => {
+    process.off("exit", stop);
+    if (code) console.error(`Mock relayer exited with code ${code}`);
+  });
+  return child;
+}
+
+// Set by task:local-stack; the node calls it once its JSON-RPC server is listening
+let onNodeReady: (() => Promise<void>) | null = null;
+
+subtask(TASK_NODE_SERVER_READY).setAction(async (taskArguments: TaskArguments, _hre, runSuper) => {
+  const result = await runSuper(taskArguments);
+  if (onNodeReady) await onNodeReady();
+  return result;
+});
+
+/**
+ * Example:
+ *   - npx hardhat task:local-stack
+ *   - cd frontend/web && npm run dev
+ */
+task(
+  "task:local-stack",
+  "Starts a local fhevm node, deploys the contracts, writes the frontend env and serves the mock relayer",
+)
+  .addOptionalParam("relayerPort", "Mock relayer HTTP port", MOCK_RELAYER_PORT, types.int)
+  .addOptionalParam("env", "Frontend env file to write", path.join("frontend", "web", ".env.local"))
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    if (hre.network.name !== "hardhat") {
+      throw new Error("task:local-stack starts its own node; run it without --network");
+    }
+    const rpcUrl = `http://127.0.0.1:${RPC_PORT}`;
+    const relayerUrl = `http://127.0.0.1:${taskArguments.relayerPort}`;
+
+    onNodeReady = async () => {
+      const [deployer] = await hre.ethers.getSigners();
+      const { adapter, folding } = await deployLocalContracts(hre, deployer);
+      const adapterAddress = await adapter.getAddress();
+      console.log(`UniversalAdapter: ${adapterAddress}`);
+      console.log(`ProteinFoldingFHE: ${folding.address} (batch open, cooldown 0)`);
+
+      const envFile = path.resolve(hre.config.paths.root, taskArguments.env);
+      writeEnvFile(envFile, {
+        VITE_NETWORK_PROFILE: "localhost",
+        VITE_LOCALHOST_CHAIN_ID: hre.network.config.chainId ?? 31337,
+        VITE_LOCALHOST_RPC_URLS: rpcUrl,
+        VITE_LOCALHOST_ADAPTER_ADDRESS: adapterAddress,
+        VITE_LOCALHOST_FOLDING_ADDRESS: folding.address,
+        VITE_LOCALHOST_FHE_BACKEND: "mock-relayer",
+        VITE_LOCALHOST_RELAYER_URL: relayerUrl,
+      });
+      console.log(`Frontend configuration written to ${path.relative(hre.config.paths.root, envFile)}`);
+
+      spawnMockRelayer(hre, taskArguments.relayerPort);
+    };
+
+    await hre.run(TASK_NODE, { hostname: "127.0.0.1", port: RPC_PORT });
+  });
@@ -0,0 +1,160 @@
+import { ethers } from "ethers";
+import http from "http";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+export const MOCK_RELAYER_PORT = 8645;
+
+type Handler = (body: any) => Promise<unknown>;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function readJson(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch {
+        reject(new HttpError(400, "Request body is not valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+const toResults = (results: Record<string, bigint | boolean | string>) =>
+  Object.fromEntries(Object.entries(results).map(([handle, value]) => [handle, BigInt(value).toString()]));
+
+// Endpoints follow the relayer's /v1 paths and request payloads. Input proofs are built by the fhevm mock
+// from cleartext values (there are no TFHE keys to encrypt with), and decryptions return cleartexts once
+// the ACL and the EIP-712 permit have been checked, without KMS re-encryption.
+function createRoutes(hre: HardhatRuntimeEnvironment): Record<string, Handler> {
+  return {
+    "GET /v1/metadata": async () => {
+      const metadata = await hre.fhevm.getRelayerMetadata();
+      // The decryption domain is fixed by the mock; build a throwaway request to read it
+      const { domain } = hre.fhevm.createEIP712(ethers.ZeroHash, [ethers.ZeroAddress], 0, 1);
+      return {
+        ...metadata,
+        verifyingContractAddressDecryption: domain.verifyingContract,
+        contractsChainId: domain.chainId,
+      };
+    },
+    "POST /v1/input-proof": async ({ contractAddress, userAddress, values }) => {
+      if (!ethers.isAddress(contractAddress) || !ethers.isAddress(userAddress) || !Array.isArray(values)) {
+        throw new HttpError(400, "Expected contractAddress, userAddress and values");
+      }
+      const input = hre.fhevm.createEncryptedInput(contractAddress, userAddress);
+      for (const { type, value } of values) {
+        if (type !== "euint32") throw new HttpError(400, `Unsupported input type ${type}`);
+        input.add32(BigInt(value));
+      }
+      const { handles, inputProof } = await input.encrypt();
+      return { handles: handles.map((h) => ethers.hexlify(h)), inputProof: ethers.hexlify(inputProof) };
+    },
+    "POST /v1/user-decrypt": async (payload) => {
+      const { handleContractPairs, requestValidity, contractAddresses, userAddress, signature, publicKey } = payload;
+      if (!Array.isArray(handleContractPairs) || !requestValidity) {
+        throw new HttpError(400, "Expected handleContractPairs and requestValidity");
+      }
+      // The mock instance ignores the private key: nothing is re-encrypted
+      const results = await hre.fhevm.userDecrypt(
+        handleContractPairs,
+        "",
+        publicKey,
+        signature,
+        contractAddresses,
+        userAddress,
+        requestValidity.startTimestamp,
+        requestValidity.durationDays,
+      );
+      return { results: toResults(results) };
+    },
+    "POST /v1/public-decrypt": async ({ ciphertextHandles }) => {
+      if (!Array.isArray(ciphertextHandles)) throw new HttpError(400, "Expected ciphertextHandles");
+      return { results: toResults(await hre.fhevm.publicDecrypt(ciphertextHandles)) };
+    },
+  };
+}
+
+// Answers the DecryptionOracle's requests (FHE.requestDecryption) by calling the contract callbacks,
+// e.g. ProteinFoldingFHE.myCallback, with KMS-signed cleartexts. Runs once per new block.
+function watchDecryptionOracle(hre: HardhatRuntimeEnvironment, log: (message: string) => void) {
+  let running: Promise<void> | null = null;
+  const onBlock = () => {
+    if (running) return;
+    running = hre.fhevm
+      .awaitDecryptionOracle()
+      .catch((e: any) => log(`decryption oracle: ${e.message}`))
+      .finally(() => {
+        running = null;
+      });
+  };
+  hre.ethers.provider.on("block", onBlock);
+  return () => hre.ethers.provider.off("block", onBlock);
+}
+
+export async function serveMockRelayer(
+  hre: HardhatRuntimeEnvironment,
+  { port = MOCK_RELAYER_PORT, log = console.log }: { port?: number; log?: (message: string) => void } = {},
+): Promise<http.Server> {
+  const routes = createRoutes(hre);
+  const server = http.createServer(async (req, res) => {
+    // The frontend dev server runs on another origin
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Headers", "content-type");
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+    const route = `${req.method} ${(req.url ?? "").split("?")[0]}`;
+    try {
+      const handler = routes[route];
+      if (!handler) throw new HttpError(404, `No route for ${route}`);
+      const body = await handler(req.method === "POST" ? await readJson(req) : {});
+      res.writeHead(200, { "content-type": "application/json" }).end(JSON.stringify(body));
+    } catch (e: any) {
+      const status = e instanceof HttpError ? e.status : 500;
+      log(`${route} -> ${status}: ${e.message}`);
+      res.writeHead(status, { "content-type": "application/json" }).end(JSON.stringify({ message: e.message }));
+    }
+  });
+
+  const stopOracle = watchDecryptionOracle(hre, log);
+  server.on("close", stopOracle);
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", resolve);
+  });
+  log(`Mock relayer listening on http://127.0.0.1:${port}`);
+  return server;
+}
+
+/**
+ * Example:
+ *   - npx hardhat node
+ *   - npx hardhat --network localhost task:mock-relayer
+ */
+task("task:mock-relayer", "Serves mock relayer endpoints backed by the fhevm mock of a local node")
+  .addOptionalParam("port", "HTTP port", MOCK_RELAYER_PORT, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    if (hre.network.name !== "localhost") {
+      throw new Error("The mock relayer needs a local node: run `npx hardhat node` and pass --network localhost");
+    }
+    await hre.fhevm.initializeCLIApi();
+    const server = await serveMockRelayer(hre, { port: taskArguments.port });
+    await new Promise<void>((resolve) => {
+      const shutdown = () => server.close(() => resolve());
+      process.once("SIGINT", shutdown);
+      process.once("SIGTERM", shutdown);
+    });
+  });
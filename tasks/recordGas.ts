@@ -0,0 +1,108 @@
+import { ethers } from "ethers";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+import adapterArtifact from "../frontend/web/src/abi/UniversalAdapter.json";
+import { PIPELINE_PRESETS, emptyStages } from "../frontend/web/src/folding/pipeline";
+import { FHEProteinFoldingCompute, pipelineRecordFields } from "../frontend/web/src/folding/taskCompute";
+import { claimRecord, releaseRecord, renewRecord } from "../frontend/web/src/registry/lease";
+import { RecordFormat, encodeRecord } from "../frontend/web/src/registry/recordCodec";
+import { newTaskId } from "../frontend/web/src/registry/taskRegistry";
+import { TaskRecordInput, encodeTaskRecord } from "../frontend/web/src/registry/taskSchema";
+import type { ResidueRecord, StructurePayload } from "../frontend/web/src/structure/types";
+
+const FORMATS: RecordFormat[] = ["json", "binary"];
+
+// Cα trace with PDB precision (3 decimals), as kept for imported structures
+function sampleStructure(sequence: string): StructurePayload {
+  const residues = [...sequence].map(
+    (_, i): ResidueRecord => ({
+      number: i + 1,
+      name: "ALA",
+      ca: [
+        Number((i * 3.8).toFixed(3)),
+        Number((Math.sin(i) * 2.5).toFixed(3)),
+        Number((Math.cos(i) * 2.5).toFixed(3)),
+      ],
+    }),
+  );
+  return { format: "pdb", name: "sample", chains: [{ id: "A", sequence, residues }] };
+}
+
+/**
+ * Example:
+ *   - npx hardhat task:compare-record-gas
+ */
+task("task:compare-record-gas", "Compares calldata size and setData gas of JSON and binary task records").setAction(
+  async function (_taskArguments: TaskArguments, hre) {
+    if (hre.network.name !== "hardhat") {
+      throw new Error("Run the comparison on the in-process hardhat network (no --network)");
+    }
+    const [signer, worker] = await hre.ethers.getSigners();
+    const adapterFactory = new ethers.ContractFactory(adapterArtifact.abi, adapterArtifact.bytecode, signer);
+    const adapter = (await adapterFactory.deploy()) as ethers.Contract;
+    await adapter.waitForDeployment();
+
+    const owner = await signer.getAddress();
+    const holder = await worker.getAddress();
+    // Handles and proofs are random-looking bytes; the proof has the layout of one handle with one signature
+    const handle = ethers.hexlify(ethers.randomBytes(32));
+    const inputProof = ethers.concat(["0x0101", handle, ethers.randomBytes(65)]);
+    const sequence = "LSDEDFKAVFGMTRSAFANLPLWKQQNLKKEKGLF";
+    const { pipeline } = PIPELINE_PRESETS.refined;
+
+    const pending: TaskRecordInput = {
+      proteinName: "Villin headpiece",
+      sequence,
+      encryptedStructure: handle,
+      inputProof,
+      foldingProgress: 0,
+      timestamp: Math.floor(Date.now() / 1000),
+      owner,
+      status: "pending",
+      pipeline,
+      stages: emptyStages(pipeline),
+    };
+    const folded = FHEProteinFoldingCompute(pending, 500);
+    const claimed = claimRecord("sample", pending, holder);
+    const computing = renewRecord("sample", claimed, holder, { ...pipelineRecordFields(folded), computationTime: 12 });
+    const completed = releaseRecord("sample", computing, holder, { foldingProgress: 1 }, "completed");
+
+    const samples: [string, (format: RecordFormat) => Uint8Array][] = [
+      ["pending task", (format) => encodeTaskRecord(pending, format)],
+      ["computing task", (format) => encodeTaskRecord(computing, format)],
+      ["completed task", (format) => encodeTaskRecord(completed, format)],
+      [
+        "imported structure",
+        (format) => encodeTaskRecord({ ...pending, structure: sampleStructure(sequence) }, format),
+      ],
+      ["key index (50 ids)", (format) => encodeRecord(Array.from({ length: 50 }, newTaskId), format)],
+    ];
+
+    // First write of a key pays for new storage slots, later writes overwrite them
+    const write = async (key: string, value: Uint8Array) => {
+      const tx = await adapter.setData(key, value);
+      return (await tx.wait()).gasUsed as bigint;
+    };
+
+    console.log("record               format  bytes   gas (new)  gas (update)");
+    for (const [name, encode] of samples) {
+      const results = [];
+      for (const format of FORMATS) {
+        const value = encode(format);
+        const key = `gas_${format}_${name}`;
+        const created = await write(key, value);
+        const updated = await write(key, value);
+        results.push({ format, bytes: value.length, created, updated });
+        console.log(
+          `${name.padEnd(20)} ${format.padEnd(7)} ${String(value.length).padStart(5)} ${String(created).padStart(10)} ${String(updated).padStart(13)}`,
+        );
+      }
+      const [json, binary] = results;
+      const saved = (a: bigint, b: bigint) => `${((1 - Number(b) / Number(a)) * 100).toFixed(1)}%`;
+      console.log(
+        `${"".padEnd(20)} saving  ${saved(BigInt(json.bytes), BigInt(binary.bytes)).padStart(5)} ${saved(json.created, binary.created).padStart(10)} ${saved(json.updated, binary.updated).padStart(13)}`,
+      );
+    }
+  },
+);
@@ -0,0 +1,37 @@
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import path from "path";
+
+import { FileCheckpointStore } from "../frontend/web/src/indexer/fileCheckpointStore";
+import { TaskIndexer } from "../frontend/web/src/indexer/taskIndexer";
+import { TaskRegistry } from "../frontend/web/src/registry/taskRegistry";
+import adapterConfig from "../frontend/web/src/config.json";
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:migrate-task-registry
+ *   - npx hardhat --network sepolia task:migrate-task-registry --address 0x... --from 8500000
+ */
+task("task:migrate-task-registry", "Re-discovers task records missing from the legacy task_keys list")
+  .addOptionalParam("address", "UniversalAdapter contract address", adapterConfig.contractAddress)
+  .addOptionalParam("from", "First block to scan (defaults to the deployment block)")
+  .addOptionalParam("checkpoint", "Indexer checkpoint file", path.join("cache", "indexer-checkpoints.json"))
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const indexer = new TaskIndexer({
+      provider: hre.ethers.provider,
+      address: taskArguments.address,
+      fromBlock: taskArguments.from !== undefined ? parseInt(taskArguments.from) : undefined,
+      store: new FileCheckpointStore(path.resolve(hre.config.paths.root, taskArguments.checkpoint)),
+    });
+    await indexer.sync();
+
+    const report = new TaskRegistry(indexer).migrationReport();
+    console.log(`UniversalAdapter ${indexer.address} indexed up to block ${indexer.syncedBlock}`);
+    if (report.error) console.log(`task_keys could not be read: ${report.error}`);
+    console.log(`task_keys entries    : ${report.listed.length}`);
+    console.log(`task records found   : ${report.discovered.length}`);
+    console.log(`orphaned (recovered) : ${report.orphaned.length}`);
+    report.orphaned.forEach((id) => console.log(`  + ${id}`));
+    console.log(`dangling (no record) : ${report.dangling.length}`);
+    report.dangling.forEach((id) => console.log(`  - ${id}`));
+  });
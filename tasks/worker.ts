@@ -0,0 +1,146 @@
+import { ethers } from "ethers";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import path from "path";
+
+import adapterArtifact from "../frontend/web/src/abi/UniversalAdapter.json";
+import adapterConfig from "../frontend/web/src/config.json";
+import type { FheBackend } from "../frontend/web/src/fhe/backend";
+import { PIPELINE_PRESETS, emptyStages } from "../frontend/web/src/folding/pipeline";
+import { FileCheckpointStore } from "../frontend/web/src/indexer/fileCheckpointStore";
+import { TaskIndexer } from "../frontend/web/src/indexer/taskIndexer";
+import { ProteinFoldingClient } from "../frontend/web/src/proteinFolding/client";
+import { LEASE_DURATION } from "../frontend/web/src/registry/lease";
+import { TaskRegistry, newTaskId } from "../frontend/web/src/registry/taskRegistry";
+import { FoldingWorker } from "../frontend/web/src/worker/foldingWorker";
+import { deployLocalContracts } from "./localStack";
+
+const DRY_RUN_SEQUENCES: Record<string, string> = {
+  "Trp-cage": "NLYIQWLKDGGPSSGRPPPS",
+  "Villin headpiece": "LSDEDFKAVFGMTRSAFANLPLWKQQNLKKEKGLF",
+  "Insulin B chain": "FVNQHLCGSHLVEALYLVCGERGFFYTPKT",
+};
+
+// Encrypts with the fhevm hardhat plugin: mock coprocessor on a local node, relayer on Sepolia
+function createHardhatFheBackend(hre: HardhatRuntimeEnvironment): FheBackend {
+  return {
+    name: "hardhat-fhevm",
+    async encryptUint32(value, contractAddress, userAddress) {
+      const input = await hre.fhevm.createEncryptedInput(contractAddress, userAddress).add32(value).encrypt();
+      return { handle: ethers.hexlify(input.handles[0]), inputProof: ethers.hexlify(input.inputProof) };
+    },
+  };
+}
+
+// Deploys fresh contracts on the local node and seeds a few pending tasks
+async function setupDryRun(hre: HardhatRuntimeEnvironment, signer: ethers.Signer) {
+  const { adapter, folding } = await deployLocalContracts(hre, signer);
+
+  const owner = await signer.getAddress();
+  const registry = new TaskRegistry(
+    new TaskIndexer({ provider: signer.provider!, address: await adapter.getAddress() }),
+  );
+  // Each sample folds through a different preset pipeline
+  const presets = Object.values(PIPELINE_PRESETS);
+  for (const [i, [proteinName, sequence]] of Object.entries(DRY_RUN_SEQUENCES).entries()) {
+    const { pipeline } = presets[i % presets.length];
+    const tx = await registry.writeTask(adapter, newTaskId(), {
+      proteinName,
+      sequence,
+      encryptedStructure: ethers.ZeroHash,
+      foldingProgress: 0,
+      timestamp: Math.floor(Date.now() / 1000),
+      owner,
+      status: "pending",
+      pipeline,
+      stages: emptyStages(pipeline),
+    });
+    await tx.wait();
+  }
+  console.log(`Dry run: UniversalAdapter ${await adapter.getAddress()}, ProteinFoldingFHE ${folding.address}`);
+  return { adapterAddress: await adapter.getAddress(), foldingAddress: folding.address };
+}
+
+/**
+ * Example:
+ *   - npx hardhat node
+ *   - npx hardhat --network localhost task:worker --dry-run
+ *   - npx hardhat --network sepolia task:worker --folding 0x... --concurrency 2
+ */
+task("task:worker", "Runs a compute node that folds pending tasks and posts the encrypted results")
+  .addOptionalParam("address", "UniversalAdapter contract address", adapterConfig.contractAddress)
+  .addOptionalParam("folding", "ProteinFoldingFHE address; stores the task energies and receives the scores")
+  .addOptionalParam("project", "Project whose open batch receives the scores", 1, types.int)
+  .addOptionalParam("concurrency", "Tasks processed at the same time", 1, types.int)
+  .addOptionalParam("poll", "Seconds between registry polls", 15, types.int)
+  .addOptionalParam("steps", "Caps the folding steps per task (default: the whole pipeline)", undefined, types.int)
+  .addOptionalParam("lease", "Lease duration in seconds, renewed while folding", LEASE_DURATION, types.int)
+  .addOptionalParam("checkpoint", "Indexer checkpoint file", path.join("cache", "indexer-checkpoints.json"))
+  .addFlag("once", "Exit when no pending task is left")
+  .addFlag("dryRun", "Deploy fresh contracts on the local node, seed sample tasks and process them once")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    if (taskArguments.dryRun && hre.network.name !== "localhost") {
+      throw new Error("--dry-run needs a local node: run `npx hardhat node` and pass --network localhost");
+    }
+    await hre.fhevm.initializeCLIApi();
+
+    const [signer] = await hre.ethers.getSigners();
+    let { address, folding: foldingAddress } = taskArguments;
+    if (taskArguments.dryRun) {
+      ({ adapterAddress: address, foldingAddress } = await setupDryRun(hre, signer));
+    }
+    if (!foldingAddress) {
+      throw new Error(
+        "--folding is required: task energies are stored through ProteinFoldingFHE so their owners can decrypt them",
+      );
+    }
+
+    const indexer = new TaskIndexer({
+      provider: hre.ethers.provider,
+      address,
+      // A local node has no reorgs and a dry run starts from fresh contracts
+      confirmations: hre.network.name === "sepolia" ? 6 : 0,
+      store: taskArguments.dryRun
+        ? undefined
+        : new FileCheckpointStore(path.resolve(hre.config.paths.root, taskArguments.checkpoint)),
+    });
+    const worker = new FoldingWorker({
+      registry: new TaskRegistry(indexer),
+      adapter: new ethers.Contract(address, adapterArtifact.abi, signer),
+      workerAddress: signer.address,
+      fhe: createHardhatFheBackend(hre),
+      folding: new ProteinFoldingClient(foldingAddress, signer),
+      projectId: BigInt(taskArguments.project),
+      concurrency: taskArguments.concurrency,
+      pollIntervalMs: taskArguments.poll * 1000,
+      steps: taskArguments.steps,
+      leaseSeconds: taskArguments.lease,
+      log: (message) => console.log(`${new Date().toISOString()} ${message}`),
+    });
+
+    // First signal finishes the tasks in progress, a second one exits immediately
+    const shutdown = () => {
+      console.log("Shutting down, waiting for tasks in progress (press Ctrl+C again to force)...");
+      worker.stop();
+      process.once("SIGINT", () => process.exit(130));
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+
+    const summary = await worker.run({ once: taskArguments.once || taskArguments.dryRun });
+    process.off("SIGINT", shutdown);
+    process.off("SIGTERM", shutdown);
+
+    console.log(
+      `Completed ${summary.completed.length}, failed ${summary.failed.length}, scores submitted ${summary.submitted}` +
+        `, score submissions failed ${summary.submissionsFailed.length}`,
+    );
+    if (taskArguments.dryRun) {
+      const client = new ProteinFoldingClient(foldingAddress, signer);
+      const projectId = BigInt(taskArguments.project);
+      const batch = await client.getBatch(projectId, await client.currentBatchId(projectId));
+      console.log(
+        `Project ${projectId} batch ${batch.id}: ${batch.submissionCount} submissions, encrypted total ${batch.totalScore}`,
+      );
+    }
+  });
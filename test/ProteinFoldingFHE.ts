@@ -0,0 +1,854 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { ContractTransactionResponse } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import { toEncryptedUint32 } from "../frontend/web/src/fhe/backend";
+import { ProteinFoldingFHE, ProteinFoldingFHE__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("ProteinFoldingFHE")) as ProteinFoldingFHE__factory;
+  const proteinFolding = (await factory.deploy()) as ProteinFoldingFHE;
+  const proteinFoldingAddress = await proteinFolding.getAddress();
+
+  return { proteinFolding, proteinFoldingAddress };
+}
+
+// Created in beforeEach and managed by the deployer
+const PROJECT = 1n;
+
+describe("ProteinFoldingFHE", function () {
+  let signers: Signers;
+  let proteinFolding: ProteinFoldingFHE;
+  let proteinFoldingAddress: string;
+
+  async function encryptScore(signer: HardhatEthersSigner, score: number) {
+    return fhevm.createEncryptedInput(proteinFoldingAddress, signer.address).add32(score).encrypt();
+  }
+
+  // Submits to the current batch of the project unless a batch id is given
+  async function submitScore(signer: HardhatEthersSigner, score: number, projectId = PROJECT, batchId?: bigint) {
+    const input = await encryptScore(signer, score);
+    batchId ??= (await proteinFolding.projects(projectId)).currentBatchId;
+    return proteinFolding.connect(signer).submitFoldingData(projectId, batchId, input.handles[0], input.inputProof);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ proteinFolding, proteinFoldingAddress } = await deployFixture());
+    await proteinFolding.createProject("Trp-cage", signers.deployer.address);
+  });
+
+  describe("deployment", function () {
+    it("registers the deployer as owner and provider", async function () {
+      expect(await proteinFolding.owner()).to.eq(signers.deployer.address);
+      expect(await proteinFolding.isProvider(signers.deployer.address)).to.eq(true);
+    });
+
+    it("starts unpaused with a one minute cooldown", async function () {
+      expect(await proteinFolding.paused()).to.eq(false);
+      expect(await proteinFolding.cooldownSeconds()).to.eq(60n);
+    });
+  });
+
+  describe("ownership", function () {
+    it("transfers ownership and emits OwnershipTransferred", async function () {
+      await expect(proteinFolding.transferOwnership(signers.alice.address))
+        .to.emit(proteinFolding, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      expect(await proteinFolding.owner()).to.eq(signers.alice.address);
+
+      await expect(proteinFolding.createProject("Villin", signers.deployer.address)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "NotOwner",
+      );
+    });
+
+    it("rejects owner-only calls from other accounts", async function () {
+      const asAlice = proteinFolding.connect(signers.alice);
+      await expect(asAlice.transferOwnership(signers.alice.address)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "NotOwner",
+      );
+      await expect(asAlice.addProvider(signers.alice.address)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "NotOwner",
+      );
+      await expect(asAlice.setPaused(true)).to.be.revertedWithCustomError(proteinFolding, "NotOwner");
+      await expect(asAlice.setCooldownSeconds(0)).to.be.revertedWithCustomError(proteinFolding, "NotOwner");
+      await expect(asAlice.createProject("Villin", signers.alice.address)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "NotOwner",
+      );
+    });
+  });
+
+  describe("providers", function () {
+    it("adds and removes providers", async function () {
+      await expect(proteinFolding.addProvider(signers.alice.address))
+        .to.emit(proteinFolding, "ProviderAdded")
+        .withArgs(signers.alice.address);
+      expect(await proteinFolding.isProvider(signers.alice.address)).to.eq(true);
+
+      await expect(proteinFolding.removeProvider(signers.alice.address))
+        .to.emit(proteinFolding, "ProviderRemoved")
+        .withArgs(signers.alice.address);
+      expect(await proteinFolding.isProvider(signers.alice.address)).to.eq(false);
+    });
+
+    it("does not emit events for no-op changes", async function () {
+      await expect(proteinFolding.addProvider(signers.deployer.address)).not.to.emit(proteinFolding, "ProviderAdded");
+      await expect(proteinFolding.removeProvider(signers.alice.address)).not.to.emit(proteinFolding, "ProviderRemoved");
+    });
+
+    it("rejects submissions from removed providers", async function () {
+      await proteinFolding.addProvider(signers.alice.address);
+      await proteinFolding.openBatch(PROJECT);
+      await proteinFolding.removeProvider(signers.alice.address);
+
+      await expect(submitScore(signers.alice, 10)).to.be.revertedWithCustomError(proteinFolding, "NotProvider");
+    });
+  });
+
+  describe("pause", function () {
+    it("toggles pause and blocks batch operations while paused", async function () {
+      await expect(proteinFolding.setPaused(true)).to.emit(proteinFolding, "PauseToggled").withArgs(true);
+
+      await expect(proteinFolding.openBatch(PROJECT)).to.be.revertedWithCustomError(proteinFolding, "Paused");
+      await expect(proteinFolding.closeBatch(PROJECT, 1)).to.be.revertedWithCustomError(proteinFolding, "Paused");
+      await expect(submitScore(signers.deployer, 10)).to.be.revertedWithCustomError(proteinFolding, "Paused");
+
+      await expect(proteinFolding.setPaused(false)).to.emit(proteinFolding, "PauseToggled").withArgs(false);
+      await expect(proteinFolding.openBatch(PROJECT)).to.emit(proteinFolding, "BatchOpened").withArgs(PROJECT, 1n);
+    });
+  });
+
+  describe("batch lifecycle", function () {
+    it("opens a batch only once", async function () {
+      await expect(proteinFolding.openBatch(PROJECT)).to.emit(proteinFolding, "BatchOpened").withArgs(PROJECT, 1n);
+      const batch = await proteinFolding.batches(PROJECT, 1);
+      expect(batch.active).to.eq(true);
+      expect(batch.submissionCount).to.eq(0n);
+
+      await expect(proteinFolding.openBatch(PROJECT)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "BatchAlreadyActive",
+      );
+    });
+
+    it("closes the current batch and advances the batch id", async function () {
+      await proteinFolding.openBatch(PROJECT);
+      await submitScore(signers.deployer, 7);
+
+      const tx = proteinFolding.closeBatch(PROJECT, 1);
+      await expect(tx).to.emit(proteinFolding, "BatchClosed");
+      expect((await proteinFolding.projects(PROJECT)).currentBatchId).to.eq(2n);
+
+      const batch = await proteinFolding.batches(PROJECT, 1);
+      expect(batch.active).to.eq(false);
+      expect(batch.submissionCount).to.eq(1n);
+    });
+
+    it("rejects closing another batch id or an inactive batch", async function () {
+      await expect(proteinFolding.closeBatch(PROJECT, 1)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "BatchNotActive",
+      );
+
+      await proteinFolding.openBatch(PROJECT);
+      await expect(proteinFolding.closeBatch(PROJECT, 2)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "InvalidBatchId",
+      );
+    });
+
+    it("rejects submissions when no batch is open", async function () {
+      await expect(submitScore(signers.deployer, 10)).to.be.revertedWithCustomError(proteinFolding, "BatchNotActive");
+
+      await proteinFolding.openBatch(PROJECT);
+      await proteinFolding.closeBatch(PROJECT, 1);
+      await expect(submitScore(signers.deployer, 10)).to.be.revertedWithCustomError(proteinFolding, "BatchNotActive");
+    });
+  });
+
+  describe("submissions", function () {
+    beforeEach(async function () {
+      await proteinFolding.addProvider(signers.alice.address);
+      await proteinFolding.addProvider(signers.bob.address);
+      await proteinFolding.openBatch(PROJECT);
+    });
+
+    it("rejects non-providers", async function () {
+      await proteinFolding.removeProvider(signers.bob.address);
+      await expect(submitScore(signers.bob, 10)).to.be.revertedWithCustomError(proteinFolding, "NotProvider");
+    });
+
+    it("emits FoldingDataSubmitted with the stored handle", async function () {
+      await expect(submitScore(signers.alice, 12))
+        .to.emit(proteinFolding, "FoldingDataSubmitted")
+        .withArgs(signers.alice.address, PROJECT, 1n, (handle: string) => ethers.isHexString(handle, 32), 1n);
+    });
+
+    it("enforces the submission cooldown per sender", async function () {
+      await submitScore(signers.alice, 10);
+      await expect(submitScore(signers.alice, 11)).to.be.revertedWithCustomError(proteinFolding, "CooldownActive");
+
+      // Bob has his own cooldown window
+      await expect(submitScore(signers.bob, 12)).to.emit(proteinFolding, "FoldingDataSubmitted");
+
+      await time.increase(60);
+      await expect(submitScore(signers.alice, 11)).to.emit(proteinFolding, "FoldingDataSubmitted");
+    });
+
+    it("applies cooldown changes immediately", async function () {
+      await expect(proteinFolding.setCooldownSeconds(0)).to.emit(proteinFolding, "CooldownSet").withArgs(60n, 0n);
+
+      await submitScore(signers.alice, 10);
+      await expect(submitScore(signers.alice, 11)).to.emit(proteinFolding, "FoldingDataSubmitted");
+    });
+
+    it("accumulates encrypted scores into the batch total", async function () {
+      await submitScore(signers.alice, 10);
+      await submitScore(signers.bob, 25);
+      await time.increase(60);
+      await submitScore(signers.alice, 7);
+
+      const batch = await proteinFolding.batches(PROJECT, 1);
+      expect(batch.submissionCount).to.eq(3n);
+
+      const total = await fhevm.debugger.decryptEuint(FhevmType.euint32, batch.totalScore);
+      expect(total).to.eq(42n);
+    });
+
+    it("rejects inputs encrypted for another sender", async function () {
+      const input = await encryptScore(signers.alice, 10);
+      await expect(
+        proteinFolding.connect(signers.bob).submitFoldingData(PROJECT, 1, input.handles[0], input.inputProof),
+      ).to.be.reverted;
+    });
+  });
+
+  describe("decryption callback", function () {
+    it("rejects callbacks whose ciphertexts do not match the request state", async function () {
+      await expect(proteinFolding.myCallback(1234, "0x", "0x")).to.be.revertedWithCustomError(
+        proteinFolding,
+        "StateMismatch",
+      );
+    });
+
+    it("rejects decryption requests for an open batch", async function () {
+      await proteinFolding.openBatch(PROJECT);
+      await expect(proteinFolding.requestBatchScoreDecryption(PROJECT, 1)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "BatchStillActive",
+      );
+    });
+
+    it("rejects decryption requests from accounts that do not manage the project", async function () {
+      await expect(
+        proteinFolding.connect(signers.alice).requestBatchScoreDecryption(PROJECT, 1),
+      ).to.be.revertedWithCustomError(proteinFolding, "NotProjectManager");
+    });
+  });
+
+  describe("batch decryption", function () {
+    async function decryptedScores() {
+      const events = await proteinFolding.queryFilter(proteinFolding.filters.DecryptionCompleted());
+      return events.map((event) => [event.args.projectId, event.args.batchId, event.args.decryptedScore]);
+    }
+
+    // Closes batch 1 with a total of 10 and batch 2 with a total of 25, each from three providers, leaving
+    // batch 3 not opened
+    async function closeTwoBatches() {
+      await proteinFolding.addProvider(signers.alice.address);
+      await proteinFolding.addProvider(signers.bob.address);
+      for (const scores of [
+        [2, 3, 5],
+        [5, 8, 12],
+      ]) {
+        const batchId = (await proteinFolding.projects(PROJECT)).currentBatchId;
+        await proteinFolding.openBatch(PROJECT);
+        await submitScore(signers.alice, scores[0]);
+        await submitScore(signers.bob, scores[1]);
+        await submitScore(signers.deployer, scores[2]);
+        await proteinFolding.closeBatch(PROJECT, batchId);
+        await time.increase(60);
+      }
+    }
+
+    it("decrypts a closed batch after the batch id has moved on", async function () {
+      await closeTwoBatches();
+
+      await expect(proteinFolding.requestBatchScoreDecryption(PROJECT, 1))
+        .to.emit(proteinFolding, "DecryptionRequested")
+        .withArgs((requestId: bigint) => typeof requestId === "bigint", PROJECT, 1n);
+      expect(await proteinFolding.decryptionPending(PROJECT, 1)).to.eq(true);
+
+      await fhevm.awaitDecryptionOracle();
+      expect(await decryptedScores()).to.deep.eq([[PROJECT, 1n, 10n]]);
+      expect(await proteinFolding.decryptionPending(PROJECT, 1)).to.eq(false);
+    });
+
+    it("rejects batch ids that were never opened", async function () {
+      await closeTwoBatches();
+
+      await expect(proteinFolding.requestBatchScoreDecryption(PROJECT, 0)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "InvalidBatchId",
+      );
+      await expect(proteinFolding.requestBatchScoreDecryption(PROJECT, 3)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "InvalidBatchId",
+      );
+    });
+
+    it("rejects closed batches without submissions", async function () {
+      await proteinFolding.openBatch(PROJECT);
+      await proteinFolding.closeBatch(PROJECT, 1);
+
+      await expect(proteinFolding.requestBatchScoreDecryption(PROJECT, 1)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "NoSubmissions",
+      );
+    });
+
+    it("rejects a second request while one is in flight", async function () {
+      await closeTwoBatches();
+      await proteinFolding.requestBatchScoreDecryption(PROJECT, 1);
+      await time.increase(60);
+
+      await expect(proteinFolding.requestBatchScoreDecryption(PROJECT, 1)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "DecryptionPending",
+      );
+
+      await fhevm.awaitDecryptionOracle();
+      await expect(proteinFolding.requestBatchScoreDecryption(PROJECT, 1)).to.emit(
+        proteinFolding,
+        "DecryptionRequested",
+      );
+    });
+
+    async function requestId(tx: Promise<ContractTransactionResponse>) {
+      const receipt = await (await tx).wait();
+      const log = receipt!.logs
+        .map((log) => proteinFolding.interface.parseLog(log))
+        .find((log) => log?.name === "DecryptionRequested");
+      return log!.args.requestId as bigint;
+    }
+
+    it("lets the manager cancel an unanswered request and request the batch again", async function () {
+      await closeTwoBatches();
+      const cancelled = await requestId(proteinFolding.requestBatchScoreDecryption(PROJECT, 1));
+
+      await expect(
+        proteinFolding.connect(signers.alice).cancelBatchDecryption(cancelled),
+      ).to.be.revertedWithCustomError(proteinFolding, "NotProjectManager");
+      await expect(proteinFolding.cancelBatchDecryption(cancelled))
+        .to.emit(proteinFolding, "DecryptionCancelled")
+        .withArgs(cancelled, PROJECT, 1n);
+      expect(await proteinFolding.decryptionPending(PROJECT, 1)).to.eq(false);
+      await expect(proteinFolding.cancelBatchDecryption(cancelled)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "DecryptionNotPending",
+      );
+
+      // The oracle's late answer to the cancelled request is ignored
+      await fhevm.awaitDecryptionOracle();
+      expect(await decryptedScores()).to.deep.eq([]);
+
+      await time.increase(60);
+      await proteinFolding.requestBatchScoreDecryption(PROJECT, 1);
+      await fhevm.awaitDecryptionOracle();
+      expect(await decryptedScores()).to.deep.eq([[PROJECT, 1n, 10n]]);
+    });
+
+    it("rejects cancelling an answered request", async function () {
+      await closeTwoBatches();
+      const answered = await requestId(proteinFolding.requestBatchScoreDecryption(PROJECT, 1));
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(proteinFolding.cancelBatchDecryption(answered)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "DecryptionNotPending",
+      );
+    });
+
+    it("applies the decryption cooldown to single requests", async function () {
+      await closeTwoBatches();
+      await proteinFolding.requestBatchScoreDecryption(PROJECT, 1);
+
+      await expect(proteinFolding.requestBatchScoreDecryption(PROJECT, 2)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "CooldownActive",
+      );
+    });
+
+    it("requests several batches in one transaction", async function () {
+      await closeTwoBatches();
+
+      const tx = await proteinFolding.requestBatchScoreDecryptions([PROJECT, PROJECT], [1, 2]);
+      const receipt = await tx.wait();
+      const requested = receipt!.logs
+        .map((log) => proteinFolding.interface.parseLog(log))
+        .filter((log) => log?.name === "DecryptionRequested");
+      expect(requested.map((log) => log!.args.batchId)).to.deep.eq([1n, 2n]);
+
+      await fhevm.awaitDecryptionOracle();
+      expect(await decryptedScores()).to.deep.eq([
+        [PROJECT, 1n, 10n],
+        [PROJECT, 2n, 25n],
+      ]);
+    });
+
+    it("rejects a bulk request that repeats a batch", async function () {
+      await closeTwoBatches();
+
+      await expect(
+        proteinFolding.requestBatchScoreDecryptions([PROJECT, PROJECT], [1, 1]),
+      ).to.be.revertedWithCustomError(proteinFolding, "DecryptionPending");
+    });
+  });
+
+  describe("best score", function () {
+    // Alice, bob and the deployer each submit once; bob's 18 is the highest
+    async function submitThreeScores() {
+      await proteinFolding.addProvider(signers.alice.address);
+      await proteinFolding.addProvider(signers.bob.address);
+      await proteinFolding.openBatch(PROJECT);
+      await submitScore(signers.alice, 7);
+      await submitScore(signers.bob, 18);
+      await submitScore(signers.deployer, 12);
+    }
+
+    it("tracks the highest score and its provider while the batch is open", async function () {
+      await submitThreeScores();
+
+      const best = await proteinFolding.batchWinners(PROJECT, 1);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, best.bestScore)).to.eq(18n);
+      expect(await fhevm.debugger.decryptEaddress(best.bestProvider)).to.eq(signers.bob.address);
+      expect(best.revealed).to.eq(false);
+    });
+
+    it("keeps the earlier submission on a tie", async function () {
+      await submitThreeScores();
+      await time.increase(60);
+      await submitScore(signers.alice, 18);
+
+      const best = await proteinFolding.batchWinners(PROJECT, 1);
+      expect(await fhevm.debugger.decryptEaddress(best.bestProvider)).to.eq(signers.bob.address);
+    });
+
+    it("lets the better of two folds win", async function () {
+      await proteinFolding.addProvider(signers.alice.address);
+      await proteinFolding.addProvider(signers.bob.address);
+      await proteinFolding.openBatch(PROJECT);
+      // Workers submit the negated fold energy; bob's fold has the lower energy and so the higher score
+      await submitScore(signers.alice, toEncryptedUint32(3));
+      await submitScore(signers.bob, toEncryptedUint32(9.5));
+      await proteinFolding.closeBatch(PROJECT, 1);
+
+      await fhevm.awaitDecryptionOracle();
+      const best = await proteinFolding.batchWinners(PROJECT, 1);
+      expect(best.winner).to.eq(signers.bob.address);
+      expect(best.decryptedBestScore).to.eq(950n);
+    });
+
+    it("gives the lead to the first submission whatever its score", async function () {
+      await proteinFolding.addProvider(signers.alice.address);
+      await proteinFolding.openBatch(PROJECT);
+      await submitScore(signers.alice, 0);
+
+      const best = await proteinFolding.batchWinners(PROJECT, 1);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, best.bestScore)).to.eq(0n);
+      expect(await fhevm.debugger.decryptEaddress(best.bestProvider)).to.eq(signers.alice.address);
+    });
+
+    it("reveals the winner and the best score when the batch closes", async function () {
+      await submitThreeScores();
+      await proteinFolding.closeBatch(PROJECT, 1);
+
+      await fhevm.awaitDecryptionOracle();
+      const [revealed] = await proteinFolding.queryFilter(proteinFolding.filters.BatchWinnerRevealed());
+      expect([
+        revealed.args.projectId,
+        revealed.args.batchId,
+        revealed.args.winner,
+        revealed.args.bestScore,
+      ]).to.deep.eq([PROJECT, 1n, signers.bob.address, 18n]);
+
+      const best = await proteinFolding.batchWinners(PROJECT, 1);
+      expect(best.revealed).to.eq(true);
+      expect(best.winner).to.eq(signers.bob.address);
+      expect(best.decryptedBestScore).to.eq(18n);
+    });
+
+    it("keeps the other providers' scores confidential", async function () {
+      await submitThreeScores();
+      const tx = await proteinFolding.closeBatch(PROJECT, 1);
+      const receipt = await tx.wait();
+      await fhevm.awaitDecryptionOracle();
+
+      // Closing sends exactly the two winner handles to the oracle
+      const best = await proteinFolding.batchWinners(PROJECT, 1);
+      const requests = fhevm.parseDecryptionRequestEvents(receipt!.logs);
+      expect(requests.map((request) => request.handlesBytes32Hex)).to.deep.eq([[best.bestScore, best.bestProvider]]);
+
+      const submitted = await proteinFolding.queryFilter(
+        proteinFolding.filters.FoldingDataSubmitted(undefined, PROJECT),
+      );
+      const others = submitted.filter((event) => event.args.provider !== signers.bob.address);
+      expect(others).to.have.length(2);
+      for (const event of others) {
+        const handle = event.args.encryptedScore;
+        // Only its provider can decrypt a losing score; not the public and not the owner, who manages the project
+        await expect(fhevm.publicDecryptEuint(FhevmType.euint32, handle)).to.be.rejected;
+        for (const signer of [signers.deployer, signers.alice, signers.bob]) {
+          if (signer.address === event.args.provider) continue;
+          await expect(fhevm.userDecryptEuint(FhevmType.euint32, handle, proteinFoldingAddress, signer)).to.be.rejected;
+        }
+      }
+    });
+
+    it("reveals nothing for a batch without submissions", async function () {
+      await proteinFolding.openBatch(PROJECT);
+      const tx = await proteinFolding.closeBatch(PROJECT, 1);
+      const receipt = await tx.wait();
+
+      expect(fhevm.parseDecryptionRequestEvents(receipt!.logs)).to.have.length(0);
+      expect((await proteinFolding.batchWinners(PROJECT, 1)).revealed).to.eq(false);
+    });
+
+    it("keeps the other score confidential when only two providers submit", async function () {
+      await proteinFolding.addProvider(signers.alice.address);
+      await proteinFolding.addProvider(signers.bob.address);
+      await proteinFolding.openBatch(PROJECT);
+      await submitScore(signers.alice, 7);
+      await submitScore(signers.bob, 18);
+      await proteinFolding.closeBatch(PROJECT, 1);
+      await fhevm.awaitDecryptionOracle();
+
+      // With bob's 18 revealed, the total would give away alice's 7
+      await expect(proteinFolding.requestBatchScoreDecryption(PROJECT, 1)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "TooFewSubmissions",
+      );
+      await expect(proteinFolding.requestBatchScoreDecryptions([PROJECT], [1])).to.be.revertedWithCustomError(
+        proteinFolding,
+        "TooFewSubmissions",
+      );
+      await expect(proteinFolding.grantBatchTotalAccess(PROJECT, 1, signers.bob.address)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "TooFewSubmissions",
+      );
+      const { totalScore } = await proteinFolding.batches(PROJECT, 1);
+      await expect(fhevm.publicDecryptEuint(FhevmType.euint32, totalScore)).to.be.rejected;
+    });
+
+    it("rejects replayed winner callbacks", async function () {
+      await submitThreeScores();
+      await proteinFolding.closeBatch(PROJECT, 1);
+      await fhevm.awaitDecryptionOracle();
+
+      const [revealed] = await proteinFolding.queryFilter(proteinFolding.filters.BatchWinnerRevealed());
+      await expect(proteinFolding.winnerCallback(revealed.args.requestId, "0x", "0x")).to.be.revertedWithCustomError(
+        proteinFolding,
+        "ReplayAttempt",
+      );
+    });
+  });
+
+  describe("access", function () {
+    beforeEach(async function () {
+      await proteinFolding.addProvider(signers.alice.address);
+      await proteinFolding.openBatch(PROJECT);
+      await submitScore(signers.alice, 18);
+    });
+
+    it("lets a provider decrypt their own submission", async function () {
+      const submission = await proteinFolding.submissions(1);
+      expect([submission.projectId, submission.batchId, submission.provider]).to.deep.eq([
+        PROJECT,
+        1n,
+        signers.alice.address,
+      ]);
+
+      const score = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        submission.score,
+        proteinFoldingAddress,
+        signers.alice,
+      );
+      expect(score).to.eq(18n);
+      expect(await proteinFolding.canDecryptSubmission(1, signers.alice.address)).to.eq(true);
+      expect(await proteinFolding.canDecryptSubmission(1, signers.bob.address)).to.eq(false);
+    });
+
+    it("shares a submission with a collaborator named by its provider", async function () {
+      await expect(proteinFolding.grantSubmissionAccess(1, signers.bob.address)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "NotSubmitter",
+      );
+      await expect(
+        proteinFolding.connect(signers.alice).grantSubmissionAccess(2, signers.bob.address),
+      ).to.be.revertedWithCustomError(proteinFolding, "UnknownSubmission");
+
+      await expect(proteinFolding.connect(signers.alice).grantSubmissionAccess(1, signers.bob.address))
+        .to.emit(proteinFolding, "SubmissionAccessGranted")
+        .withArgs(1n, signers.alice.address, signers.bob.address);
+      // A second grant to the same collaborator changes nothing
+      await expect(proteinFolding.connect(signers.alice).grantSubmissionAccess(1, signers.bob.address)).not.to.emit(
+        proteinFolding,
+        "SubmissionAccessGranted",
+      );
+
+      const { score } = await proteinFolding.submissions(1);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, score, proteinFoldingAddress, signers.bob)).to.eq(18n);
+    });
+
+    it("keeps the running total usable by the contract only", async function () {
+      await submitScore(signers.deployer, 5);
+      await proteinFolding.closeBatch(PROJECT, 1);
+
+      const { totalScore } = await proteinFolding.batches(PROJECT, 1);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, totalScore)).to.eq(23n);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint32, totalScore, proteinFoldingAddress, signers.deployer)).to.be
+        .rejected;
+    });
+
+    it("lets the project manager share a closed batch total", async function () {
+      await proteinFolding.addProvider(signers.bob.address);
+      await submitScore(signers.bob, 4);
+      await submitScore(signers.deployer, 5);
+      await expect(proteinFolding.grantBatchTotalAccess(PROJECT, 1, signers.bob.address)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "BatchStillActive",
+      );
+      await proteinFolding.closeBatch(PROJECT, 1);
+      await expect(
+        proteinFolding.connect(signers.alice).grantBatchTotalAccess(PROJECT, 1, signers.bob.address),
+      ).to.be.revertedWithCustomError(proteinFolding, "NotProjectManager");
+      await expect(proteinFolding.grantBatchTotalAccess(PROJECT, 2, signers.bob.address)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "InvalidBatchId",
+      );
+
+      await expect(proteinFolding.grantBatchTotalAccess(PROJECT, 1, signers.bob.address))
+        .to.emit(proteinFolding, "BatchTotalAccessGranted")
+        .withArgs(PROJECT, 1n, signers.bob.address);
+      expect(await proteinFolding.canDecryptBatchTotal(PROJECT, 1, signers.bob.address)).to.eq(true);
+
+      const { totalScore } = await proteinFolding.batches(PROJECT, 1);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, totalScore, proteinFoldingAddress, signers.bob)).to.eq(
+        27n,
+      );
+    });
+  });
+
+  describe("projects", function () {
+    const VILLIN = 2n;
+
+    beforeEach(async function () {
+      await proteinFolding.addProvider(signers.alice.address);
+      await proteinFolding.addProvider(signers.bob.address);
+    });
+
+    it("creates projects with their own manager and batch sequence", async function () {
+      await expect(proteinFolding.createProject("Villin headpiece", signers.alice.address))
+        .to.emit(proteinFolding, "ProjectCreated")
+        .withArgs(VILLIN, signers.alice.address, "Villin headpiece");
+      expect(await proteinFolding.projectCount()).to.eq(2n);
+
+      const project = await proteinFolding.projects(VILLIN);
+      expect(project.name).to.eq("Villin headpiece");
+      expect(project.manager).to.eq(signers.alice.address);
+      expect(project.currentBatchId).to.eq(1n);
+    });
+
+    it("lets the project manager run batches and the owner step in", async function () {
+      await proteinFolding.createProject("Villin headpiece", signers.alice.address);
+
+      await expect(proteinFolding.connect(signers.alice).openBatch(VILLIN))
+        .to.emit(proteinFolding, "BatchOpened")
+        .withArgs(VILLIN, 1n);
+      await expect(proteinFolding.connect(signers.alice).openBatch(PROJECT)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "NotProjectManager",
+      );
+      await expect(proteinFolding.connect(signers.bob).closeBatch(VILLIN, 1)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "NotProjectManager",
+      );
+      await expect(proteinFolding.closeBatch(VILLIN, 1)).to.emit(proteinFolding, "BatchClosed");
+    });
+
+    it("hands a project over to a new manager", async function () {
+      await proteinFolding.createProject("Villin headpiece", signers.alice.address);
+
+      await expect(proteinFolding.connect(signers.alice).setProjectManager(VILLIN, signers.bob.address))
+        .to.emit(proteinFolding, "ProjectManagerChanged")
+        .withArgs(VILLIN, signers.alice.address, signers.bob.address);
+      await expect(proteinFolding.connect(signers.alice).openBatch(VILLIN)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "NotProjectManager",
+      );
+      await expect(proteinFolding.connect(signers.bob).openBatch(VILLIN)).to.emit(proteinFolding, "BatchOpened");
+    });
+
+    it("rejects the zero address as project manager", async function () {
+      await expect(proteinFolding.createProject("Villin headpiece", ethers.ZeroAddress)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "InvalidManager",
+      );
+      await expect(proteinFolding.setProjectManager(PROJECT, ethers.ZeroAddress)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "InvalidManager",
+      );
+      expect((await proteinFolding.projects(PROJECT)).manager).to.eq(signers.deployer.address);
+    });
+
+    it("rejects unknown projects", async function () {
+      await expect(proteinFolding.openBatch(99)).to.be.revertedWithCustomError(proteinFolding, "UnknownProject");
+      await expect(submitScore(signers.alice, 10, 99n, 1n)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "UnknownProject",
+      );
+    });
+
+    it("collects scores into open batches of several projects at once", async function () {
+      await proteinFolding.createProject("Villin headpiece", signers.alice.address);
+      await proteinFolding.openBatch(PROJECT);
+      await proteinFolding.connect(signers.alice).openBatch(VILLIN);
+
+      await submitScore(signers.alice, 10, PROJECT);
+      await submitScore(signers.bob, 25, VILLIN);
+      await time.increase(60);
+      await submitScore(signers.alice, 7, VILLIN);
+
+      const trpCage = await proteinFolding.batches(PROJECT, 1);
+      const villin = await proteinFolding.batches(VILLIN, 1);
+      expect(trpCage.submissionCount).to.eq(1n);
+      expect(villin.submissionCount).to.eq(2n);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, trpCage.totalScore)).to.eq(10n);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, villin.totalScore)).to.eq(32n);
+    });
+
+    it("rejects submissions to a batch other than the current one", async function () {
+      await proteinFolding.openBatch(PROJECT);
+      await proteinFolding.closeBatch(PROJECT, 1);
+      await proteinFolding.openBatch(PROJECT);
+
+      await expect(submitScore(signers.alice, 10, PROJECT, 1n)).to.be.revertedWithCustomError(
+        proteinFolding,
+        "InvalidBatchId",
+      );
+      await expect(submitScore(signers.alice, 10, PROJECT, 2n)).to.emit(proteinFolding, "FoldingDataSubmitted");
+    });
+
+    it("requests decryption of batches from several projects it manages", async function () {
+      await proteinFolding.createProject("Villin headpiece", signers.alice.address);
+      for (const [projectId, manager] of [
+        [PROJECT, signers.deployer],
+        [VILLIN, signers.alice],
+      ] as const) {
+        await proteinFolding.connect(manager).openBatch(projectId);
+        for (const provider of [signers.alice, signers.bob, signers.deployer])
+          await submitScore(provider, 5, projectId);
+        await time.increase(60);
+        await proteinFolding.connect(manager).closeBatch(projectId, 1);
+      }
+
+      await expect(
+        proteinFolding.connect(signers.alice).requestBatchScoreDecryptions([PROJECT, VILLIN], [1, 1]),
+      ).to.be.revertedWithCustomError(proteinFolding, "NotProjectManager");
+      await expect(proteinFolding.requestBatchScoreDecryptions([PROJECT], [1, 1])).to.be.revertedWithCustomError(
+        proteinFolding,
+        "InvalidBatchId",
+      );
+
+      await proteinFolding.requestBatchScoreDecryptions([PROJECT, VILLIN], [1, 1]);
+      expect(await proteinFolding.decryptionPending(VILLIN, 1)).to.eq(true);
+      await fhevm.awaitDecryptionOracle();
+      expect(await proteinFolding.decryptionPending(VILLIN, 1)).to.eq(false);
+    });
+  });
+
+  describe("task energies", function () {
+    // Alice folds a task owned by Bob and stores its energy
+    async function storeTaskEnergy(energy: number) {
+      const input = await encryptScore(signers.alice, energy);
+      const tx = proteinFolding
+        .connect(signers.alice)
+        .storeTaskEnergy("task-1", signers.bob.address, input.handles[0], input.inputProof);
+      const receipt = await (await tx).wait();
+      const stored = receipt!.logs
+        .map((log) => proteinFolding.interface.parseLog(log))
+        .find((log) => log?.name === "TaskEnergyStored");
+      return stored!.args.energy as string;
+    }
+
+    it("lets the task owner and the sender decrypt the stored energy", async function () {
+      const energy = await storeTaskEnergy(1200);
+
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, energy, proteinFoldingAddress, signers.bob)).to.eq(1200n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, energy, proteinFoldingAddress, signers.alice)).to.eq(
+        1200n,
+      );
+      await expect(fhevm.userDecryptEuint(FhevmType.euint32, energy, proteinFoldingAddress, signers.deployer)).to.be
+        .rejected;
+      expect(await proteinFolding.canDecryptTaskEnergy(energy, signers.bob.address)).to.eq(true);
+      expect(await proteinFolding.canDecryptTaskEnergy(energy, signers.deployer.address)).to.eq(false);
+    });
+
+    it("emits TaskEnergyStored with the imported handle", async function () {
+      const input = await encryptScore(signers.alice, 7);
+      await expect(
+        proteinFolding
+          .connect(signers.alice)
+          .storeTaskEnergy("task-1", signers.bob.address, input.handles[0], input.inputProof),
+      )
+        .to.emit(proteinFolding, "TaskEnergyStored")
+        .withArgs("task-1", signers.bob.address, signers.alice.address, ethers.hexlify(input.handles[0]));
+    });
+
+    it("reports energies that were never stored as not decryptable", async function () {
+      const input = await encryptScore(signers.alice, 7);
+      expect(await proteinFolding.canDecryptTaskEnergy(input.handles[0], signers.alice.address)).to.eq(false);
+    });
+
+    it("rejects the zero address as task owner", async function () {
+      const input = await encryptScore(signers.alice, 7);
+      await expect(
+        proteinFolding
+          .connect(signers.alice)
+          .storeTaskEnergy("task-1", ethers.ZeroAddress, input.handles[0], input.inputProof),
+      ).to.be.revertedWithCustomError(proteinFolding, "InvalidTaskOwner");
+    });
+
+    it("rejects energies encrypted for another sender", async function () {
+      const input = await encryptScore(signers.bob, 7);
+      await expect(
+        proteinFolding
+          .connect(signers.alice)
+          .storeTaskEnergy("task-1", signers.bob.address, input.handles[0], input.inputProof),
+      ).to.be.reverted;
+    });
+  });
+});
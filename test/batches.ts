@@ -0,0 +1,193 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { listBatches, requestUndecryptedBatches } from "../frontend/web/src/proteinFolding/batches";
+import { ProteinFoldingClient } from "../frontend/web/src/proteinFolding/client";
+import { NotProjectManagerError } from "../frontend/web/src/proteinFolding/errors";
+import { FoldingEventIndex } from "../frontend/web/src/proteinFolding/eventIndex";
+import { ProteinFoldingFHE, ProteinFoldingFHE__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+// Both created in beforeEach and managed by the deployer
+const TRP_CAGE = 1n;
+const VILLIN = 2n;
+
+describe("batches", function () {
+  let signers: Signers;
+  let proteinFolding: ProteinFoldingFHE;
+  let proteinFoldingAddress: string;
+  let client: ProteinFoldingClient;
+  let index: FoldingEventIndex;
+
+  async function submitScore(signer: HardhatEthersSigner, projectId: bigint, score: number) {
+    const input = await fhevm.createEncryptedInput(proteinFoldingAddress, signer.address).add32(score).encrypt();
+    const { currentBatchId } = await proteinFolding.projects(projectId);
+    await proteinFolding
+      .connect(signer)
+      .submitFoldingData(projectId, currentBatchId, input.handles[0], input.inputProof);
+  }
+
+  // Opens the current batch of the project, collects one score per provider and closes it
+  async function runBatch(projectId: bigint, providers: HardhatEthersSigner[]) {
+    const { currentBatchId } = await proteinFolding.projects(projectId);
+    await proteinFolding.openBatch(projectId);
+    for (const provider of providers) await submitScore(provider, projectId, 10);
+    await proteinFolding.closeBatch(projectId, currentBatchId);
+  }
+
+  async function events() {
+    await index.sync();
+    return index.events();
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const factory = (await ethers.getContractFactory("ProteinFoldingFHE")) as ProteinFoldingFHE__factory;
+    proteinFolding = (await factory.deploy()) as ProteinFoldingFHE;
+    proteinFoldingAddress = await proteinFolding.getAddress();
+    const fromBlock = (await proteinFolding.deploymentTransaction()!.wait())!.blockNumber;
+
+    await proteinFolding.createProject("Trp-cage", signers.deployer.address);
+    await proteinFolding.createProject("Villin headpiece", signers.deployer.address);
+    await proteinFolding.addProvider(signers.alice.address);
+    await proteinFolding.addProvider(signers.bob.address);
+    await proteinFolding.setCooldownSeconds(0);
+
+    client = new ProteinFoldingClient(proteinFoldingAddress, signers.deployer);
+    index = new FoldingEventIndex({
+      provider: ethers.provider,
+      address: proteinFoldingAddress,
+      fromBlock,
+      confirmations: 0,
+    });
+  });
+
+  afterEach(async function () {
+    // Answer every request the test left behind, so none reaches the next deployment
+    if (fhevm.isMock) await fhevm.awaitDecryptionOracle();
+  });
+
+  describe("listBatches", function () {
+    it("rebuilds batch state, submissions and providers from the events", async function () {
+      await runBatch(TRP_CAGE, [signers.alice, signers.bob, signers.alice]);
+      await proteinFolding.openBatch(TRP_CAGE);
+      await submitScore(signers.bob, TRP_CAGE, 4);
+      await fhevm.awaitDecryptionOracle();
+
+      const [closed, open] = listBatches(await events());
+      expect([closed.projectId, closed.id, closed.state, closed.submissionCount]).to.deep.eq([
+        TRP_CAGE,
+        1n,
+        "closed",
+        3,
+      ]);
+      expect(closed.providers).to.deep.eq([signers.alice.address, signers.bob.address]);
+      expect(closed.totalScore).to.eq((await proteinFolding.batches(TRP_CAGE, 1)).totalScore);
+      expect(closed.winner).to.eq(signers.alice.address);
+      expect(closed.bestScore).to.eq(10n);
+      expect([open.id, open.state, open.submissionCount, open.closedBlock]).to.deep.eq([2n, "open", 1, undefined]);
+    });
+
+    it("filters by project and orders batches by project and batch id", async function () {
+      await runBatch(VILLIN, [signers.alice]);
+      await runBatch(TRP_CAGE, [signers.bob]);
+      await runBatch(VILLIN, [signers.bob]);
+
+      const all = listBatches(await events());
+      expect(all.map((batch) => [batch.projectId, batch.id])).to.deep.eq([
+        [TRP_CAGE, 1n],
+        [VILLIN, 1n],
+        [VILLIN, 2n],
+      ]);
+      const villin = listBatches(await events(), VILLIN);
+      expect(villin.map((batch) => batch.id)).to.deep.eq([1n, 2n]);
+      expect(villin.every((batch) => batch.projectId === VILLIN)).to.eq(true);
+    });
+  });
+
+  describe("requestUndecryptedBatches", function () {
+    it("skips open batches, batches with too few submissions and decrypted ones", async function () {
+      const three = [signers.alice, signers.bob, signers.deployer];
+      await runBatch(TRP_CAGE, three);
+      await runBatch(TRP_CAGE, [signers.alice, signers.bob]);
+      await runBatch(TRP_CAGE, three);
+      await proteinFolding.openBatch(TRP_CAGE);
+      for (const provider of three) await submitScore(provider, TRP_CAGE, 10);
+
+      await proteinFolding.requestBatchScoreDecryption(TRP_CAGE, 3);
+      await fhevm.awaitDecryptionOracle();
+
+      const requested = await requestUndecryptedBatches(client, await events());
+      expect(requested.map(({ projectId, batchId }) => [projectId, batchId])).to.deep.eq([[TRP_CAGE, 1n]]);
+      expect(await proteinFolding.decryptionPending(TRP_CAGE, 1)).to.eq(true);
+      // A pending request is not sent again
+      expect(await requestUndecryptedBatches(client, await events())).to.deep.eq([]);
+    });
+
+    it("requests the batches of one project only when asked to", async function () {
+      const three = [signers.alice, signers.bob, signers.deployer];
+      await runBatch(TRP_CAGE, three);
+      await runBatch(VILLIN, three);
+      await runBatch(VILLIN, three);
+
+      const requested = await requestUndecryptedBatches(client, await events(), VILLIN);
+      expect(requested.map(({ projectId, batchId }) => [projectId, batchId])).to.deep.eq([
+        [VILLIN, 1n],
+        [VILLIN, 2n],
+      ]);
+      const logged = (await events()).filter((event) => event.name === "DecryptionRequested");
+      expect(requested.map((batch) => batch.requestId)).to.deep.eq(logged.map((event) => event.args.requestId));
+      expect(await proteinFolding.decryptionPending(TRP_CAGE, 1)).to.eq(false);
+
+      await fhevm.awaitDecryptionOracle();
+      const [trpCage, villin1, villin2] = listBatches(await events());
+      expect([trpCage.decryptedScore, villin1.decryptedScore, villin2.decryptedScore]).to.deep.eq([
+        undefined,
+        30n,
+        30n,
+      ]);
+    });
+
+    it("requests a batch again once its pending request is cancelled", async function () {
+      await runBatch(TRP_CAGE, [signers.alice, signers.bob, signers.deployer]);
+      const [first] = await requestUndecryptedBatches(client, await events());
+      await client.cancelBatchDecryption(first.requestId);
+
+      const [second] = await requestUndecryptedBatches(client, await events());
+      expect(second.batchId).to.eq(1n);
+      expect(second.requestId).not.to.eq(first.requestId);
+      const [batch] = listBatches(await events());
+      expect(batch.decryptionRequests.map((request) => request.cancelled)).to.deep.eq([true, undefined]);
+    });
+
+    it("sends nothing when no batch is waiting", async function () {
+      await runBatch(TRP_CAGE, [signers.alice]);
+      const blockNumber = await ethers.provider.getBlockNumber();
+
+      expect(await requestUndecryptedBatches(client, await events())).to.deep.eq([]);
+      expect(await ethers.provider.getBlockNumber()).to.eq(blockNumber);
+    });
+
+    it("surfaces contract reverts as typed errors", async function () {
+      await runBatch(TRP_CAGE, [signers.alice, signers.bob, signers.deployer]);
+      const outsider = new ProteinFoldingClient(proteinFoldingAddress, signers.alice);
+
+      await expect(requestUndecryptedBatches(outsider, await events())).to.be.rejectedWith(NotProjectManagerError);
+      expect(await proteinFolding.decryptionPending(TRP_CAGE, 1)).to.eq(false);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { expect } from "chai";
+import {
+  Coordinate,
+  areAdjacent,
+  computeEnergy,
+  decodeConformation,
+  encodeConformation,
+  findContacts,
+  isSelfAvoiding,
+  straightConformation,
+  toHpSequence,
+} from "../frontend/web/src/folding/hpModel";
+import {
+  PIPELINE_PRESETS,
+  PipelineDefinition,
+  emptyStages,
+  pipelineIssues,
+  runPipeline,
+} from "../frontend/web/src/folding/pipeline";
+import { foldProtein } from "../frontend/web/src/folding/simulator";
+import { FHEProteinFoldingCompute, FOLDING_DIMENSION } from "../frontend/web/src/folding/taskCompute";
+
+// Trp-cage (TC5b), 20 residues with a hydrophobic core
+const TRP_CAGE = "NLYIQWLKDGGPSSGRPPPS";
+
+function expectValidFold(conformation: Coordinate[], length: number) {
+  expect(conformation).to.have.length(length);
+  expect(isSelfAvoiding(conformation)).to.eq(true);
+  for (let i = 1; i < conformation.length; i++) {
+    expect(areAdjacent(conformation[i - 1], conformation[i]), `residues ${i} and ${i + 1}`).to.eq(true);
+  }
+}
+
+describe("folding", function () {
+  describe("hpModel", function () {
+    it("maps residues to H and P and rejects unknown ones", function () {
+      expect(toHpSequence("av ik\nd").join("")).to.eq("HHHPP");
+      expect(() => toHpSequence("A")).to.throw("at least two residues");
+      expect(() => toHpSequence("AXV")).to.throw("Unknown amino acid 'X' at position 2");
+    });
+
+    it("scores -1 per non-bonded H-H contact", function () {
+      // A 2x2 square: residues 0 and 3 are neighbours without a bond between them
+      const square = decodeConformation("RUL");
+      expect(findContacts(toHpSequence("AVVA"), square, 2)).to.deep.eq([[0, 3]]);
+      expect(computeEnergy(toHpSequence("AVVA"), square, 2)).to.eq(-1);
+      expect(computeEnergy(toHpSequence("ADDK"), square, 2)).to.eq(0);
+      expect(computeEnergy(toHpSequence("AVVA"), straightConformation(4), 2)).to.eq(0);
+    });
+
+    it("round-trips conformations through their direction encoding", function () {
+      const conformation = decodeConformation("RUFLD");
+      expect(encodeConformation(conformation)).to.eq("RUFLD");
+      expectValidFold(conformation, 6);
+    });
+
+    it("rejects conformations that collide or break the chain", function () {
+      expect(() => decodeConformation("RL")).to.throw("not self-avoiding");
+      expect(() => decodeConformation("RX")).to.throw("Unknown lattice direction 'X'");
+      expect(
+        isSelfAvoiding([
+          [0, 0, 0],
+          [2, 0, 0],
+        ]),
+      ).to.eq(false);
+      expect(() =>
+        encodeConformation([
+          [0, 0, 0],
+          [1, 1, 0],
+        ]),
+      ).to.throw("not lattice neighbours");
+    });
+  });
+
+  describe("foldProtein", function () {
+    it("returns a self-avoiding fold whose energy is minus its H-H contacts", function () {
+      for (const dimension of [2, 3] as const) {
+        const result = foldProtein(TRP_CAGE, { dimension, steps: 3000, seed: 7 });
+        const hp = toHpSequence(TRP_CAGE);
+        expectValidFold(result.conformation, TRP_CAGE.length);
+        if (dimension === 2) expect(result.conformation.every((site) => site[2] === 0)).to.eq(true);
+        expect(result.energy).to.eq(-result.contacts.length);
+        expect(result.energy).to.eq(computeEnergy(hp, result.conformation, dimension));
+        expect(result.energy).to.be.below(0);
+        expect(computeEnergy(hp, decodeConformation(result.encodedConformation), dimension)).to.eq(result.energy);
+      }
+    });
+
+    it("is reproducible for a given seed", function () {
+      const first = foldProtein(TRP_CAGE, { steps: 1000, seed: 42 });
+      const second = foldProtein(TRP_CAGE, { steps: 1000, seed: 42 });
+      expect(second.encodedConformation).to.eq(first.encodedConformation);
+      expect(second.trajectory).to.deep.eq(first.trajectory);
+    });
+
+    it("never ends above the energy it started from", function () {
+      const start = foldProtein(TRP_CAGE, { steps: 500, seed: 3 });
+      const resumed = foldProtein(TRP_CAGE, {
+        steps: 500,
+        startStep: 500,
+        totalSteps: 1000,
+        initial: start.encodedConformation,
+        seed: 4,
+      });
+      expect(resumed.stepsCompleted).to.eq(1000);
+      expect(resumed.energy).to.be.at.most(start.energy);
+      expect(resumed.trajectory[0].step).to.eq(500);
+    });
+
+    it("rejects a starting conformation that does not fit the sequence", function () {
+      expect(() => foldProtein("AVVA", { initial: "RR" })).to.throw("does not match the sequence length");
+      expect(() => foldProtein("AVVA", { initial: "RFL", dimension: 2 })).to.throw("not planar");
+    });
+  });
+
+  describe("pipeline", function () {
+    const pipeline: PipelineDefinition = {
+      stages: [
+        { kind: "annealing", steps: 600 },
+        { kind: "minimization", steps: 300 },
+      ],
+    };
+
+    it("accepts the presets and lists the issues of malformed pipelines", function () {
+      for (const preset of Object.values(PIPELINE_PRESETS)) expect(pipelineIssues(preset.pipeline)).to.deep.eq([]);
+      expect(pipelineIssues({ stages: [] })).to.deep.eq(["pipeline has no stages"]);
+      expect(pipelineIssues(undefined)).to.deep.eq(["pipeline has no stages"]);
+      expect(pipelineIssues({ stages: [{ kind: "melting", steps: 1.5, label: 3, temperature: -1 }] })).to.deep.eq([
+        "stage 1: unknown kind melting",
+        "stage 1: steps must be a positive integer",
+        "stage 1: label is not a string",
+        "stage 1: temperature must be positive",
+      ]);
+    });
+
+    it("folds in segments that resume from the saved stage progress", function () {
+      const first = runPipeline(TRP_CAGE, pipeline, emptyStages(pipeline), 400, { seed: 1 });
+      expect([first.stepsRun, first.stepsCompleted, first.done]).to.deep.eq([400, 400, false]);
+      expect(first.stages.map((stage) => stage.stepsCompleted)).to.deep.eq([400, 0]);
+
+      const second = runPipeline(TRP_CAGE, pipeline, first.stages, 400, { seed: 2 });
+      expect(second.stages.map((stage) => stage.stepsCompleted)).to.deep.eq([600, 200]);
+      expect(second.stepsCompleted).to.eq(800);
+
+      const last = runPipeline(TRP_CAGE, pipeline, second.stages, 400, { seed: 3 });
+      expect([last.stepsRun, last.stepsCompleted, last.progress, last.done]).to.deep.eq([100, 900, 1, true]);
+      expect(last.energy).to.eq(last.stages[1].energy);
+      expect(last.energy).to.be.at.most(first.energy);
+      expectValidFold(decodeConformation(last.conformation), TRP_CAGE.length);
+
+      // A finished pipeline folds nothing more
+      expect(runPipeline(TRP_CAGE, pipeline, last.stages, 400).stepsRun).to.eq(0);
+    });
+
+    it("folds the task's pipeline on the 3D lattice", function () {
+      const run = FHEProteinFoldingCompute({ sequence: TRP_CAGE, pipeline, stages: emptyStages(pipeline) }, 300);
+      expect(run.stepsRun).to.eq(300);
+      expect(run.energy).to.eq(
+        computeEnergy(toHpSequence(TRP_CAGE), decodeConformation(run.conformation), FOLDING_DIMENSION),
+      );
+      expect(() => FHEProteinFoldingCompute({ pipeline }, 300)).to.throw("no amino acid sequence");
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { IncomingMessage, Server, ServerResponse, createServer } from "http";
+import { AddressInfo } from "net";
+import { ethers, network } from "hardhat";
+import { ProviderPool, ProviderPoolError, QuorumError } from "../frontend/web/src/network/providerPool";
+import { NotOwnerError, decodeProteinFoldingError } from "../frontend/web/src/proteinFolding/errors";
+import { ProteinFoldingFHE__factory } from "../types";
+
+type Behaviour = "ok" | "down" | "slow" | "ahead" | "wrong-chain";
+
+interface TestEndpoint {
+  url: string;
+  behaviour: Behaviour;
+  requests: string[];
+  server: Server;
+}
+
+interface RpcRequest {
+  id: number;
+  method: string;
+  params?: unknown[];
+}
+
+const CHAIN = { name: "hardhat", chainId: 31337 };
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  return body;
+}
+
+// JSON-RPC endpoint in front of the hardhat network that can be made to fail, hang or lie
+async function startEndpoint(behaviour: Behaviour = "ok"): Promise<TestEndpoint> {
+  const endpoint = { behaviour, requests: [] } as unknown as TestEndpoint;
+
+  async function answer({ id, method, params }: RpcRequest) {
+    if (endpoint.behaviour === "wrong-chain" && method === "eth_chainId") return { jsonrpc: "2.0", id, result: "0x1" };
+    try {
+      let result = await network.provider.request({ method, params });
+      if (endpoint.behaviour === "ahead" && method === "eth_blockNumber")
+        result = ethers.toQuantity(Number(result) + 1000);
+      return { jsonrpc: "2.0", id, result };
+    } catch (e) {
+      const { code, message, data } = e as { code?: number; message: string; data?: unknown };
+      return { jsonrpc: "2.0", id, error: { code: code ?? -32603, message, data } };
+    }
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse) {
+    const body = JSON.parse(await readBody(req));
+    for (const request of [body].flat()) endpoint.requests.push(request.method);
+    if (endpoint.behaviour === "down") {
+      res.writeHead(503).end("service unavailable");
+      return;
+    }
+    if (endpoint.behaviour === "slow") await new Promise((resolve) => setTimeout(resolve, 500));
+    const reply = Array.isArray(body) ? await Promise.all(body.map(answer)) : await answer(body);
+    res.writeHead(200, { "content-type": "application/json" }).end(JSON.stringify(reply));
+  }
+
+  endpoint.server = createServer((req, res) => {
+    handle(req, res).catch(() => res.writeHead(500).end());
+  });
+  await new Promise<void>((resolve) => endpoint.server.listen(0, "127.0.0.1", resolve));
+  endpoint.url = `http://127.0.0.1:${(endpoint.server.address() as AddressInfo).port}`;
+  return endpoint;
+}
+
+// AbstractProvider answers a repeated request from a short-lived cache; this always reaches an endpoint
+const blockNumber = async (pool: ProviderPool) => Number(await pool._perform({ method: "getBlockNumber" }));
+
+describe("providerPool", function () {
+  let endpoints: TestEndpoint[];
+  let pool: ProviderPool | undefined;
+
+  async function createPool(behaviours: Behaviour[], options: ConstructorParameters<typeof ProviderPool>[2] = {}) {
+    endpoints = await Promise.all(behaviours.map((behaviour) => startEndpoint(behaviour)));
+    pool = new ProviderPool(
+      endpoints.map((endpoint) => endpoint.url),
+      CHAIN,
+      options,
+    );
+    return pool;
+  }
+
+  afterEach(async function () {
+    pool?.destroy();
+    pool = undefined;
+    for (const endpoint of endpoints ?? []) {
+      endpoint.server.closeAllConnections();
+      await new Promise((resolve) => endpoint.server.close(resolve));
+    }
+    endpoints = [];
+  });
+
+  it("needs at least one endpoint", function () {
+    expect(() => new ProviderPool([], CHAIN)).to.throw("at least one RPC endpoint");
+  });
+
+  it("fails over to the next endpoint and records the failure", async function () {
+    const pool = await createPool(["down", "ok"]);
+    const updates: string[][] = [];
+    pool.onHealthChange((health) => updates.push(health.map((endpoint) => endpoint.state)));
+
+    expect(await blockNumber(pool)).to.eq(await ethers.provider.getBlockNumber());
+    const [down, ok] = pool.health();
+    expect([down.requests, down.failures, down.errorRate, down.state]).to.deep.eq([1, 1, 1, "degraded"]);
+    expect(down.lastError).to.match(/503|server response/i);
+    expect([ok.requests, ok.failures, ok.errorRate, ok.state]).to.deep.eq([1, 0, 0, "healthy"]);
+    expect(ok.latency).to.be.a("number");
+    expect(ok.lastBlock).to.eq(await ethers.provider.getBlockNumber());
+    expect(updates).to.deep.eq([
+      ["degraded", "healthy"],
+      ["degraded", "healthy"],
+    ]);
+  });
+
+  it("fails over when an endpoint times out", async function () {
+    const pool = await createPool(["slow", "ok"], { timeout: 100 });
+
+    expect(await blockNumber(pool)).to.eq(await ethers.provider.getBlockNumber());
+    expect(pool.health()[0].lastError).to.eq(`RPC timeout after 100ms (${endpoints[0].url})`);
+  });
+
+  it("sits out failing endpoints for the cooldown and tries them again afterwards", async function () {
+    const pool = await createPool(["down", "ok"], { cooldown: 200, maxConsecutiveFailures: 2 });
+    const [down] = endpoints;
+
+    // The failed endpoint has never answered, so it counts as fast and keeps being tried first
+    await blockNumber(pool);
+    await blockNumber(pool);
+    expect(down.requests).to.have.length(2);
+    expect(pool.health()[0].state).to.eq("cooling-down");
+    expect(pool.health()[0].cooldownUntil).to.be.above(Date.now());
+
+    await blockNumber(pool);
+    expect(down.requests).to.have.length(2);
+
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    down.behaviour = "ok";
+    await blockNumber(pool);
+    expect(down.requests).to.have.length(3);
+    const [recovered] = pool.health();
+    expect([recovered.state, recovered.cooldownUntil, recovered.failures]).to.deep.eq(["degraded", undefined, 2]);
+  });
+
+  it("reports every endpoint's error when all of them fail", async function () {
+    const pool = await createPool(["down", "down"]);
+
+    const error = await pool.getBlockNumber().catch((e: unknown) => e);
+    expect(error).to.be.instanceOf(ProviderPoolError);
+    expect((error as ProviderPoolError).errors).to.have.length(2);
+    expect((error as Error).message).to.contain("All 2 RPC endpoints failed for getBlockNumber");
+  });
+
+  it("does not fail over on reverts, which every endpoint would return", async function () {
+    const [deployer, alice]: HardhatEthersSigner[] = await ethers.getSigners();
+    const folding = await new ProteinFoldingFHE__factory(deployer).deploy();
+    const pool = await createPool(["ok", "ok"]);
+
+    const data = folding.interface.encodeFunctionData("transferOwnership", [alice.address]);
+    const error = await pool.call({ to: await folding.getAddress(), from: alice.address, data }).catch((e) => e);
+    expect(decodeProteinFoldingError(error, folding.interface)).to.be.instanceOf(NotOwnerError);
+    expect(endpoints.map((endpoint) => endpoint.requests.filter((method) => method === "eth_call").length)).to.deep.eq([
+      1, 0,
+    ]);
+    expect(pool.health()[0]).to.include({ failures: 0, state: "healthy" });
+  });
+
+  describe("quorum", function () {
+    it("returns the answer enough endpoints agree on", async function () {
+      const pool = await createPool(["ahead", "ok", "ok"]);
+      const head = await ethers.provider.getBlockNumber();
+
+      expect(await pool.quorum((provider) => provider.getBlockNumber())).to.eq(head);
+      expect(await pool.quorum((provider) => provider.getBlockNumber(), { quorum: 1 })).to.be.oneOf([
+        head,
+        head + 1000,
+      ]);
+    });
+
+    it("compares answers by the given key", async function () {
+      const pool = await createPool(["ahead", "ok"]);
+
+      const parity = (block: number) => String(block % 2);
+      expect(await pool.quorum((provider) => provider.getBlockNumber(), { key: parity })).to.be.oneOf([
+        await ethers.provider.getBlockNumber(),
+        (await ethers.provider.getBlockNumber()) + 1000,
+      ]);
+    });
+
+    it("fails when the endpoints disagree or error", async function () {
+      const pool = await createPool(["ahead", "ok", "down"]);
+
+      const error = await pool.quorum((provider) => provider.getBlockNumber(), { quorum: 3 }).catch((e: unknown) => e);
+      expect(error).to.be.instanceOf(QuorumError);
+      const { quorum, answers, errors } = error as QuorumError;
+      expect(quorum).to.eq(3);
+      expect(Object.values(answers)).to.deep.eq([1, 1]);
+      expect(errors).to.have.length(1);
+      expect((error as Error).message).to.eq("No 3 endpoints agreed (1/1 matching answers)");
+    });
+  });
+
+  it("probes every endpoint for its chain and head block", async function () {
+    const pool = await createPool(["ok", "wrong-chain", "down"]);
+
+    const [ok, wrongChain, down] = await pool.probe();
+    expect(ok.lastBlock).to.eq(await ethers.provider.getBlockNumber());
+    expect(ok.lastError).to.eq(undefined);
+    expect(wrongChain.lastError).to.eq("Endpoint is on chain 1");
+    expect(wrongChain.lastBlock).to.eq(undefined);
+    expect(down.failures).to.eq(1);
+  });
+});
@@ -0,0 +1,167 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { DEFAULT_PIPELINE } from "../frontend/web/src/folding/pipeline";
+import { RecordCodecError, decodeRecord, encodeRecord, recordFormat } from "../frontend/web/src/registry/recordCodec";
+import {
+  TASK_SCHEMA_VERSION,
+  TaskRecordInput,
+  TaskSchemaError,
+  encodeTaskRecord,
+  migrateTaskRecord,
+  parseTaskRecord,
+  validateTaskRecord,
+} from "../frontend/web/src/registry/taskSchema";
+
+const OWNER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const HANDLE = "0x" + "ab".repeat(32);
+
+function taskInput(overrides: Partial<TaskRecordInput> = {}): TaskRecordInput {
+  return {
+    proteinName: "Trp-cage",
+    owner: OWNER,
+    timestamp: 1735689600,
+    status: "pending",
+    foldingProgress: 0,
+    pipeline: DEFAULT_PIPELINE,
+    stages: [{ stepsCompleted: 0 }],
+    encryptedStructure: HANDLE,
+    sequence: "NLYIQWLKDGGPSSGRPPPS",
+    ...overrides,
+  };
+}
+
+describe("registry", function () {
+  describe("recordCodec", function () {
+    it("round-trips every kind of value through the binary layout", function () {
+      const value = {
+        proteinName: "Villin — headpiece",
+        owner: OWNER,
+        encryptedStructure: HANDLE,
+        status: "computing",
+        id: "protein-1735689600123-k3x9q",
+        stepsCompleted: 1234567,
+        computationTime: -42,
+        foldingProgress: 0.125,
+        ca: [12.345, -0.5, 1e-9, 2 ** 60],
+        structure: { chains: [{ id: "A", residues: [] }] },
+        custom: [null, true, false, "0xABCD"],
+      };
+      const stored = encodeRecord(value);
+      expect(recordFormat(stored)).to.eq("binary");
+      expect(decodeRecord(stored)).to.deep.eq(value);
+    });
+
+    it("is smaller than JSON and still reads JSON records", function () {
+      const record = taskInput();
+      const binary = encodeRecord(record);
+      const json = encodeRecord(record, "json");
+      expect(binary.length).to.be.below(json.length / 2);
+      expect(recordFormat(json)).to.eq("json");
+      expect(decodeRecord(json)).to.deep.eq(decodeRecord(binary));
+    });
+
+    it("drops undefined fields and turns undefined array items into null, like JSON", function () {
+      const value = { worker: undefined, stages: [undefined, 1] };
+      expect(decodeRecord(encodeRecord(value))).to.deep.eq(JSON.parse(JSON.stringify(value)));
+    });
+
+    it("rejects values it cannot store and malformed records", function () {
+      expect(() => encodeRecord({ energy: Infinity })).to.throw(RecordCodecError, "Cannot encode Infinity");
+      expect(() => encodeRecord({ energy: 1n })).to.throw(RecordCodecError, "Cannot encode a bigint");
+
+      const stored = encodeRecord(taskInput());
+      expect(() => decodeRecord(stored.subarray(0, stored.length - 3))).to.throw(RecordCodecError, "Unexpected end");
+      expect(() => decodeRecord(ethers.concat([stored, "0x00"]))).to.throw(RecordCodecError, "Trailing bytes");
+      expect(() => decodeRecord("0xf802")).to.throw(RecordCodecError, "Unsupported binary layout 2");
+      expect(() => decodeRecord("0xf801ff")).to.throw(RecordCodecError, "Unknown tag 0xff");
+      // An object claiming more fields than there are bytes left
+      expect(() => decodeRecord("0xf8010a7f")).to.throw(RecordCodecError, "Unexpected end");
+      expect(() => decodeRecord(ethers.toUtf8Bytes("{not json"))).to.throw(RecordCodecError, "Not JSON");
+    });
+  });
+
+  describe("taskSchema", function () {
+    it("stamps the current version and round-trips records in both formats", function () {
+      for (const format of ["binary", "json"] as const) {
+        const stored = encodeTaskRecord(taskInput({ inputProof: "0x1234" }), format);
+        expect(recordFormat(stored)).to.eq(format);
+        expect(parseTaskRecord(stored)).to.deep.eq({
+          ...taskInput({ inputProof: "0x1234" }),
+          version: TASK_SCHEMA_VERSION,
+        });
+      }
+    });
+
+    it("migrates unversioned records with string numbers to the current version", function () {
+      const legacy = {
+        proteinName: "Trp-cage",
+        owner: OWNER,
+        timestamp: "1735689600",
+        foldingProgress: "0.5",
+        encryptedStructure: "FHE-legacy",
+        stepsCompleted: "800",
+        computationTime: "12",
+        conformation: "RRUL",
+        energyLevel: -3,
+      };
+      expect(parseTaskRecord(ethers.toUtf8Bytes(JSON.stringify(legacy)))).to.deep.eq({
+        proteinName: "Trp-cage",
+        owner: OWNER,
+        timestamp: 1735689600,
+        status: "pending",
+        foldingProgress: 0.5,
+        encryptedStructure: "FHE-legacy",
+        stepsCompleted: 800,
+        computationTime: 12,
+        conformation: "RRUL",
+        version: TASK_SCHEMA_VERSION,
+        pipeline: DEFAULT_PIPELINE,
+        stages: [{ stepsCompleted: 800, conformation: "RRUL" }],
+      });
+    });
+
+    it("moves v1 progress into a single annealing stage and drops the plaintext energies of v2", function () {
+      const v1 = { ...taskInput(), version: 1, stepsCompleted: 0, pipeline: undefined, stages: undefined };
+      expect(migrateTaskRecord(v1)).to.deep.include({
+        version: 3,
+        pipeline: DEFAULT_PIPELINE,
+        stages: [{ stepsCompleted: 0 }],
+      });
+
+      const v2 = { ...taskInput(), version: 2, energyLevel: -4, stages: [{ stepsCompleted: 10, energy: -4 }] };
+      const v3 = migrateTaskRecord(v2) as Record<string, unknown>;
+      expect(v3).not.to.have.property("energyLevel");
+      expect(v3.stages).to.deep.eq([{ stepsCompleted: 10 }]);
+      expect(validateTaskRecord(v3).version).to.eq(TASK_SCHEMA_VERSION);
+    });
+
+    it("lists every issue of an invalid record", function () {
+      const invalid = taskInput({
+        owner: "nobody",
+        status: "computing",
+        foldingProgress: 2,
+        stages: [{ stepsCompleted: 30000 }],
+        encryptedStructure: "0x1234",
+      });
+      expect(() => encodeTaskRecord(invalid))
+        .to.throw(TaskSchemaError)
+        .with.property("issues")
+        .that.deep.eq([
+          { field: "owner", message: "not an address" },
+          { field: "foldingProgress", message: "not between 0 and 1" },
+          { field: "encryptedStructure", message: "not an encrypted handle" },
+          { field: "stages[0]", message: "steps completed not between 0 and 20000" },
+          { field: "lease", message: "required while computing" },
+        ]);
+    });
+
+    it("refuses records from a newer client and undecodable ones", function () {
+      const newer = encodeRecord({ ...taskInput(), version: TASK_SCHEMA_VERSION + 1 });
+      expect(() => parseTaskRecord(newer)).to.throw(TaskSchemaError, "newer than this client supports");
+      expect(() => parseTaskRecord("0xf801ff"))
+        .to.throw(TaskSchemaError)
+        .with.property("issues")
+        .that.deep.eq([{ field: "record", message: "Unknown tag 0xff" }]);
+    });
+  });
+});
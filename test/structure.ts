@@ -0,0 +1,199 @@
+import { expect } from "chai";
+import { parseFasta } from "../frontend/web/src/structure/fasta";
+import { detectStructureFormat } from "../frontend/web/src/structure/import";
+import { parseMmcif, parsePdb } from "../frontend/web/src/structure/pdb";
+import { StructureParseError } from "../frontend/web/src/structure/types";
+
+interface Atom {
+  residue: string;
+  number: number;
+  insertionCode?: string;
+  altLoc?: string;
+  chain?: string;
+  atom?: string;
+}
+
+// Fixed-column ATOM record as laid out by the PDB format
+function atomLine(
+  { residue, number, insertionCode = " ", altLoc = " ", chain = "A", atom = "CA" }: Atom,
+  serial: number,
+) {
+  const coordinates = [serial, serial / 2, -serial].map((v) => v.toFixed(3).padStart(8)).join("");
+  return (
+    "ATOM  " +
+    String(serial).padStart(5) +
+    "  " +
+    atom.padEnd(3) +
+    altLoc +
+    residue.padStart(3) +
+    " " +
+    chain +
+    String(number).padStart(4) +
+    insertionCode +
+    "   " +
+    coordinates +
+    "  1.00  0.00           C"
+  );
+}
+
+const HEADER = "HEADER    " + "PROTEIN".padEnd(40) + "01-JAN-25   1ABC";
+
+const pdb = (atoms: Atom[]) => [HEADER, ...atoms.map(atomLine), "END"].join("\n");
+
+describe("structure", function () {
+  describe("parsePdb", function () {
+    it("keeps inserted residues that share a residue number", function () {
+      const structure = parsePdb(
+        pdb([
+          { residue: "GLY", number: 52 },
+          { residue: "ALA", number: 52, insertionCode: "A" },
+          { residue: "SER", number: 52, insertionCode: "B" },
+          { residue: "LYS", number: 53 },
+        ]),
+      );
+      const [chain] = structure.chains;
+      expect(chain.sequence).to.eq("GASK");
+      expect(chain.residues!.map((r) => [r.number, r.insertionCode])).to.deep.eq([
+        [52, undefined],
+        [52, "A"],
+        [52, "B"],
+        [53, undefined],
+      ]);
+      expect(chain.residues![1]).not.to.have.property("insertionCode", "");
+      expect(structure.name).to.eq("1ABC");
+    });
+
+    it("keeps the first of several alternate locations", function () {
+      const structure = parsePdb(
+        pdb([
+          { residue: "GLY", number: 1 },
+          { residue: "SER", number: 2, altLoc: "A" },
+          { residue: "SER", number: 2, altLoc: "B" },
+          { residue: "VAL", number: 3, insertionCode: "A", altLoc: "A" },
+          { residue: "VAL", number: 3, insertionCode: "A", altLoc: "B" },
+          { residue: "LYS", number: 4, atom: "N" },
+          { residue: "LYS", number: 4, chain: "B" },
+        ]),
+      );
+      expect(structure.chains.map((chain) => [chain.id, chain.sequence])).to.deep.eq([
+        ["A", "GSV"],
+        ["B", "K"],
+      ]);
+      // Atoms are numbered from 0, so the first SER location is atom 1
+      expect(structure.chains[0].residues![1].ca).to.deep.eq([1, 0.5, -1]);
+    });
+
+    it("reports truncated records, unknown residues and files without C-alpha atoms", function () {
+      const truncated = atomLine({ residue: "GLY", number: 1 }, 1).slice(0, 40);
+      const unknown = atomLine({ residue: "XYZ", number: 2 }, 2);
+      expect(() => parsePdb([truncated, unknown].join("\n")))
+        .to.throw(StructureParseError)
+        .with.property("issues")
+        .that.deep.eq([
+          { line: 1, message: "ATOM record is truncated (40 columns)" },
+          { line: 2, message: "unknown residue 'XYZ' in chain A" },
+        ]);
+      expect(() => parsePdb("HEADER    EMPTY\nEND")).to.throw(StructureParseError, "no C-alpha atoms found");
+    });
+  });
+
+  describe("parseMmcif", function () {
+    const mmcif = (rows: string[]) =>
+      [
+        "data_1ABC",
+        "loop_",
+        "_atom_site.group_PDB",
+        "_atom_site.label_atom_id",
+        "_atom_site.label_comp_id",
+        "_atom_site.auth_asym_id",
+        "_atom_site.auth_seq_id",
+        "_atom_site.pdbx_PDB_ins_code",
+        "_atom_site.Cartn_x",
+        "_atom_site.Cartn_y",
+        "_atom_site.Cartn_z",
+        ...rows,
+        "#",
+      ].join("\n");
+
+    it("reads insertion codes, treating '?' and '.' as none", function () {
+      const structure = parseMmcif(
+        mmcif([
+          "ATOM CA GLY A 52 ? 1.0 2.0 3.0",
+          "ATOM CA ALA A 52 A 2.0 2.0 3.0",
+          "ATOM CA ALA A 52 A 2.5 2.0 3.0",
+          "ATOM CA LYS A 53 . 3.0 2.0 3.0",
+        ]),
+      );
+      const [chain] = structure.chains;
+      expect(chain.sequence).to.eq("GAK");
+      expect(chain.residues!.map((r) => [r.number, r.insertionCode])).to.deep.eq([
+        [52, undefined],
+        [52, "A"],
+        [53, undefined],
+      ]);
+      expect(structure.name).to.eq("1ABC");
+    });
+
+    it("reports rows with the wrong number of values", function () {
+      expect(() => parseMmcif(mmcif(["ATOM CA GLY A 1 ? 1.0 2.0"])))
+        .to.throw(StructureParseError)
+        .with.property("issues")
+        .that.deep.eq([{ line: 12, message: "expected 9 values, found 8" }]);
+    });
+  });
+
+  describe("parseFasta", function () {
+    it("uses the UniProt accession as the chain id", function () {
+      const structure = parseFasta(
+        [
+          ">sp|P69905|HBA_HUMAN Hemoglobin subunit alpha OS=Homo sapiens OX=9606",
+          "MVLSPADKTN",
+          ">tr|A0A024R161|A0A024R161_HUMAN Guanine nucleotide-binding protein",
+          "MSELDQLRQE*",
+        ].join("\n"),
+      );
+      expect(structure.name).to.eq("Hemoglobin subunit alpha");
+      expect(structure.chains).to.deep.eq([
+        { id: "P69905", sequence: "MVLSPADKTN" },
+        { id: "A0A024R161", sequence: "MSELDQLRQE" },
+      ]);
+    });
+
+    it("sanitizes other ids and letters records without one", function () {
+      const records = [
+        ">gi|4504347|ref|NP_000549.1| hemoglobin",
+        "MVLS",
+        ">1ABC:B/chain",
+        "GSHM",
+        ">",
+        "KK",
+        ">***",
+        "AA",
+      ];
+      const structure = parseFasta(records.join("\n"));
+      expect(structure.chains.map((chain) => chain.id)).to.deep.eq([
+        "gi_4504347_ref_NP_000549.1",
+        "1ABC_B_chain",
+        "C",
+        "D",
+      ]);
+      expect(parseFasta("MKT AIL").chains).to.deep.eq([{ id: "A", sequence: "MKTAIL" }]);
+    });
+
+    it("reports invalid residues and empty records", function () {
+      expect(() => parseFasta(">a\nMKZ\n>b\n"))
+        .to.throw(StructureParseError)
+        .with.property("issues")
+        .that.deep.eq([
+          { line: 2, message: "invalid residue 'Z' at column 3" },
+          { line: 3, message: "record has no residues" },
+        ]);
+    });
+  });
+
+  it("detects the format from the file name or the content", function () {
+    expect(detectStructureFormat("", "1abc.cif")).to.eq("mmcif");
+    expect(detectStructureFormat(pdb([{ residue: "GLY", number: 1 }]))).to.eq("pdb");
+    expect(detectStructureFormat(">sp|P69905|HBA_HUMAN\nMVLS")).to.eq("fasta");
+  });
+});
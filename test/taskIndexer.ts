@@ -0,0 +1,179 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { Contract, Filter } from "ethers";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { ethers } from "hardhat";
+import { tmpdir } from "os";
+import { join } from "path";
+import adapterArtifact from "../frontend/web/src/abi/UniversalAdapter.json";
+import { CHECKPOINT_VERSION, MemoryCheckpointStore } from "../frontend/web/src/indexer/checkpoint";
+import { FileCheckpointStore } from "../frontend/web/src/indexer/fileCheckpointStore";
+import { IndexerEvent, TaskIndexer, findDeploymentBlock, isRangeError } from "../frontend/web/src/indexer/taskIndexer";
+
+type LogRange = [number, number];
+
+// The hardhat provider with getLogs intercepted; `reject` may throw instead of answering a range
+function recordingProvider(ranges: LogRange[], reject?: (range: LogRange) => Error | undefined) {
+  const provider = Object.create(ethers.provider);
+  provider.getLogs = async (filter: Filter) => {
+    const range: LogRange = [Number(filter.fromBlock), Number(filter.toBlock)];
+    const error = reject?.(range);
+    if (error) throw error;
+    ranges.push(range);
+    return ethers.provider.getLogs(filter);
+  };
+  return provider as typeof ethers.provider;
+}
+
+const utf8 = (text: string) => ethers.hexlify(ethers.toUtf8Bytes(text));
+
+describe("taskIndexer", function () {
+  let deployer: HardhatEthersSigner;
+  let adapter: Contract;
+  let adapterAddress: string;
+  let deployBlock: number;
+  let checkpointId: string;
+
+  async function setData(key: string, value: string) {
+    await (await adapter.setData(key, ethers.toUtf8Bytes(value))).wait();
+  }
+
+  before(async function () {
+    [deployer] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    const factory = new ethers.ContractFactory(adapterArtifact.abi, adapterArtifact.bytecode, deployer);
+    adapter = (await factory.deploy()) as Contract;
+    deployBlock = (await adapter.deploymentTransaction()!.wait())!.blockNumber;
+    adapterAddress = await adapter.getAddress();
+    const { chainId } = await ethers.provider.getNetwork();
+    checkpointId = `${chainId}:${adapterAddress.toLowerCase()}`;
+  });
+
+  it("locates the adapter deployment block", async function () {
+    await mine(3);
+    expect(await findDeploymentBlock(ethers.provider, adapterAddress)).to.eq(deployBlock);
+    await expect(findDeploymentBlock(ethers.provider, deployer.address)).to.be.rejectedWith("No contract deployed");
+  });
+
+  it("keeps the latest value per key and checkpoints only confirmed blocks", async function () {
+    const store = new MemoryCheckpointStore();
+    const indexer = new TaskIndexer({ provider: ethers.provider, address: adapterAddress, store, confirmations: 2 });
+    await setData("task_a", "1");
+    await setData("task_b", "1");
+    await setData("task_a", "2");
+
+    expect(await indexer.sync()).to.eq(true);
+    const head = await ethers.provider.getBlockNumber();
+    expect(indexer.syncedBlock).to.eq(head);
+    expect(indexer.getKeys().sort()).to.deep.eq(["task_a", "task_b"]);
+    expect(indexer.getEntry("task_a")).to.include({ value: utf8("2"), sender: deployer.address, blockNumber: head });
+
+    // The last two blocks are the unconfirmed tail and stay out of the checkpoint
+    const checkpoint = (await store.load(checkpointId))!;
+    expect([checkpoint.startBlock, checkpoint.block]).to.deep.eq([deployBlock, head - 2]);
+    expect(checkpoint.blockHash).to.eq((await ethers.provider.getBlock(head - 2))!.hash);
+    expect(Object.keys(checkpoint.entries)).to.deep.eq(["task_a"]);
+    expect(checkpoint.entries.task_a.value).to.eq(utf8("1"));
+
+    await mine(2);
+    expect(await indexer.sync()).to.eq(true);
+    expect((await store.load(checkpointId))!.entries.task_a.value).to.eq(utf8("2"));
+    expect(await indexer.sync()).to.eq(false);
+  });
+
+  it("resumes from the checkpoint saved by an earlier run", async function () {
+    const directory = await mkdtemp(join(tmpdir(), "task-indexer-"));
+    try {
+      const path = join(directory, "checkpoints.json");
+      await setData("task_a", "1");
+      const first = new TaskIndexer({
+        provider: ethers.provider,
+        address: adapterAddress,
+        store: new FileCheckpointStore(path),
+        confirmations: 0,
+      });
+      await first.sync();
+      await setData("task_b", "1");
+      await mine(2);
+
+      const ranges: LogRange[] = [];
+      const second = new TaskIndexer({
+        provider: recordingProvider(ranges),
+        address: adapterAddress,
+        store: new FileCheckpointStore(path),
+        confirmations: 0,
+      });
+      expect(await second.sync()).to.eq(true);
+      expect(ranges).to.deep.eq([[first.syncedBlock + 1, await ethers.provider.getBlockNumber()]]);
+      expect(second.getKeys()).to.deep.eq(["task_a", "task_b"]);
+
+      // Checkpoints of another version are ignored rather than misread
+      const stored = { [checkpointId]: { version: CHECKPOINT_VERSION + 1 } };
+      await writeFile(path, JSON.stringify(stored));
+      expect(await new FileCheckpointStore(path).load(checkpointId)).to.eq(null);
+      expect(await new FileCheckpointStore(join(directory, "missing.json")).load(checkpointId)).to.eq(null);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("shrinks the block range when the RPC rejects it", async function () {
+    for (const key of ["task_a", "task_b", "task_c", "task_d", "task_e"]) await setData(key, "1");
+
+    const ranges: LogRange[] = [];
+    const tooWide = ([from, to]: LogRange) => (to - from >= 2 ? new Error("block range is too wide") : undefined);
+    const indexer = new TaskIndexer({
+      provider: recordingProvider(ranges, tooWide),
+      address: adapterAddress,
+      fromBlock: deployBlock,
+      chunkSize: 8,
+      confirmations: 0,
+    });
+    await indexer.sync();
+    expect(indexer.getKeys()).to.have.length(5);
+    expect(ranges.every(([from, to]) => to - from < 2)).to.eq(true);
+    expect(ranges[0][0]).to.eq(deployBlock);
+
+    const failing = new TaskIndexer({
+      provider: recordingProvider([], () => new Error("connection refused")),
+      address: adapterAddress,
+      fromBlock: deployBlock,
+      confirmations: 0,
+    });
+    await expect(failing.sync()).to.be.rejectedWith("connection refused");
+  });
+
+  it("rebuilds the index when the checkpoint block is no longer canonical", async function () {
+    const store = new MemoryCheckpointStore();
+    await setData("task_a", "1");
+    await mine(2);
+    await new TaskIndexer({ provider: ethers.provider, address: adapterAddress, store, confirmations: 1 }).sync();
+
+    // A checkpoint taken on a fork that was since replaced, holding a write the canonical chain never saw
+    const checkpoint = (await store.load(checkpointId))!;
+    const forked = { ...checkpoint.entries.task_a, value: utf8("forked") };
+    await store.save(checkpointId, {
+      ...checkpoint,
+      blockHash: ethers.ZeroHash,
+      entries: { ...checkpoint.entries, task_gone: forked },
+    });
+
+    const indexer = new TaskIndexer({ provider: ethers.provider, address: adapterAddress, store, confirmations: 1 });
+    const events: IndexerEvent[] = [];
+    indexer.on((event) => events.push(event));
+    expect(await indexer.sync()).to.eq(true);
+    expect(events).to.deep.eq([{ type: "reorg", block: checkpoint.block }, { type: "change" }]);
+    expect(indexer.getKeys()).to.deep.eq(["task_a"]);
+    expect((await store.load(checkpointId))!.blockHash).to.eq(checkpoint.blockHash);
+  });
+
+  it("recognizes the range limits of different RPC providers", function () {
+    expect(isRangeError(new Error("block range is too wide"))).to.eq(true);
+    expect(isRangeError({ error: { message: "query returned more than 10000 results" } })).to.eq(true);
+    expect(isRangeError("Log response size exceeded")).to.eq(true);
+    expect(isRangeError(new Error("nonce too low"))).to.eq(false);
+  });
+});
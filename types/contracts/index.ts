@@ -3,3 +3,5 @@
 /* eslint-disable */
 export type { AudioGuideFHE } from "./AudioGuideFHE";
 export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as proteinFoldingFheSol from "./proteinFoldingFHE.sol";
+export type { proteinFoldingFheSol };
@@ -0,0 +1,1605 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface ProteinFoldingFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MIN_SUBMISSIONS_FOR_TOTAL"
+      | "addProvider"
+      | "batchWinners"
+      | "batches"
+      | "canDecryptBatchTotal"
+      | "canDecryptSubmission"
+      | "canDecryptTaskEnergy"
+      | "cancelBatchDecryption"
+      | "closeBatch"
+      | "cooldownSeconds"
+      | "createProject"
+      | "decryptionCancelled"
+      | "decryptionContexts"
+      | "decryptionPending"
+      | "grantBatchTotalAccess"
+      | "grantSubmissionAccess"
+      | "isProvider"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "myCallback"
+      | "openBatch"
+      | "owner"
+      | "paused"
+      | "projectCount"
+      | "projects"
+      | "protocolId"
+      | "removeProvider"
+      | "requestBatchScoreDecryption"
+      | "requestBatchScoreDecryptions"
+      | "setCooldownSeconds"
+      | "setPaused"
+      | "setProjectManager"
+      | "storeTaskEnergy"
+      | "submissions"
+      | "submitFoldingData"
+      | "totalSubmissions"
+      | "transferOwnership"
+      | "winnerCallback"
+      | "winnerDecryptionContexts"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BatchClosed"
+      | "BatchOpened"
+      | "BatchTotalAccessGranted"
+      | "BatchWinnerRevealed"
+      | "CooldownSet"
+      | "DecryptionCancelled"
+      | "DecryptionCompleted"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "FoldingDataSubmitted"
+      | "OwnershipTransferred"
+      | "PauseToggled"
+      | "ProjectCreated"
+      | "ProjectManagerChanged"
+      | "ProviderAdded"
+      | "ProviderRemoved"
+      | "SubmissionAccessGranted"
+      | "TaskEnergyStored"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MIN_SUBMISSIONS_FOR_TOTAL",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchWinners",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batches",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "canDecryptBatchTotal",
+    values: [BigNumberish, BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "canDecryptSubmission",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "canDecryptTaskEnergy",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelBatchDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createProject",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionCancelled",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionPending",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantBatchTotalAccess",
+    values: [BigNumberish, BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantSubmissionAccess",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "projectCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "projects",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestBatchScoreDecryption",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestBatchScoreDecryptions",
+    values: [BigNumberish[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldownSeconds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "setPaused", values: [boolean]): string;
+  encodeFunctionData(
+    functionFragment: "setProjectManager",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "storeTaskEnergy",
+    values: [string, AddressLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submissions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitFoldingData",
+    values: [BigNumberish, BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalSubmissions",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "winnerCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "winnerDecryptionContexts",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MIN_SUBMISSIONS_FOR_TOTAL",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchWinners",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batches", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "canDecryptBatchTotal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "canDecryptSubmission",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "canDecryptTaskEnergy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelBatchDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createProject",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionCancelled",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionPending",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "grantBatchTotalAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "grantSubmissionAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isProvider", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "projectCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "projects", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBatchScoreDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBatchScoreDecryptions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setPaused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setProjectManager",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "storeTaskEnergy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submissions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitFoldingData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalSubmissions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "winnerCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "winnerDecryptionContexts",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [
+    projectId: BigNumberish,
+    batchId: BigNumberish,
+    totalScore: BytesLike,
+    submissionCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    projectId: bigint,
+    batchId: bigint,
+    totalScore: string,
+    submissionCount: bigint
+  ];
+  export interface OutputObject {
+    projectId: bigint;
+    batchId: bigint;
+    totalScore: string;
+    submissionCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [projectId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [projectId: bigint, batchId: bigint];
+  export interface OutputObject {
+    projectId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchTotalAccessGrantedEvent {
+  export type InputTuple = [
+    projectId: BigNumberish,
+    batchId: BigNumberish,
+    grantee: AddressLike
+  ];
+  export type OutputTuple = [
+    projectId: bigint,
+    batchId: bigint,
+    grantee: string
+  ];
+  export interface OutputObject {
+    projectId: bigint;
+    batchId: bigint;
+    grantee: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchWinnerRevealedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    projectId: BigNumberish,
+    batchId: BigNumberish,
+    winner: AddressLike,
+    bestScore: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    projectId: bigint,
+    batchId: bigint,
+    winner: string,
+    bestScore: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    projectId: bigint;
+    batchId: bigint;
+    winner: string;
+    bestScore: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSetEvent {
+  export type InputTuple = [
+    oldCooldownSeconds: BigNumberish,
+    newCooldownSeconds: BigNumberish
+  ];
+  export type OutputTuple = [
+    oldCooldownSeconds: bigint,
+    newCooldownSeconds: bigint
+  ];
+  export interface OutputObject {
+    oldCooldownSeconds: bigint;
+    newCooldownSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCancelledEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    projectId: BigNumberish,
+    batchId: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    projectId: bigint,
+    batchId: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    projectId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    projectId: BigNumberish,
+    batchId: BigNumberish,
+    decryptedScore: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    projectId: bigint,
+    batchId: bigint,
+    decryptedScore: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    projectId: bigint;
+    batchId: bigint;
+    decryptedScore: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    projectId: BigNumberish,
+    batchId: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    projectId: bigint,
+    batchId: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    projectId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FoldingDataSubmittedEvent {
+  export type InputTuple = [
+    provider: AddressLike,
+    projectId: BigNumberish,
+    batchId: BigNumberish,
+    encryptedScore: BytesLike,
+    submissionId: BigNumberish
+  ];
+  export type OutputTuple = [
+    provider: string,
+    projectId: bigint,
+    batchId: bigint,
+    encryptedScore: string,
+    submissionId: bigint
+  ];
+  export interface OutputObject {
+    provider: string;
+    projectId: bigint;
+    batchId: bigint;
+    encryptedScore: string;
+    submissionId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PauseToggledEvent {
+  export type InputTuple = [paused: boolean];
+  export type OutputTuple = [paused: boolean];
+  export interface OutputObject {
+    paused: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProjectCreatedEvent {
+  export type InputTuple = [
+    projectId: BigNumberish,
+    manager: AddressLike,
+    name: string
+  ];
+  export type OutputTuple = [projectId: bigint, manager: string, name: string];
+  export interface OutputObject {
+    projectId: bigint;
+    manager: string;
+    name: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProjectManagerChangedEvent {
+  export type InputTuple = [
+    projectId: BigNumberish,
+    previousManager: AddressLike,
+    newManager: AddressLike
+  ];
+  export type OutputTuple = [
+    projectId: bigint,
+    previousManager: string,
+    newManager: string
+  ];
+  export interface OutputObject {
+    projectId: bigint;
+    previousManager: string;
+    newManager: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubmissionAccessGrantedEvent {
+  export type InputTuple = [
+    submissionId: BigNumberish,
+    provider: AddressLike,
+    grantee: AddressLike
+  ];
+  export type OutputTuple = [
+    submissionId: bigint,
+    provider: string,
+    grantee: string
+  ];
+  export interface OutputObject {
+    submissionId: bigint;
+    provider: string;
+    grantee: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TaskEnergyStoredEvent {
+  export type InputTuple = [
+    taskId: string,
+    taskOwner: AddressLike,
+    sender: AddressLike,
+    energy: BytesLike
+  ];
+  export type OutputTuple = [
+    taskId: string,
+    taskOwner: string,
+    sender: string,
+    energy: string
+  ];
+  export interface OutputObject {
+    taskId: string;
+    taskOwner: string;
+    sender: string;
+    energy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ProteinFoldingFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): ProteinFoldingFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: ProteinFoldingFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MIN_SUBMISSIONS_FOR_TOTAL: TypedContractMethod<[], [bigint], "view">;
+
+  addProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  batchWinners: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, boolean, bigint, string] & {
+        bestScore: string;
+        bestProvider: string;
+        revealed: boolean;
+        decryptedBestScore: bigint;
+        winner: string;
+      }
+    ],
+    "view"
+  >;
+
+  batches: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [bigint, boolean, string, bigint] & {
+        id: bigint;
+        active: boolean;
+        totalScore: string;
+        submissionCount: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  canDecryptBatchTotal: TypedContractMethod<
+    [projectId: BigNumberish, batchId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  canDecryptSubmission: TypedContractMethod<
+    [submissionId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  canDecryptTaskEnergy: TypedContractMethod<
+    [energy: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  cancelBatchDecryption: TypedContractMethod<
+    [requestId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  closeBatch: TypedContractMethod<
+    [projectId: BigNumberish, batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  createProject: TypedContractMethod<
+    [name: string, manager: AddressLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  decryptionCancelled: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, boolean] & {
+        projectId: bigint;
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  decryptionPending: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  grantBatchTotalAccess: TypedContractMethod<
+    [projectId: BigNumberish, batchId: BigNumberish, grantee: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  grantSubmissionAccess: TypedContractMethod<
+    [submissionId: BigNumberish, grantee: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  isProvider: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  openBatch: TypedContractMethod<
+    [projectId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  projectCount: TypedContractMethod<[], [bigint], "view">;
+
+  projects: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, bigint] & {
+        id: bigint;
+        name: string;
+        manager: string;
+        currentBatchId: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  removeProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestBatchScoreDecryption: TypedContractMethod<
+    [projectId: BigNumberish, batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestBatchScoreDecryptions: TypedContractMethod<
+    [projectIds: BigNumberish[], batchIds: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  setCooldownSeconds: TypedContractMethod<
+    [_cooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setPaused: TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+
+  setProjectManager: TypedContractMethod<
+    [projectId: BigNumberish, newManager: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  storeTaskEnergy: TypedContractMethod<
+    [
+      taskId: string,
+      taskOwner: AddressLike,
+      encryptedEnergyInput: BytesLike,
+      inputProof: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  submissions: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, string, string] & {
+        id: bigint;
+        projectId: bigint;
+        batchId: bigint;
+        provider: string;
+        score: string;
+      }
+    ],
+    "view"
+  >;
+
+  submitFoldingData: TypedContractMethod<
+    [
+      projectId: BigNumberish,
+      batchId: BigNumberish,
+      encryptedScoreInput: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  totalSubmissions: TypedContractMethod<[], [bigint], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  winnerCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  winnerDecryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, boolean] & {
+        projectId: bigint;
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MIN_SUBMISSIONS_FOR_TOTAL"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batchWinners"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, boolean, bigint, string] & {
+        bestScore: string;
+        bestProvider: string;
+        revealed: boolean;
+        decryptedBestScore: bigint;
+        winner: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "batches"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [bigint, boolean, string, bigint] & {
+        id: bigint;
+        active: boolean;
+        totalScore: string;
+        submissionCount: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "canDecryptBatchTotal"
+  ): TypedContractMethod<
+    [projectId: BigNumberish, batchId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "canDecryptSubmission"
+  ): TypedContractMethod<
+    [submissionId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "canDecryptTaskEnergy"
+  ): TypedContractMethod<
+    [energy: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "cancelBatchDecryption"
+  ): TypedContractMethod<[requestId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<
+    [projectId: BigNumberish, batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createProject"
+  ): TypedContractMethod<
+    [name: string, manager: AddressLike],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptionCancelled"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, boolean] & {
+        projectId: bigint;
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "decryptionPending"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "grantBatchTotalAccess"
+  ): TypedContractMethod<
+    [projectId: BigNumberish, batchId: BigNumberish, grantee: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "grantSubmissionAccess"
+  ): TypedContractMethod<
+    [submissionId: BigNumberish, grantee: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "isProvider"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<[projectId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "projectCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "projects"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, bigint] & {
+        id: bigint;
+        name: string;
+        manager: string;
+        currentBatchId: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestBatchScoreDecryption"
+  ): TypedContractMethod<
+    [projectId: BigNumberish, batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestBatchScoreDecryptions"
+  ): TypedContractMethod<
+    [projectIds: BigNumberish[], batchIds: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setCooldownSeconds"
+  ): TypedContractMethod<
+    [_cooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPaused"
+  ): TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setProjectManager"
+  ): TypedContractMethod<
+    [projectId: BigNumberish, newManager: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "storeTaskEnergy"
+  ): TypedContractMethod<
+    [
+      taskId: string,
+      taskOwner: AddressLike,
+      encryptedEnergyInput: BytesLike,
+      inputProof: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submissions"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, string, string] & {
+        id: bigint;
+        projectId: bigint;
+        batchId: bigint;
+        provider: string;
+        score: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "submitFoldingData"
+  ): TypedContractMethod<
+    [
+      projectId: BigNumberish,
+      batchId: BigNumberish,
+      encryptedScoreInput: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "totalSubmissions"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "winnerCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "winnerDecryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, boolean] & {
+        projectId: bigint;
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchTotalAccessGranted"
+  ): TypedContractEvent<
+    BatchTotalAccessGrantedEvent.InputTuple,
+    BatchTotalAccessGrantedEvent.OutputTuple,
+    BatchTotalAccessGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchWinnerRevealed"
+  ): TypedContractEvent<
+    BatchWinnerRevealedEvent.InputTuple,
+    BatchWinnerRevealedEvent.OutputTuple,
+    BatchWinnerRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSet"
+  ): TypedContractEvent<
+    CooldownSetEvent.InputTuple,
+    CooldownSetEvent.OutputTuple,
+    CooldownSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCancelled"
+  ): TypedContractEvent<
+    DecryptionCancelledEvent.InputTuple,
+    DecryptionCancelledEvent.OutputTuple,
+    DecryptionCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FoldingDataSubmitted"
+  ): TypedContractEvent<
+    FoldingDataSubmittedEvent.InputTuple,
+    FoldingDataSubmittedEvent.OutputTuple,
+    FoldingDataSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PauseToggled"
+  ): TypedContractEvent<
+    PauseToggledEvent.InputTuple,
+    PauseToggledEvent.OutputTuple,
+    PauseToggledEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProjectCreated"
+  ): TypedContractEvent<
+    ProjectCreatedEvent.InputTuple,
+    ProjectCreatedEvent.OutputTuple,
+    ProjectCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProjectManagerChanged"
+  ): TypedContractEvent<
+    ProjectManagerChangedEvent.InputTuple,
+    ProjectManagerChangedEvent.OutputTuple,
+    ProjectManagerChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubmissionAccessGranted"
+  ): TypedContractEvent<
+    SubmissionAccessGrantedEvent.InputTuple,
+    SubmissionAccessGrantedEvent.OutputTuple,
+    SubmissionAccessGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TaskEnergyStored"
+  ): TypedContractEvent<
+    TaskEnergyStoredEvent.InputTuple,
+    TaskEnergyStoredEvent.OutputTuple,
+    TaskEnergyStoredEvent.OutputObject
+  >;
+
+  filters: {
+    "BatchClosed(uint256,uint256,bytes32,uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256,uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "BatchTotalAccessGranted(uint256,uint256,address)": TypedContractEvent<
+      BatchTotalAccessGrantedEvent.InputTuple,
+      BatchTotalAccessGrantedEvent.OutputTuple,
+      BatchTotalAccessGrantedEvent.OutputObject
+    >;
+    BatchTotalAccessGranted: TypedContractEvent<
+      BatchTotalAccessGrantedEvent.InputTuple,
+      BatchTotalAccessGrantedEvent.OutputTuple,
+      BatchTotalAccessGrantedEvent.OutputObject
+    >;
+
+    "BatchWinnerRevealed(uint256,uint256,uint256,address,uint256)": TypedContractEvent<
+      BatchWinnerRevealedEvent.InputTuple,
+      BatchWinnerRevealedEvent.OutputTuple,
+      BatchWinnerRevealedEvent.OutputObject
+    >;
+    BatchWinnerRevealed: TypedContractEvent<
+      BatchWinnerRevealedEvent.InputTuple,
+      BatchWinnerRevealedEvent.OutputTuple,
+      BatchWinnerRevealedEvent.OutputObject
+    >;
+
+    "CooldownSet(uint256,uint256)": TypedContractEvent<
+      CooldownSetEvent.InputTuple,
+      CooldownSetEvent.OutputTuple,
+      CooldownSetEvent.OutputObject
+    >;
+    CooldownSet: TypedContractEvent<
+      CooldownSetEvent.InputTuple,
+      CooldownSetEvent.OutputTuple,
+      CooldownSetEvent.OutputObject
+    >;
+
+    "DecryptionCancelled(uint256,uint256,uint256)": TypedContractEvent<
+      DecryptionCancelledEvent.InputTuple,
+      DecryptionCancelledEvent.OutputTuple,
+      DecryptionCancelledEvent.OutputObject
+    >;
+    DecryptionCancelled: TypedContractEvent<
+      DecryptionCancelledEvent.InputTuple,
+      DecryptionCancelledEvent.OutputTuple,
+      DecryptionCancelledEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint256,uint256)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256,uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "FoldingDataSubmitted(address,uint256,uint256,bytes32,uint256)": TypedContractEvent<
+      FoldingDataSubmittedEvent.InputTuple,
+      FoldingDataSubmittedEvent.OutputTuple,
+      FoldingDataSubmittedEvent.OutputObject
+    >;
+    FoldingDataSubmitted: TypedContractEvent<
+      FoldingDataSubmittedEvent.InputTuple,
+      FoldingDataSubmittedEvent.OutputTuple,
+      FoldingDataSubmittedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PauseToggled(bool)": TypedContractEvent<
+      PauseToggledEvent.InputTuple,
+      PauseToggledEvent.OutputTuple,
+      PauseToggledEvent.OutputObject
+    >;
+    PauseToggled: TypedContractEvent<
+      PauseToggledEvent.InputTuple,
+      PauseToggledEvent.OutputTuple,
+      PauseToggledEvent.OutputObject
+    >;
+
+    "ProjectCreated(uint256,address,string)": TypedContractEvent<
+      ProjectCreatedEvent.InputTuple,
+      ProjectCreatedEvent.OutputTuple,
+      ProjectCreatedEvent.OutputObject
+    >;
+    ProjectCreated: TypedContractEvent<
+      ProjectCreatedEvent.InputTuple,
+      ProjectCreatedEvent.OutputTuple,
+      ProjectCreatedEvent.OutputObject
+    >;
+
+    "ProjectManagerChanged(uint256,address,address)": TypedContractEvent<
+      ProjectManagerChangedEvent.InputTuple,
+      ProjectManagerChangedEvent.OutputTuple,
+      ProjectManagerChangedEvent.OutputObject
+    >;
+    ProjectManagerChanged: TypedContractEvent<
+      ProjectManagerChangedEvent.InputTuple,
+      ProjectManagerChangedEvent.OutputTuple,
+      ProjectManagerChangedEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+
+    "SubmissionAccessGranted(uint256,address,address)": TypedContractEvent<
+      SubmissionAccessGrantedEvent.InputTuple,
+      SubmissionAccessGrantedEvent.OutputTuple,
+      SubmissionAccessGrantedEvent.OutputObject
+    >;
+    SubmissionAccessGranted: TypedContractEvent<
+      SubmissionAccessGrantedEvent.InputTuple,
+      SubmissionAccessGrantedEvent.OutputTuple,
+      SubmissionAccessGrantedEvent.OutputObject
+    >;
+
+    "TaskEnergyStored(string,address,address,bytes32)": TypedContractEvent<
+      TaskEnergyStoredEvent.InputTuple,
+      TaskEnergyStoredEvent.OutputTuple,
+      TaskEnergyStoredEvent.OutputObject
+    >;
+    TaskEnergyStored: TypedContractEvent<
+      TaskEnergyStoredEvent.InputTuple,
+      TaskEnergyStoredEvent.OutputTuple,
+      TaskEnergyStoredEvent.OutputObject
+    >;
+  };
+}
@@ -3,3 +3,4 @@
 /* eslint-disable */
 export { AudioGuideFHE__factory } from "./AudioGuideFHE__factory";
 export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export * as proteinFoldingFheSol from "./proteinFoldingFHE.sol";
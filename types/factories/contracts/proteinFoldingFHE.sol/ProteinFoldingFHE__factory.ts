@@ -0,0 +1,1446 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  ProteinFoldingFHE,
+  ProteinFoldingFHEInterface,
+} from "../../../contracts/proteinFoldingFHE.sol/ProteinFoldingFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "BatchAlreadyActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchStillActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DecryptionNotPending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DecryptionPending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatchId",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidManager",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidTaskOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoSubmissions",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitialized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProjectManager",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotSubmitter",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Paused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TooFewSubmissions",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownProject",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownSubmission",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "totalScore",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "submissionCount",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "grantee",
+        type: "address",
+      },
+    ],
+    name: "BatchTotalAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bestScore",
+        type: "uint256",
+      },
+    ],
+    name: "BatchWinnerRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldownSeconds",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "decryptedScore",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "encryptedScore",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "submissionId",
+        type: "uint256",
+      },
+    ],
+    name: "FoldingDataSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "paused",
+        type: "bool",
+      },
+    ],
+    name: "PauseToggled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "manager",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "ProjectCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousManager",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newManager",
+        type: "address",
+      },
+    ],
+    name: "ProjectManagerChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "submissionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "grantee",
+        type: "address",
+      },
+    ],
+    name: "SubmissionAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "taskId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "taskOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "energy",
+        type: "bytes32",
+      },
+    ],
+    name: "TaskEnergyStored",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MIN_SUBMISSIONS_FOR_TOTAL",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchWinners",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "bestScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "eaddress",
+        name: "bestProvider",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "revealed",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "decryptedBestScore",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batches",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+      {
+        internalType: "euint32",
+        name: "totalScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "submissionCount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "canDecryptBatchTotal",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "submissionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "canDecryptSubmission",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint32",
+        name: "energy",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "canDecryptTaskEnergy",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelBatchDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "manager",
+        type: "address",
+      },
+    ],
+    name: "createProject",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionCancelled",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionPending",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "grantee",
+        type: "address",
+      },
+    ],
+    name: "grantBatchTotalAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "submissionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "grantee",
+        type: "address",
+      },
+    ],
+    name: "grantSubmissionAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+    ],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "projectCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "projects",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "manager",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "currentBatchId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestBatchScoreDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "projectIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "batchIds",
+        type: "uint256[]",
+      },
+    ],
+    name: "requestBatchScoreDecryptions",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_cooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_paused",
+        type: "bool",
+      },
+    ],
+    name: "setPaused",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "newManager",
+        type: "address",
+      },
+    ],
+    name: "setProjectManager",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "taskId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "taskOwner",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedEnergyInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "storeTaskEnergy",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "energy",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "submissions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "euint32",
+        name: "score",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedScoreInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitFoldingData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSubmissions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "winnerCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "winnerDecryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052346200017f575f60606200001762000183565b82815282602082015282604082015201526200003262000183565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f55335f52600160205260405f20600160ff19825416179055603c600355604051612a9c9081620001b88239f35b5f80fd5b60405190608082016001600160401b03811183821017620001a357604052565b634e487b7160e01b5f52604160045260245ffdfe60808060405260049081361015610014575f80fd5b5f3560e01c908163107046bd14611a3f57508063124bd04b14611a2857806316c38b3c146119bc57806324b4cee0146118a157806329bae240146117d45780632b93e5ef146116e057806336fbad26146116c357806346e2577a1461164b57806347ceb2821461161d578063534aedaa1461151457806356aa03f7146114af5780635a94a079146114775780635c975abb146114555780635d47964b146113ff57806367aaa22a146113df578063690e83cb146113ab5780636b074a071461136e5780637b5b11571461130e57806385167fa6146112f35780638a355a571461127f5780638ac92f71146111ed5780638da5cb5b146111c657806392f5561a1461115d57806398be7be7146110cb578063a255c5c514610f7d578063a395401614610f60578063a42d994414610ee0578063a436547614610ea9578063ac9f61c714610b06578063ad73349e14610aa8578063b65e894114610a56578063b8221bc414610a39578063bbd5e9cf1461097c578063c5e98e161461057e578063c65579ad146102de578063caa2421a146102b7578063da1f12ab1461029b578063e219cdc3146102495763f2fde38b146101cb575f80fd5b34610245576020366003190112610245576101e4611d2b565b5f54916001600160a01b038084169290913384900361023657501680926001600160601b0360a01b16175f557f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a3005b6040516330cd747160e01b8152fd5b5f80fd5b503461024557602036600319011261024557355f908152600f60209081526040918290208054600182015460028301546003909301548551928352938201529283015260ff1615156060820152608090f35b34610245575f3660031901126102455760206040516127118152f35b5034610245576040366003190112610245576102dc906102d5611d41565b9035612083565b005b5034610245576040366003190112610245576001600160401b0381358181116102455761030e9036908401611d57565b9092610318611d41565b5f546001600160a01b0316330361056e576001600160a01b0381161561055e57610343600654612075565b93846006556040519261035584611b73565b858452610363368689611c52565b9160208501928352604085019160018060a01b038516835260016060870152875f52600760205260405f2093865185555190815192831161054b57506103ac6001850154611b3b565b601f8111610503575b509160209893918895938a90601f831160011461046c5792826060937f9d9ec461f162f3f4fdb9f6d189bfe13c59e48d8acd23a4c3bfcf7cc0fe4e84ed999a936003965f92610461575b50505f1982871b1c1916600191821b17908601555b516002850180546001600160a01b0319166001600160a01b03928316179055910151919092015560405188815291169490918291610456918984019190611f38565b0390a3604051908152f35b015190505f806103ff565b97929190600185015f528b5f20985f5b601f19841681106104e95750827f9d9ec461f162f3f4fdb9f6d189bfe13c59e48d8acd23a4c3bfcf7cc0fe4e84ed999a6060959360019360039896601f198116106104d2575b505050811b016001860155610414565b01515f1983891b60f8161c191690555f80806104c2565b828201518b556001909a01998c9950918d01918d0161047c565b600185015f5260205f20601f840160051c81019160208510610541575b601f0160051c01905b81811061053657506103b5565b5f8155600101610529565b9091508190610520565b604190634e487b7160e01b5f525260245ffd5b50604051631a7387bd60e11b8152fd5b506040516330cd747160e01b8152fd5b5034610245576080366003190112610245578035602435916064356001600160401b0390818111610245576105b69036908401611d57565b9091335f5260019260209284845260ff60405f2054161561096b5760ff6002541661095a57335f528584526105f260405f205460035490611f07565b421061094957865f526007845260405f20541561093857865f5260078452600360405f2001548803610927576106359161062d913691611c52565b6044356127b4565b93841561091857855f526008835260405f20875f52835260405f2060ff85820154161561090857600281019081549182156108f8575b60018060a01b03925f80516020612a5083398151915291878a606487865416945f604051968794859363022f65e760e31b85528d85015260248401528160448401525af19182156108ac575f926108c7575b5090806106cc92553090612994565b885f52600e865260405f208a5f528652600360405f209201918254155f146108075761071991508881556106ff33612941565b888201555b61070f308254612994565b8730910154612994565b6107238154612075565b9055335f528184524260405f205561073b3087612994565b6107453387612994565b610750600954612075565b94856009556040519360a0850190858210908211176107f45760405285845284840191888352604085018a8152606086019233845260808701948a8652895f52600a895260405f20975188555190870155516002860155600385019151166001600160601b0360a01b825416179055519101556040519283528201527f658c332803b20edf8c30d4cfa0cec1fb80598a221956b4cbf339be484666363d60403392a4005b604184634e487b7160e01b5f525260245ffd5b868482549384156108b7575b54169260648b5f60405196879485936385362ee760e01b85528c85015260248401528160448401525af180156108ac575f9061087d575b610719925061085b82548b836129fd565b825561087661086933612941565b918a8401928354916129fd565b9055610704565b508682813d83116108a5575b6108938183611beb565b8101031261024557610719915161084a565b503d610889565b6040513d5f823e3d90fd5b93506108c16128c0565b93610813565b91508782813d83116108f1575b6108de8183611beb565b81010312610245576106cc9151916106bd565b503d6108d4565b91506109026128c0565b9161066b565b50604051635ae7a89560e11b8152fd5b6040516321c4e35760e21b8152fd5b604051633b98df6560e01b81528690fd5b604051636631410f60e01b81528690fd5b60405163aa9a98df60e01b81528690fd5b6040516313d0ff5960e31b81528690fd5b604051631a40715960e11b81528690fd5b5034610245576109ef61098e36611d9a565b5f92835260086020908152604080852093855292815292829020600201545f80516020612a708339815191525483516382027b6d60e01b81529687019182526001600160a01b03928316828601529395948694869493169284928392910190565b03915afa9081156108ac575f91610a0c575b506040519015158152f35b610a2c9150823d8411610a32575b610a248183611beb565b8101906128a8565b5f610a01565b503d610a1a565b34610245575f366003190112610245576020600354604051908152f35b503461024557602036600319011261024557355f908152600b60209081526040918290208054600182015460028301546003909301548551928352938201529283015260ff1615156060820152608090f35b5034610245576020366003190112610245578060a091355f52600a60205260405f2090815491600181015491600282015490600180871b03600384015416920154926040519485526020850152604084015260608301526080820152f35b503461024557610b1536611d84565b91610b1f826123c1565b60ff60025416610e9a57815f52602060078152600360405f200180548503610e8957835f526008825260405f20855f52825260405f2060019160018201805460ff811615610e785760ff1916905586867f3e0cb85a4aca41e17c361c9e58a083ac94882648e4f611833ac6a274909fb7a16040600360028701549601958654825191825289820152a3610bb28154612075565b905554610bbb57005b835f52600e825260405f20855f52825260405f2060405191610bdc83611bb5565b6002835260018484019260403685378054610bf686611dc4565b520154610c0284611de5565b525f947f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf009283549660018060a01b03805f80516020612a708339815191525416803b1561024557604051637d6e912360e11b81528581018a9052905f908290818381610c71602482018f612187565b03925af180156108ac57610e65575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b15610e6157816040518092633263b83b60e01b82528b8783015260606024830152818381610cd88d6064830190612187565b63a255c5c560e01b604483015203925af18015610e5657908291610e3f575b508890527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018088526040822054610e2e57888252875260408120918651936001600160401b038511610e1b57600160401b8511610e1b57508254848455808510610df4575b50918152868120905b838110610de357505050505094600f610d91600395949388610d8a6102dc9a54612075565b90556121ba565b9260405196610d9f88611b73565b87528087019283526040870193845260608701945f86525f525260405f209451855551600185015551600284015551151591019060ff801983541691151516179055565b825182820155918701918401610d65565b83835285858a852092830192015b828110610e10575050610d5c565b5f8155018690610e02565b634e487b7160e01b835260419052602482fd5b604051633f06d22b60e01b81528490fd5b610e4890611ba2565b610e5357805f610cf7565b80fd5b6040513d84823e3d90fd5b5080fd5b610e70919250611ba2565b5f905f610c80565b604051635ae7a89560e11b81528790fd5b604051633b98df6560e01b81528390fd5b6040516313d0ff5960e31b8152fd5b5034610245576020366003190112610245576001600160a01b03610ecb611d2b565b165f52602052602060405f2054604051908152f35b503461024557610eef36611d84565b90610ef9816123c1565b60ff60025416610f4f57335f526005602052610f1c60405f205460035490611f07565b4210610f3e57610f2c9250612432565b335f5260056020524260405f20555f80f35b60405163aa9a98df60e01b81528390fd5b6040516313d0ff5960e31b81528390fd5b34610245575f366003190112610245576020600954604051908152f35b503461024557610f8c36611cb5565b825f9493929452602093600f855260405f2093600385019160ff8354166110bb5785545f52600e875260405f2095600181019687545f52885260405f2094611004604051610fd981611bb5565b600281526040368c8301378754610fef82611dc4565b526001880154610ffe82611de5565b526121ba565b6002830154036110aa576110199083886121f1565b60408280518101031261024557878201516040909201516001600160a01b0381169390849003610245577ff1c7a4c9992cb5412ae31402dbabb87d36db98ebb8cc9d718c20bf70ae8590489560409560ff19906001828254161790556001600283019182541617905583600382015501836001600160601b0360a01b825416179055549554968351928352820152a4005b6040516313b304fb60e21b81528490fd5b5060405163dbde098160e01b8152fd5b50346102455760403660031901126102455780356110e7611d41565b6110f0826123c1565b6001600160a01b0390811692831561114e5750815f526007602052600260405f2001805490846001600160601b0360a01b831617905516907f520d2aa3f60b1f605d23579c83515da59c70446b8afddd5a1e2528a06f238f745f80a4005b604051631a7387bd60e11b8152fd5b50346102455760a09061116f36611d84565b905f52600e60205260405f20905f5260205260405f2080549160018201549160ff60028201541690600381015492600180881b03910154169260405194855260208501521515604084015260608301526080820152f35b34610245575f366003190112610245575f546040516001600160a01b039091168152602090f35b50346102455760403660031901126102455760206112619161120d611d41565b81355f908152600a84526040908190208301545f80516020612a708339815191525482516382027b6d60e01b81529485019182526001600160a01b0393841660208301529395869490931692849283920190565b03915afa80156108ac576020915f91610a0c57506040519015158152f35b503461024557602036600319011261024557611299611d2b565b5f546001600160a01b03929083163303610236575016805f52600160205260405f20805460ff81166112c757005b60ff191690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d95f80a2005b34610245575f36600319011261024557602060405160038152f35b5034610245576020366003190112610245575f54813591906001600160a01b03163303610236577f6f05c070768300be3a8ec47b18efd326d94912ec5cf3f8bd7488e1c66d61e8bf604083600354908060035582519182526020820152a1005b34610245576020366003190112610245576001600160a01b0361138f611d2b565b165f526001602052602060ff60405f2054166040519015158152f35b34610245576113b936611d84565b905f52600c60205260405f20905f52602052602060ff60405f2054166040519015158152f35b34610245576102dc6113f036611d9a565b916113fa816123c1565b611f58565b346102455761140d36611d84565b905f52600860205260405f20905f52602052608060405f2080549060ff6001820154169060036002820154910154916040519384521515602084015260408301526060820152f35b34610245575f36600319011261024557602060ff600254166040519015158152f35b34610245576020366003190112610245576001600160a01b03611498611d2b565b165f526005602052602060405f2054604051908152f35b5034610245576040366003190112610245576020611261916114cf611d41565b5f80516020612a7083398151915254604080516382027b6d60e01b815284359481019485526001600160a01b0393841660208601529586949290931692849283920190565b5034610245576080366003190112610245576001600160401b03908035828111610245576115459036908301611d57565b909261154f611d41565b90606435908111610245576115679036908501611d57565b6001600160a01b038316929190831561160c576115899161062d913691611c52565b93841561091857506115e86020957ffe986ff08a86648f30146eb4d11f42f013eec7b1fc1bd64e8b30b95b8b5d86a0926115c33088612994565b6115cd3388612994565b3385036115fc575b5060405194604086526040860191611f38565b9284868201528033940390a3604051908152f35b6116069087612994565b5f6115d5565b604051630ed098d360e11b81528690fd5b503461024557602036600319011261024557355f52600d602052602060ff60405f2054166040519015158152f35b503461024557602036600319011261024557611665611d2b565b5f546001600160a01b03929083163303610236575016805f52600160205260405f20805460ff81161561169457005b60ff191660011790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2005b34610245575f366003190112610245576020600654604051908152f35b5034610245576040366003190112610245576001600160401b03908035828111610245576117119036908301611cfb565b9190926024359081116102455761172b9036908301611cfb565b9160ff60025416610e9a57335f52600560205261174f60405f205460035490611f07565b42106117c5578284036117b657505f5b82811061177857335f5260056020524260405f20555f80f35b8061178f6117896001938789611f28565b356123c1565b6117b061179d828789611f28565b356117a9838787611f28565b3590612432565b0161175f565b604051633b98df6560e01b8152fd5b60405163aa9a98df60e01b8152fd5b503461024557602036600319011261024557803590815f52600b60205260405f2060018101918254158015611893575b611881575061181381546123c1565b6003810160ff1990600182825416179055835f52600d60205260405f2060018282541617905581545f52600c60205260405f2083545f5260205260405f20908154169055549054917f427760ceb3dc973541d20c97ce3e74671a41fc075d83b928faceb2c478ac6d805f80a4005b60405160016235979b60e01b03198152fd5b5060ff600383015416611804565b503461024557602080600319360112610245578135906118c0826123c1565b60ff60025416610f4f57815f5260078152600360405f200154926008825260405f20845f52825260ff600160405f200154166119ad57506118ff6128c0565b60036040519161190e83611b73565b85835283830190600182526040840190815261195b60608501925f8452875f526008875260405f20895f52875260405f2095518655511515600186019060ff801983541691151516179055565b51600284015551910155815f526008815260405f2090835f5252611987600260405f2001543090612994565b7f217ff5db260372f7ab32608612dc3d218db8f3644666e2881c29c1e771e253bf5f80a3005b60405163012da8c160e61b8152fd5b503461024557602036600319011261024557803590811515809203610245575f546001600160a01b03163303610236577f9077d36bc00859b5c3f320310707208543dd35092cb0a0fe117d0c6a558b148b60208360ff196002541660ff821617600255604051908152a1005b34610245576102dc611a3936611cb5565b91611df5565b905034610245576020918260031936011261024557355f526007825260405f20805491838160018085015f91815491611a7783611b3b565b8086529260018116908115611b185750600114611ada575b505050611a9e92500382611beb565b611acb600360018060a01b0360028501541693015491608060405196879687528601526080850190611c2d565b91604084015260608301520390f35b5f90815285812095935091905b818310611b00575088945050820101611a9e5f80611a8f565b85548784018501529485019486945091830191611ae7565b92505050611a9e94925060ff191682840152151560051b82010186925f80611a8f565b90600182811c92168015611b69575b6020831014611b5557565b634e487b7160e01b5f52602260045260245ffd5b91607f1691611b4a565b608081019081106001600160401b03821117611b8e57604052565b634e487b7160e01b5f52604160045260245ffd5b6001600160401b038111611b8e57604052565b606081019081106001600160401b03821117611b8e57604052565b604081019081106001600160401b03821117611b8e57604052565b90601f801991011681019081106001600160401b03821117611b8e57604052565b5f5b838110611c1d5750505f910152565b8181015183820152602001611c0e565b90602091611c4681518092818552858086019101611c0c565b601f01601f1916010190565b9291926001600160401b038211611b8e5760405191611c7b601f8201601f191660200184611beb565b829481845281830111610245578281602093845f960137010152565b9080601f8301121561024557816020611cb293359101611c52565b90565b606060031982011261024557600435916001600160401b036024358181116102455783611ce491600401611c97565b9260443591821161024557611cb291600401611c97565b9181601f84011215610245578235916001600160401b038311610245576020808501948460051b01011161024557565b600435906001600160a01b038216820361024557565b602435906001600160a01b038216820361024557565b9181601f84011215610245578235916001600160401b038311610245576020838186019501011161024557565b6040906003190112610245576004359060243590565b60609060031901126102455760043590602435906044356001600160a01b03811681036102455790565b805115611dd15760200190565b634e487b7160e01b5f52603260045260245ffd5b805160011015611dd15760400190565b919091805f52602092600d845260409360ff855f205416611f0057600b8152845f20600381019060ff825416611eef5780545f5260088352865f2095600182019687545f528452611e65885f2060028a5191611e5083611bd0565b600183528736818501370154610ffe82611dc4565b600283015403611ede57611e7a9085876121f1565b828480518101031261024557827f60a5261a8de6f00d7bf40f51cf2b023425bc668db5e9bc89db8c104706efbc319401519160ff199060018282541617905581545f52600c8452875f2087545f528452875f209081541690555494549551908152a4565b87516313b304fb60e21b8152600490fd5b865163dbde098160e01b8152600490fd5b5050505050565b91908201809211611f1457565b634e487b7160e01b5f52601160045260245ffd5b9190811015611dd15760051b0190565b908060209392818452848401375f828201840152601f01601f1916010190565b91825f526008602052604090815f20835f52602052815f208054156120645760ff600182015416612053576003808201541061204257600201545f80516020612a708339815191525483516382027b6d60e01b8152600481018390526001600160a01b03848116602483015294916020908290604490829089165afa91821561203957505f9161201a575b50611f005781611ff291612994565b16917f4ea555bfb27b1f3d3d3effe14f9922590355a7111038820efe82ce61980120cc5f80a4565b612033915060203d602011610a3257610a248183611beb565b5f611fe3565b513d5f823e3d90fd5b8251636d1a1f2560e11b8152600490fd5b8251635824646760e01b8152600490fd5b8251633b98df6560e01b8152600490fd5b5f198114611f145760010190565b90815f52600a60205260405f20908154156121755760038201546001600160a01b03929083163303612163576004908101545f80516020612a70833981519152546040516382027b6d60e01b81529283018290526001600160a01b03841660248401529091906020908290604490829088165afa9081156108ac575f91612144575b5061213e578161211491612994565b169033907fe3c5692844114d2d6c11224e703768ede00052b26aa76c09918066304e0fc8535f80a4565b50505050565b61215d915060203d602011610a3257610a248183611beb565b5f612105565b6040516331511a2160e21b8152600490fd5b604051634015ee3b60e01b8152600490fd5b9081518082526020808093019301915f5b8281106121a6575050505090565b835185529381019392810192600101612198565b6040516121eb816121d76020820194604086526060830190612187565b30604083015203601f198101835282611beb565b51902090565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0191602091838352604093845f2054156123b057855f528352835f209084518083868295549384815201905f52865f20925f5b8882821061239a5750505061226092500383611beb565b805180850190818611611f14578601809111611f14576123015f86946122af89612314968151968161229b89935180928d8087019101611c0c565b8201908a8201520388810187520185611beb565b61232360018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b8752606060048801526064870190612187565b6003199384878303016024880152611c2d565b91848303016044850152611c2d565b03925af1918215612390575f92612373575b50501561236357507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b6123899250803d10610a3257610a248183611beb565b5f80612335565b83513d5f823e3d90fd5b8554845260019586019588955093019201612249565b845163d66ca67560e01b8152600490fd5b805f52600760205260405f205415612420575f90815260076020526040902060020154336001600160a01b0391821614159081612412575b5061240057565b604051630aac92bf60e01b8152600490fd5b90505f54163314155f6123f9565b604051636631410f60e01b8152600490fd5b805f52602060088152604090815f20845f528152815f20918254156127a45760019160ff838501541661279357600384015480156127825760031161277157845f52600c8152815f20865f52815260ff825f20541661276057815161249681611bd0565b8381526002828201958336883701546124ae82611dc4565b526124b8816121ba565b905f957f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf009182549760018060a01b03805f80516020612a708339815191525416803b15610245575f89518092637d6e912360e11b82528a6004830152818381612524602482018b612187565b03925af1801561275657612743575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b15610e61578188518092633263b83b60e01b82528c60048301526060602483015281838161258a606482018a612187565b63124bd04b60e01b604483015203925af1801561273957908291612725575b508990527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808752878220546127145789825286528681209151926001600160401b03841161270057600160401b84116127005782548484558085106126d9575b5091815287868220915b8481106126c7575050505050908161262f6126869354612075565b9055600384519161263f83611b73565b888352848301908a825286840190815260608401915f8352895f52600b8752875f2094518555518885015551600284015551151591019060ff801983541691151516179055565b845f52600c8152815f2090865f52525f209060ff198254161790557f5e0bb1b708f1f76775812e0c51d4f8893968e6bf1a6776e92e97da11615342f35f80a4565b87845194019381840155018890612614565b838352898589852092830192015b8281106126f557505061260a565b5f8155018a906126e7565b634e487b7160e01b82526041600452602482fd5b8751633f06d22b60e01b8152600490fd5b61272e90611ba2565b610e5357805f6125a9565b88513d84823e3d90fd5b61274e919250611ba2565b5f905f612533565b89513d5f823e3d90fd5b81516346aa15df60e11b8152600490fd5b8151636d1a1f2560e11b8152600490fd5b825163aa71014560e01b8152600490fd5b8151635824646760e01b8152600490fd5b51633b98df6560e01b8152600490fd5b60206128049260018060a01b0392835f80516020612a508339815191525416905f60405180978195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190611c2d565b6004606483015203925af19182156108ac575f92612874575b505f80516020612a708339815191525416803b1561024557604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156108ac5761286b575090565b611cb290611ba2565b9091506020813d6020116128a0575b8161289060209383611beb565b810103126102455751905f61281d565b3d9150612883565b90816020910312610245575180151581036102455790565b5f80516020612a5083398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19081156108ac575f91612912575090565b90506020813d602011612939575b8161292d60209383611beb565b81010312610245575190565b3d9150612920565b5f80516020612a5083398151915254604051639cd07acb60e01b8152600481019290925260076024830152602090829060449082905f906001600160a01b03165af19081156108ac575f91612912575090565b5f80516020612a70833981519152546001600160a01b031691823b1561024557604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156108ac576129f25750565b6129fb90611ba2565b565b9060646020925f60018060a01b035f80516020612a5083398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af19081156108ac575f9161291257509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type ProteinFoldingFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ProteinFoldingFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ProteinFoldingFHE__factory extends ContractFactory {
+  constructor(...args: ProteinFoldingFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      ProteinFoldingFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ProteinFoldingFHE__factory {
+    return super.connect(runner) as ProteinFoldingFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ProteinFoldingFHEInterface {
+    return new Interface(_abi) as ProteinFoldingFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ProteinFoldingFHE {
+    return new Contract(address, _abi, runner) as unknown as ProteinFoldingFHE;
+  }
+}
@@ -53,6 +53,10 @@ declare module "hardhat/types/runtime" {
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.UniversalAdapter__factory>;
+    getContractFactory(
+      name: "ProteinFoldingFHE",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.ProteinFoldingFHE__factory>;
 
     getContractAt(
       name: "EthereumConfig",
@@ -104,6 +108,11 @@ declare module "hardhat/types/runtime" {
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.UniversalAdapter>;
+    getContractAt(
+      name: "ProteinFoldingFHE",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.ProteinFoldingFHE>;
 
     deployContract(
       name: "EthereumConfig",
@@ -145,6 +154,10 @@ declare module "hardhat/types/runtime" {
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.UniversalAdapter>;
+    deployContract(
+      name: "ProteinFoldingFHE",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ProteinFoldingFHE>;
 
     deployContract(
       name: "EthereumConfig",
@@ -196,6 +209,11 @@ declare module "hardhat/types/runtime" {
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.UniversalAdapter>;
+    deployContract(
+      name: "ProteinFoldingFHE",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ProteinFoldingFHE>;
 
     // default types
     getContractFactory(
@@ -26,3 +26,5 @@ export type { AudioGuideFHE } from "./contracts/AudioGuideFHE";
 export { AudioGuideFHE__factory } from "./factories/contracts/AudioGuideFHE__factory";
 export type { UniversalAdapter } from "./contracts/UniversalAdapter";
 export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";
+export type { ProteinFoldingFHE } from "./contracts/proteinFoldingFHE.sol/ProteinFoldingFHE";
+export { ProteinFoldingFHE__factory } from "./factories/contracts/proteinFoldingFHE.sol/ProteinFoldingFHE__factory";